@@ -0,0 +1,46 @@
+// ===================================================================
+// HOME SHELL - Background, modals and layout around the main island
+// ===================================================================
+// Shared by the home page and the sign pages (/leo, /leo/weekly)
+
+import type { ComponentChildren } from "preact";
+import BackgroundCanvas from "../islands/BackgroundCanvas.tsx";
+import { AboutModal } from "../islands/AboutModal.tsx";
+import { WelcomeModal } from "../islands/WelcomeModal.tsx";
+import WelcomeChecker from "../islands/WelcomeChecker.tsx";
+
+export function HomeShell({ children }: { children: ComponentChildren }) {
+  return (
+    <div
+      id="main-content"
+      class="min-h-[100dvh] w-full flex flex-col relative overflow-hidden global-flicker"
+      style="background: linear-gradient(135deg, #0a0a0a 0%, #151515 50%, #0a0a0a 100%); position: fixed; inset: 0;"
+    >
+      {/* Animated canvas background */}
+      <BackgroundCanvas />
+
+      <div class="relative z-10 flex flex-col flex-1 w-full">
+        {/* Global atmospheric effects removed for crisper terminal */}
+
+        {/* Check if first visit and show welcome */}
+        <WelcomeChecker />
+
+        {/* First-visit welcome modal */}
+        <WelcomeModal />
+
+        {/* About modal (opened by footer link) */}
+        <AboutModal />
+
+        {/* Floating Theme Button */}
+        {
+          /* <div class="fixed top-4 right-4 z-50">
+          <ThemeIsland />
+        </div> */
+        }
+
+        {/* Main interactive content */}
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+// deno-lint-ignore-file react-no-danger
+
 /**
  * 🔍 Structured Data Component
  *
@@ -12,9 +14,11 @@ interface StructuredDataProps {
     text: string;
     date: string;
   };
+  /** CSP nonce (ctx.state.nonce) */
+  nonce?: string;
 }
 
-export function StructuredData({ horoscope }: StructuredDataProps) {
+export function StructuredData({ horoscope, nonce }: StructuredDataProps) {
   // Base organization schema
   const organizationSchema = {
     "@context": "https://schema.org",
@@ -63,9 +67,17 @@ export function StructuredData({ horoscope }: StructuredDataProps) {
     ? [organizationSchema, horoscopeSchema]
     : organizationSchema;
 
+  // Readings come from upstream, so keep them from closing the tag early
+  const json = JSON.stringify(structuredData, null, 2).replace(
+    /</g,
+    "\\u003c",
+  );
+
   return (
-    <script type="application/ld+json">
-      {JSON.stringify(structuredData, null, 2)}
-    </script>
+    <script
+      type="application/ld+json"
+      nonce={nonce}
+      dangerouslySetInnerHTML={{ __html: json }}
+    />
   );
 }
@@ -97,6 +97,12 @@ interface TerminalDisplayProps {
   currentPeriod?: string;
   /** Period change handler (for horoscope mode) */
   onPeriodChange?: (period: string) => void;
+  /** Step back one period (horoscope mode, shows date arrows when set) */
+  onPrevDate?: () => void;
+  /** Step forward one period */
+  onNextDate?: () => void;
+  /** Whether there's a later reading to step to (default: true) */
+  canGoNext?: boolean;
 }
 
 export function TerminalDisplay({
@@ -118,6 +124,9 @@ export function TerminalDisplay({
   headerTypeSpeed,
   currentPeriod,
   onPeriodChange,
+  onPrevDate,
+  onNextDate,
+  canGoNext = true,
 }: TerminalDisplayProps) {
   const [copiedToClipboard, setCopiedToClipboard] = useState(false);
   const [typingComplete, setTypingComplete] = useState(false);
@@ -677,6 +686,17 @@ export function TerminalDisplay({
                     opacity: 1;
                     text-shadow: 0 0 8px rgba(60, 255, 143, 0.5);
                   }
+
+                  .horoscope-nav .date-step::after {
+                    display: none;
+                  }
+
+                  .horoscope-nav .date-step:disabled {
+                    opacity: 0.2;
+                    cursor: default;
+                    transform: none;
+                    text-shadow: none;
+                  }
                 `}
               </style>
               {periodOptions.map(({ value, label }) => (
@@ -694,6 +714,36 @@ export function TerminalDisplay({
                   {label.toUpperCase()}
                 </button>
               ))}
+              {onPrevDate && onNextDate && (
+                <>
+                  <button
+                    type="button"
+                    class="date-step"
+                    title={`Previous ${currentPeriod} reading`}
+                    aria-label={`Previous ${currentPeriod} reading`}
+                    disabled={isLoading}
+                    onClick={() => {
+                      sounds.click();
+                      onPrevDate();
+                    }}
+                  >
+                    ◀
+                  </button>
+                  <button
+                    type="button"
+                    class="date-step"
+                    title={`Next ${currentPeriod} reading`}
+                    aria-label={`Next ${currentPeriod} reading`}
+                    disabled={isLoading || !canGoNext}
+                    onClick={() => {
+                      sounds.click();
+                      onNextDate();
+                    }}
+                  >
+                    ▶
+                  </button>
+                </>
+              )}
             </div>
           )}
 
@@ -1,8 +1,9 @@
 #!/usr/bin/env -S deno run -A --watch=static/,routes/
 
+// Load .env before fresh.config.ts reads the config
+import "$std/dotenv/load.ts";
+
 import dev from "$fresh/dev.ts";
 import config from "./fresh.config.ts";
 
-import "$std/dotenv/load.ts";
-
 await dev(import.meta.url, "./main.ts", config);
@@ -1,10 +1,15 @@
 import { defineConfig } from "$fresh/server.ts";
 import tailwind from "$fresh/plugins/tailwind.ts";
+import { loadStartupConfig } from "./utils/config.ts";
+
+// Validates the whole config, so bad settings stop the server here
+const { server } = loadStartupConfig();
 
 export default defineConfig({
   server: {
-    hostname: "0.0.0.0", // Allow local network access for phone testing
-    port: 8002,
+    // 0.0.0.0 by default: allows local network access for phone testing
+    hostname: server.hostname,
+    port: server.port,
   },
   plugins: [tailwind()],
 });
@@ -2,11 +2,24 @@
 // This file SHOULD be checked into source version control.
 // This file is automatically updated during development when running `dev.ts`.
 
+import * as $_sign_path_ from "./routes/[sign]/[...path].tsx";
 import * as $_404 from "./routes/_404.tsx";
 import * as $_app from "./routes/_app.tsx";
+import * as $_middleware from "./routes/_middleware.ts";
+import * as $api_middleware from "./routes/api/_middleware.ts";
 import * as $api_horoscope from "./routes/api/horoscope.ts";
-import * as $greet_name_ from "./routes/greet/[name].tsx";
+import * as $api_horoscope_all from "./routes/api/horoscope/all.ts";
+import * as $api_horoscope_archive from "./routes/api/horoscope/archive.ts";
+import * as $api_openapi_json from "./routes/api/openapi.json.ts";
+import * as $api_prewarm from "./routes/api/prewarm.ts";
+import * as $calendar_sign_ from "./routes/calendar/[sign].ts";
+import * as $embed_sign_ from "./routes/embed/[sign].tsx";
+import * as $feeds_sign_feed_ from "./routes/feeds/[sign]/[feed].ts";
+import * as $healthz from "./routes/healthz.ts";
 import * as $index from "./routes/index.tsx";
+import * as $metrics from "./routes/metrics.ts";
+import * as $og_sign_ from "./routes/og/[sign].ts";
+import * as $sitemap_xml from "./routes/sitemap.xml.ts";
 import * as $thanks from "./routes/thanks.tsx";
 import * as $AboutModal from "./islands/AboutModal.tsx";
 import * as $BackgroundCanvas from "./islands/BackgroundCanvas.tsx";
@@ -24,11 +37,24 @@ import type { Manifest } from "$fresh/server.ts";
 
 const manifest = {
   routes: {
+    "./routes/[sign]/[...path].tsx": $_sign_path_,
     "./routes/_404.tsx": $_404,
     "./routes/_app.tsx": $_app,
+    "./routes/_middleware.ts": $_middleware,
+    "./routes/api/_middleware.ts": $api_middleware,
     "./routes/api/horoscope.ts": $api_horoscope,
-    "./routes/greet/[name].tsx": $greet_name_,
+    "./routes/api/horoscope/all.ts": $api_horoscope_all,
+    "./routes/api/horoscope/archive.ts": $api_horoscope_archive,
+    "./routes/api/openapi.json.ts": $api_openapi_json,
+    "./routes/api/prewarm.ts": $api_prewarm,
+    "./routes/calendar/[sign].ts": $calendar_sign_,
+    "./routes/embed/[sign].tsx": $embed_sign_,
+    "./routes/feeds/[sign]/[feed].ts": $feeds_sign_feed_,
+    "./routes/healthz.ts": $healthz,
     "./routes/index.tsx": $index,
+    "./routes/metrics.ts": $metrics,
+    "./routes/og/[sign].ts": $og_sign_,
+    "./routes/sitemap.xml.ts": $sitemap_xml,
     "./routes/thanks.tsx": $thanks,
   },
   islands: {
@@ -5,9 +5,30 @@
 import { useSignal } from "@preact/signals";
 import ZodiacPicker from "./ZodiacPicker.tsx";
 import HoroscopeDisplay from "./HoroscopeDisplay.tsx";
+import type { HoroscopePeriod } from "../utils/horoscope/types.ts";
+import type { HoroscopeReading } from "../utils/horoscope/reading.ts";
 
-export default function HomeIsland() {
-  const selectedSign = useSignal<string | null>(null);
+interface HomeIslandProps {
+  /** Sign pages (/leo) open straight on the sign's reading */
+  initialSign?: string;
+  initialPeriod?: HoroscopePeriod;
+  initialReading?: HoroscopeReading;
+  initialEffect?: string;
+  initialDay?: string;
+}
+
+export default function HomeIsland(
+  {
+    initialSign,
+    initialPeriod,
+    initialReading,
+    initialEffect,
+    initialDay,
+  }: HomeIslandProps,
+) {
+  const selectedSign = useSignal<string | null>(initialSign ?? null);
+  // Only the first display gets the server-rendered page state
+  const fromServer = useSignal(Boolean(initialSign));
 
   // Disabled: Load saved sign on mount - we want users to choose their sign each time
   // useEffect(() => {
@@ -24,6 +45,7 @@ export default function HomeIsland() {
   };
 
   const handleChangeSign = () => {
+    fromServer.value = false;
     selectedSign.value = null;
   };
 
@@ -92,6 +114,12 @@ export default function HomeIsland() {
               <HoroscopeDisplay
                 sign={selectedSign.value}
                 onChangeSign={handleChangeSign}
+                {...(fromServer.value && {
+                  initialPeriod,
+                  initialReading,
+                  initialEffect,
+                  initialDay,
+                })}
               />
             )
             : <ZodiacPicker onSignSelected={handleSignSelected} />}
@@ -2,19 +2,34 @@
 // HOROSCOPE DISPLAY ISLAND - Cosmic horoscope with dark magic vibes
 // ===================================================================
 
-// deno-lint-ignore-file no-explicit-any no-unsafe-finally
+// deno-lint-ignore-file no-unsafe-finally
 
 import { useSignal } from "@preact/signals";
-import { useEffect, useRef } from "preact/hooks";
+import { useEffect, useMemo, useRef } from "preact/hooks";
 import { sounds } from "../utils/sounds.ts";
 import { analytics } from "../utils/analytics.ts";
-import { getZodiacEmoji } from "../utils/zodiac.ts";
 import { COLOR_EFFECTS } from "../utils/constants.ts";
 import { TerminalDisplay } from "../components/TerminalDisplay.tsx";
-import { applyColorToArt } from "../utils/colorEffects.ts";
-import { generateHoroscopeAscii } from "../utils/asciiArtGenerator.ts";
+import type { HoroscopePeriod } from "../utils/horoscope/types.ts";
+import {
+  getPeriodStart,
+  parseIsoDate,
+  shiftPeriodStart,
+  toIsoDate,
+} from "../utils/horoscope/dates.ts";
+import type { HoroscopeReading } from "../utils/horoscope/reading.ts";
+import { renderReadingArt } from "../utils/horoscope/art.ts";
+import { createHoroscopeClient } from "../utils/horoscope/client.ts";
+import {
+  describeHoroscopeError,
+  type RetryStrategy,
+} from "../utils/horoscope/errorCopy.ts";
+
+const horoscopeClient = createHoroscopeClient();
 
 const FEATURED_EFFECTS = ["trinity", "lolcat"];
+// Auto-retries before we hand control back to the retry button
+const MAX_AUTO_RETRIES = 2;
 const RANDOM_COLOR_EFFECTS = COLOR_EFFECTS.filter((effect) =>
   FEATURED_EFFECTS.includes(effect.value)
 );
@@ -34,169 +49,183 @@ function pickRandomColorEffect(): string {
 interface HoroscopeDisplayProps {
   sign: string;
   onChangeSign?: () => void;
+  /** Period to open on (sign pages like /leo/weekly) */
+  initialPeriod?: HoroscopePeriod;
+  /** Server-rendered reading to show before (or instead of) fetching */
+  initialReading?: HoroscopeReading;
+  /** Color effect for the server-rendered art (random picks would mismatch) */
+  initialEffect?: string;
+  /** Day the page was pinned to (YYYY-MM-DD), if not today */
+  initialDay?: string;
 }
 
-type Period = "daily" | "weekly" | "monthly";
+type Period = HoroscopePeriod;
 
-function getDisplayMeta(data: any, period: Period): string {
-  if (!data) return "";
-  if (period === "weekly") {
-    return data.week || data.date || "";
+/**
+ * The browser's IANA timezone, so the API serves *our* today
+ */
+function getClientTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
   }
-  if (period === "monthly") {
-    return data.month || data.date || "";
-  }
-  return data.date || "";
+}
+
+/**
+ * Today's calendar date in the browser's timezone, as a UTC midnight
+ */
+function getClientToday(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
 }
 
 export default function HoroscopeDisplay(
-  { sign, onChangeSign: _onChangeSign }: HoroscopeDisplayProps,
+  {
+    sign,
+    onChangeSign,
+    initialPeriod,
+    initialReading,
+    initialEffect,
+    initialDay,
+  }: HoroscopeDisplayProps,
 ) {
-  const currentPeriod = useSignal<Period>("daily");
-  const horoscopeData = useSignal<any>(null);
+  const initialArt = useMemo(
+    () =>
+      initialReading
+        ? renderReadingArt(sign, initialReading, initialEffect ?? "none")
+        : null,
+    [],
+  );
+  const currentPeriod = useSignal<Period>(
+    initialPeriod ?? initialReading?.period ?? "daily",
+  );
+  // Day being browsed (YYYY-MM-DD), null for today
+  const selectedDay = useSignal<string | null>(initialDay ?? null);
+  const lastSignRef = useRef(sign);
+  // Skip the first fetch when the server already sent the reading
+  const skipFetchRef = useRef(Boolean(initialReading));
+  const horoscopeData = useSignal<HoroscopeReading | null>(
+    initialReading ?? null,
+  );
   const isLoading = useSignal(false);
   const isBootingUp = useSignal(false);
   const bootComplete = useSignal(false);
   const bootMessages = useSignal<string[]>([]);
-  const colorEffect = useSignal(pickRandomColorEffect());
+  const colorEffect = useSignal(initialEffect ?? pickRandomColorEffect());
   const visualEffect = useSignal("neon"); // Hard-coded to neon
-  const asciiOutput = useSignal("");
-  const colorizedHtml = useSignal("");
-  const headerHtml = useSignal("");
-  const bodyHtml = useSignal("");
-  const headerText = useSignal("");
-  const bodyText = useSignal("");
+  const asciiOutput = useSignal(initialArt?.ascii ?? "");
+  const colorizedHtml = useSignal(initialArt?.fullHtml ?? "");
+  const headerHtml = useSignal(initialArt?.headerHtml ?? "");
+  const bodyHtml = useSignal(initialArt?.bodyHtml ?? "");
+  const headerText = useSignal(initialArt?.headerText ?? "");
+  const bodyText = useSignal(initialArt?.bodyText ?? "");
   const requestIdRef = useRef(0);
   const activeController = useRef<AbortController | null>(null);
   const errorMessage = useSignal<string | null>(null);
+  const errorRetry = useSignal<RetryStrategy>({ kind: "manual" });
+  const retryCountdown = useSignal(0);
+  const retryTimerRef = useRef<number | null>(null);
+  const autoRetryCount = useRef(0);
 
   // Initialize analytics
   useEffect(() => {
     analytics.init();
+    return () => clearRetryTimer();
   }, []);
 
-  // Fetch horoscope when sign or period changes
+  // Fetch horoscope when sign, period or browsed day changes
   useEffect(() => {
+    // A new sign starts back on today (resetting re-runs this effect)
+    if (sign !== lastSignRef.current) {
+      lastSignRef.current = sign;
+      if (selectedDay.value) {
+        selectedDay.value = null;
+        return;
+      }
+    }
+    if (skipFetchRef.current) {
+      skipFetchRef.current = false;
+      // The server's "today" may not be ours: refetch if it's stale here
+      const serverReading = horoscopeData.value;
+      if (
+        selectedDay.value ||
+        serverReading?.date === toIsoDate(
+            getPeriodStart(currentPeriod.value, getClientToday()),
+          )
+      ) {
+        return;
+      }
+    }
     if (sign) {
-      fetchHoroscope(sign, currentPeriod.value);
+      autoRetryCount.current = 0;
+      fetchHoroscope(sign, currentPeriod.value, selectedDay.value);
     }
-  }, [sign, currentPeriod.value]);
+  }, [sign, currentPeriod.value, selectedDay.value]);
 
   // Generate ASCII art when horoscope data or font changes
   useEffect(() => {
-    if (horoscopeData.value?.horoscope_data) {
-      const text = horoscopeData.value.horoscope_data;
-      const metaLabel = getDisplayMeta(
-        horoscopeData.value,
-        currentPeriod.value,
-      );
-      // Generate ASCII art with sign name, period, and date
-      const emoji = getZodiacEmoji(sign);
-      const ascii = generateHoroscopeAscii(
+    if (horoscopeData.value) {
+      const art = renderReadingArt(
         sign,
-        text,
-        currentPeriod.value,
-        metaLabel,
-        emoji,
+        horoscopeData.value,
+        colorEffect.value,
       );
-      asciiOutput.value = ascii;
-      const sections = splitAsciiSections(ascii);
-      headerText.value = sections.header;
-      bodyText.value = sections.body;
-
-      // Always apply special header formatting
-      // Even with no color effect, header gets golden color
-      if (colorEffect.value !== "none") {
-        const colorized = applyColorToArt(ascii, colorEffect.value);
-        colorizedHtml.value = colorized.fullHtml;
-        headerHtml.value = colorized.headerHtml;
-        bodyHtml.value = colorized.bodyHtml;
-      } else {
-        // No color effect: still highlight header in gold
-        const colorized = applyHeaderHighlight(ascii);
-        colorizedHtml.value = colorized.fullHtml;
-        headerHtml.value = colorized.headerHtml;
-        bodyHtml.value = colorized.bodyHtml;
-      }
+      asciiOutput.value = art.ascii;
+      headerText.value = art.headerText;
+      bodyText.value = art.bodyText;
+      colorizedHtml.value = art.fullHtml;
+      headerHtml.value = art.headerHtml;
+      bodyHtml.value = art.bodyHtml;
     }
   }, [horoscopeData.value, colorEffect.value]);
 
-  // Helper function to highlight header even without color effects
-  const escapeHtml = (value: string): string =>
-    value
-      .replace(/&/g, "&amp;")
-      .replace(/</g, "&lt;")
-      .replace(/>/g, "&gt;")
-      .replace(/"/g, "&quot;")
-      .replace(/'/g, "&#039;");
-
-  const applyHeaderHighlight = (art: string) => {
-    const lines = art.split("\n");
-    const colorizedLines: string[] = [];
-    const headerLines: string[] = [];
-    const bodyLines: string[] = [];
-    let inHeader = false;
-    let headerLineIndex = 0;
-
-    for (const line of lines) {
-      if (line.includes("[HEADER_START]")) {
-        inHeader = true;
-        headerLineIndex = 0;
-        continue;
-      }
-      if (line.includes("[HEADER_END]")) {
-        inHeader = false;
-        headerLineIndex = 0;
-        continue;
-      }
-
-      if (inHeader) {
-        headerLineIndex++;
-        const isTitleLine = headerLineIndex === 1;
-        const baseStyle =
-          "color: #FFD700; display: block; font-family: 'JetBrains Mono', 'SF Mono', 'Courier New', monospace;";
-
-        const span = isTitleLine
-          ? `<span style="${baseStyle} font-weight: 900; letter-spacing: 0.18em; font-size: clamp(18px, 4vw, 32px); text-transform: uppercase;">${
-            escapeHtml(line)
-          }</span>`
-          : `<span style="${baseStyle} font-weight: 700; letter-spacing: 0.04em; font-size: clamp(14px, 3vw, 24px); text-transform: none; white-space: pre; line-height: 1.15;">${
-            escapeHtml(line)
-          }</span>`;
-        colorizedLines.push(span);
-        headerLines.push(span);
-      } else if (line.trim()) {
-        // Body in terminal green
-        const span = `<span style="color: #00FF41;">${escapeHtml(line)}</span>`;
-        colorizedLines.push(span);
-        bodyLines.push(span);
-      } else {
-        colorizedLines.push(line);
-        bodyLines.push(line);
-      }
+  const clearRetryTimer = () => {
+    if (retryTimerRef.current !== null) {
+      clearInterval(retryTimerRef.current);
+      retryTimerRef.current = null;
     }
-
-    return {
-      fullHtml: colorizedLines.join("\n"),
-      headerHtml: headerLines.join("\n"),
-      bodyHtml: bodyLines.join("\n"),
-    };
+    retryCountdown.value = 0;
   };
 
-  const splitAsciiSections = (art: string) => {
-    const startMarker = "[HEADER_START]";
-    const endMarker = "[HEADER_END]";
-    const startIndex = art.indexOf(startMarker);
-    const endIndex = art.indexOf(endMarker);
-    if (startIndex === -1 || endIndex === -1) {
-      return { header: "", body: art.trim() };
+  // Show the error panel for an error code, and start any retry countdown
+  const showError = (code: string | undefined, retryAfter?: number) => {
+    const described = describeHoroscopeError(code, retryAfter);
+    let retry = described.retry;
+    if (retry.kind === "auto" && autoRetryCount.current >= MAX_AUTO_RETRIES) {
+      retry = { kind: "manual" };
     }
-    const header = art.slice(startIndex + startMarker.length, endIndex).trim();
-    const body = art.slice(endIndex + endMarker.length).trimStart();
-    return { header, body };
+
+    analytics.trackError(described.code, { sign });
+    sounds.error();
+    horoscopeData.value = null;
+    asciiOutput.value = "";
+    colorizedHtml.value = "";
+    errorMessage.value = described.message;
+    errorRetry.value = retry;
+
+    clearRetryTimer();
+    if (retry.kind !== "auto" && retry.kind !== "wait") return;
+
+    retryCountdown.value = Math.ceil(retry.delayMs / 1000);
+    retryTimerRef.current = setInterval(() => {
+      retryCountdown.value = Math.max(0, retryCountdown.value - 1);
+      if (retryCountdown.value > 0) return;
+      clearRetryTimer();
+      if (retry.kind === "auto") {
+        autoRetryCount.current++;
+        fetchHoroscope(sign, currentPeriod.value, selectedDay.value);
+      }
+    }, 1000) as unknown as number;
   };
 
-  const fetchHoroscope = async (zodiacSign: string, period: Period) => {
+  const fetchHoroscope = async (
+    zodiacSign: string,
+    period: Period,
+    day: string | null = null,
+  ) => {
+    clearRetryTimer();
+
     // Abort any in-flight request before starting a new one
     if (activeController.current) {
       activeController.current.abort();
@@ -285,58 +314,40 @@ export default function HoroscopeDisplay(
     isLoading.value = true;
 
     try {
-      const response = await fetch(
-        `/api/horoscope?sign=${zodiacSign}&period=${period}`,
+      const result = await horoscopeClient.getReading(
+        {
+          sign: zodiacSign,
+          period,
+          tz: getClientTimeZone(),
+          day: day ?? undefined,
+        },
         { signal: controller.signal },
       );
-      if (!response.ok) {
-        throw new Error(`API returned ${response.status}`);
-      }
-      const data = await response.json();
 
       if (controller.signal.aborted || requestToken !== requestIdRef.current) {
         return;
       }
 
-      if (data.success) {
+      if (result.ok) {
+        autoRetryCount.current = 0;
         colorEffect.value = pickRandomColorEffect();
-        horoscopeData.value = data.data;
+        horoscopeData.value = result.data.data;
         analytics.trackHoroscopeViewed(zodiacSign, period, colorEffect.value);
         sounds.success();
       } else {
-        console.error("Horoscope fetch failed:", data.error);
-        sounds.error();
-        horoscopeData.value = null;
-        asciiOutput.value = "";
-        colorizedHtml.value = "";
-        // Random error messages with personality
-        const errorMessages = [
-          "⚠️ TRANSMISSION CORRUPTED — The stars sent back static. Retry?",
-          "❌ LINK SEVERED — Cosmic firewall blocked the vibes. Try again?",
-          "⚡ SIGNAL LOST — Mothership went dark. Reconnect?",
-          "🔮 DIVINATION FAILED — The universe hung up on us. One more time?",
-        ];
-        errorMessage.value =
-          errorMessages[Math.floor(Math.random() * errorMessages.length)];
+        console.error(
+          "Horoscope fetch failed:",
+          result.error.code,
+          result.error.error,
+        );
+        showError(result.error.code, result.retryAfter);
       }
     } catch (error) {
       if (controller.signal.aborted || requestToken !== requestIdRef.current) {
         return;
       }
       console.error("Failed to fetch horoscope:", error);
-      sounds.error();
-      horoscopeData.value = null;
-      asciiOutput.value = "";
-      colorizedHtml.value = "";
-      // Random network error messages
-      const networkErrors = [
-        "🛰️ CONNECTION TIMEOUT — Can't reach the astral plane. Check your link?",
-        "⚠️ MAINFRAME OFFLINE — The celestial servers are napping. Retry?",
-        "❌ DECRYPT FAILED — Star data scrambled beyond recognition. Try again?",
-        "🌌 VOID DETECTED — Nothing but cosmic silence out there. Reconnect?",
-      ];
-      errorMessage.value =
-        networkErrors[Math.floor(Math.random() * networkErrors.length)];
+      showError("network");
     } finally {
       if (controller.signal.aborted || requestToken !== requestIdRef.current) {
         return;
@@ -349,12 +360,110 @@ export default function HoroscopeDisplay(
   };
 
   const handlePeriodChange = (period: string) => {
+    selectedDay.value = null;
     currentPeriod.value = period as Period;
   };
 
+  // Start of the current period, in the browser's timezone
+  const todayPeriodStart = toIsoDate(
+    getPeriodStart(currentPeriod.value, getClientToday()),
+  );
+
+  /**
+   * Step the browsed reading back (-1) or forward (+1) one period
+   */
+  const handleDateStep = (steps: number) => {
+    const from = parseIsoDate(
+      horoscopeData.value?.date ?? selectedDay.value ?? todayPeriodStart,
+    );
+    if (!from) return;
+    const target = toIsoDate(
+      shiftPeriodStart(currentPeriod.value, from, steps),
+    );
+    if (target > todayPeriodStart) return;
+    selectedDay.value = target === todayPeriodStart ? null : target;
+  };
+
   const handleRetry = () => {
     sounds.click();
-    fetchHoroscope(sign, currentPeriod.value);
+    autoRetryCount.current = 0;
+    fetchHoroscope(sign, currentPeriod.value, selectedDay.value);
+  };
+
+  const retryButtonClass =
+    "inline-flex items-center gap-2 font-mono font-black uppercase tracking-wide px-6 py-3 border-3 rounded-xl transition-all hover:scale-105 active:scale-95 shadow-brutal";
+  const retryButtonStyle =
+    "background-color: var(--color-accent, #a855f7); color: var(--color-text, #faf9f6); border-color: var(--color-border, #a855f7);";
+
+  const renderRetryControls = () => {
+    const retry = errorRetry.value;
+
+    if (retry.kind === "none" && selectedDay.value) {
+      return (
+        <button
+          type="button"
+          onClick={() => {
+            sounds.click();
+            selectedDay.value = null;
+          }}
+          class={retryButtonClass}
+          style={retryButtonStyle}
+        >
+          📅 Back to today
+        </button>
+      );
+    }
+
+    if (retry.kind === "none") {
+      return onChangeSign
+        ? (
+          <button
+            type="button"
+            onClick={onChangeSign}
+            class={retryButtonClass}
+            style={retryButtonStyle}
+          >
+            🔮 Pick a sign
+          </button>
+        )
+        : null;
+    }
+
+    if (retry.kind === "wait" && retryCountdown.value > 0) {
+      return (
+        <button
+          type="button"
+          disabled
+          class={retryButtonClass}
+          style={`${retryButtonStyle} opacity: 0.6; cursor: not-allowed;`}
+        >
+          ⏳ Retry in {retryCountdown.value}s
+        </button>
+      );
+    }
+
+    return (
+      <>
+        {retry.kind === "auto" && retryCountdown.value > 0 && (
+          <p
+            class="font-mono text-xs mb-4"
+            style="color: var(--color-text, #faf9f6); opacity: 0.7;"
+          >
+            Auto-retry in {retryCountdown.value}s
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={handleRetry}
+          class={retryButtonClass}
+          style={retryButtonStyle}
+        >
+          🔁 {retry.kind === "auto" && retryCountdown.value > 0
+            ? "Retry now"
+            : "Retry"}
+        </button>
+      </>
+    );
   };
 
   return (
@@ -373,14 +482,7 @@ export default function HoroscopeDisplay(
               >
                 {errorMessage.value}
               </p>
-              <button
-                type="button"
-                onClick={handleRetry}
-                class="inline-flex items-center gap-2 font-mono font-black uppercase tracking-wide px-6 py-3 border-3 rounded-xl transition-all hover:scale-105 active:scale-95 shadow-brutal"
-                style="background-color: var(--color-accent, #a855f7); color: var(--color-text, #faf9f6); border-color: var(--color-border, #a855f7);"
-              >
-                🔁 Retry
-              </button>
+              {renderRetryControls()}
             </div>
           </div>
         )
@@ -412,8 +514,8 @@ export default function HoroscopeDisplay(
             isLoading={isLoading.value || isBootingUp.value}
             filename={horoscopeData.value
               ? `${sign}-${currentPeriod.value}-${
-                horoscopeData.value.date
-                  ? horoscopeData.value.date.toLowerCase().replace(
+                horoscopeData.value.label
+                  ? horoscopeData.value.label.toLowerCase().replace(
                     /[\s,]+/g,
                     "-",
                   )
@@ -423,10 +525,17 @@ export default function HoroscopeDisplay(
             terminalPath={`~/cosmic/${sign}.txt`}
             visualEffect={visualEffect.value}
             hideExportButtons={!horoscopeData.value}
-            enableTypewriter={bootComplete.value && horoscopeData.value}
+            enableTypewriter={bootComplete.value &&
+              Boolean(horoscopeData.value)}
             typewriterSpeed={24}
             currentPeriod={currentPeriod.value}
             onPeriodChange={handlePeriodChange}
+            onPrevDate={() => handleDateStep(-1)}
+            onNextDate={() => handleDateStep(1)}
+            canGoNext={Boolean(
+              horoscopeData.value &&
+                horoscopeData.value.date < todayPeriodStart,
+            )}
           />
         )}
     </div>
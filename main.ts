@@ -9,5 +9,7 @@ import "$std/dotenv/load.ts";
 import { start } from "$fresh/server.ts";
 import manifest from "./fresh.gen.ts";
 import config from "./fresh.config.ts";
+import { registerPrewarmCron } from "./utils/horoscope/prewarm.ts";
 
+registerPrewarmCron();
 await start(manifest, config);
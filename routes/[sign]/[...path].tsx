@@ -0,0 +1,170 @@
+// ===================================================================
+// SIGN ROUTE - /leo, /leo/weekly, /leo/2026-10-19 ...
+// ===================================================================
+// Server-renders the reading into the display island, with per-sign
+// title, description, canonical URL and JSON-LD (utils/seo.ts).
+//
+// Content negotiation: curl/wget (or Accept: text/plain) get the ANSI
+// art straight to the terminal instead (utils/horoscope/terminal.ts).
+
+import { Handlers, PageProps, RouteConfig } from "$fresh/server.ts";
+import HomeIsland from "../../islands/HomeIsland.tsx";
+import { HomeShell } from "../../components/HomeShell.tsx";
+import {
+  type HoroscopePeriod,
+  isValidSign,
+} from "../../utils/horoscope/types.ts";
+import type { HoroscopeReading } from "../../utils/horoscope/reading.ts";
+import { resolveReadingParams } from "../../utils/horoscope/params.ts";
+import {
+  getReading,
+  getReadingCacheControl,
+} from "../../utils/horoscope/service.ts";
+import { toHoroscopeApiError } from "../../utils/horoscope/errors.ts";
+import {
+  getTerminalEffect,
+  parseSignPath,
+  renderTerminalReading,
+  terminalErrorResponse,
+  wantsPlainText,
+} from "../../utils/horoscope/terminal.ts";
+import { type AppState, buildSignSeo } from "../../utils/seo.ts";
+import {
+  getRateLimitRules,
+  rateLimitedPage,
+  withRateLimit,
+} from "../../utils/rateLimit.ts";
+import { getFeedLinks } from "../../utils/feeds.ts";
+import {
+  conditionalResponse,
+  getReadingValidators,
+} from "../../utils/conditional.ts";
+import { annotateRequest, log } from "../../utils/log.ts";
+
+// Fresh nonces its island scripts; routes/_middleware.ts sets the policy
+export const config: RouteConfig = { csp: true };
+
+interface SignPageData {
+  sign: string;
+  period: HoroscopePeriod;
+  /** Missing when the fetch failed; the island retries client-side */
+  reading?: HoroscopeReading;
+  effect: string;
+  /** Set for pages pinned to a date (/leo/2026-10-19) */
+  day?: string;
+}
+
+// Same response, different representation depending on who's asking
+const VARY = "Accept, User-Agent, X-Timezone";
+
+export const handler: Handlers<SignPageData, AppState> = {
+  GET(req, ctx) {
+    const sign = ctx.params.sign.toLowerCase();
+    const segments = parseSignPath(ctx.params.path ?? "");
+    if (!isValidSign(sign) || !segments) return ctx.renderNotFound();
+
+    const url = new URL(req.url);
+    const plain = wantsPlainText(req);
+    const effect = getTerminalEffect(url.searchParams.get("effect"));
+
+    return withRateLimit(
+      req,
+      ctx.remoteAddr,
+      { route: "/:sign", rule: getRateLimitRules()["/:sign"] },
+      async () => {
+        const parsed = resolveReadingParams({
+          period: segments.period ?? url.searchParams.get("period"),
+          day: segments.day ?? url.searchParams.get("day"),
+          timeZone: url.searchParams.get("tz") ||
+            req.headers.get("x-timezone"),
+        });
+        if (!parsed.ok) {
+          return plain
+            ? terminalErrorResponse(parsed.error)
+            : ctx.renderNotFound();
+        }
+        const { period, day } = parsed.params;
+        annotateRequest({ sign, period });
+        const pinned = Boolean(segments.day);
+
+        try {
+          const { reading, cacheStatus } = await getReading({
+            sign,
+            period,
+            day,
+          });
+          annotateRequest({ cacheStatus });
+          const headers = {
+            "Cache-Control": getReadingCacheControl(cacheStatus),
+            "Vary": VARY,
+            "X-Cache": cacheStatus.toUpperCase(),
+          };
+
+          if (plain) {
+            return conditionalResponse(
+              req,
+              await getReadingValidators(
+                reading,
+                cacheStatus,
+                `text:${effect}`,
+              ),
+              { "Content-Type": "text/plain; charset=utf-8", ...headers },
+              renderTerminalReading(reading, effect),
+            );
+          }
+
+          const pinnedDay = pinned ? reading.date : undefined;
+          ctx.state.seo = buildSignSeo(
+            sign,
+            period,
+            reading,
+            pinnedDay,
+            effect,
+          );
+          ctx.state.seo.feeds = getFeedLinks(sign, period);
+          return ctx.render(
+            { sign, period, reading, effect, day: pinnedDay },
+            { headers },
+          );
+        } catch (error) {
+          log.error("Sign route error", { error });
+          const apiError = toHoroscopeApiError(error);
+          annotateRequest({ errorCode: apiError.code });
+          if (plain) {
+            return terminalErrorResponse(apiError, { "Vary": VARY });
+          }
+          // Render the page anyway; the island shows the error and retries
+          ctx.state.seo = buildSignSeo(
+            sign,
+            period,
+            null,
+            pinned ? day : undefined,
+          );
+          ctx.state.seo.feeds = getFeedLinks(sign, period);
+          return ctx.render(
+            { sign, period, effect, day: pinned ? day : undefined },
+            {
+              status: apiError.status,
+              headers: { "Cache-Control": "no-store", "Vary": VARY },
+            },
+          );
+        }
+      },
+      plain ? terminalErrorResponse : rateLimitedPage,
+    );
+  },
+};
+
+export default function SignPage({ data }: PageProps<SignPageData>) {
+  return (
+    <HomeShell>
+      <HomeIsland
+        initialSign={data.sign}
+        initialPeriod={data.period}
+        initialReading={data.reading}
+        initialEffect={data.effect}
+        initialDay={data.day}
+      />
+    </HomeShell>
+  );
+}
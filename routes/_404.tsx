@@ -1,5 +1,9 @@
+import { RouteConfig } from "$fresh/server.ts";
 import { Head } from "$fresh/runtime.ts";
 
+// Fresh nonces its island scripts; routes/_middleware.ts sets the policy
+export const config: RouteConfig = { csp: true };
+
 export default function Error404() {
   return (
     <>
@@ -4,13 +4,17 @@ import { KofiModal } from "../islands/KofiModal.tsx";
 import { AboutModal } from "../islands/AboutModal.tsx";
 import InstallPrompt from "../islands/InstallPrompt.tsx";
 import { StructuredData } from "../components/StructuredData.tsx";
+import { type AppState, DEFAULT_SEO } from "../utils/seo.ts";
+import { getPublicConfig } from "../utils/config.ts";
 
-export default function App({ Component }: PageProps) {
-  // Pass env vars to client for analytics (only public keys)
-  const analyticsEnv = {
-    POSTHOG_KEY: Deno.env.get("POSTHOG_KEY"),
-    POSTHOG_HOST: Deno.env.get("POSTHOG_HOST"),
-  };
+export default function App(
+  { Component, state }: PageProps<unknown, AppState>,
+) {
+  // Routes can set their own title/description/canonical (utils/seo.ts)
+  const seo = state.seo ?? DEFAULT_SEO;
+
+  // Only the explicitly public settings reach the client (utils/config.ts)
+  const publicConfig = getPublicConfig();
 
   return (
     <html lang="en">
@@ -20,16 +24,22 @@ export default function App({ Component }: PageProps) {
           name="viewport"
           content="width=device-width, initial-scale=1.0, viewport-fit=cover"
         />
-        <title>
-          Stargram • Horoscopes That Look As Good As They Read
-        </title>
-        <meta
-          name="description"
-          content="Get your daily, weekly, or monthly horoscope styled as shareable cosmic art. Pick your sign, apply gradients, export as beautiful images."
-        />
+        <title>{seo.title}</title>
+        <meta name="description" content={seo.description} />
 
         {/* Canonical URL */}
-        <link rel="canonical" href="https://stargram.app" />
+        <link rel="canonical" href={seo.canonical} />
+
+        {/* Feed autodiscovery */}
+        {seo.feeds?.map((feed) => (
+          <link
+            key={feed.href}
+            rel="alternate"
+            type={feed.type}
+            title={feed.title}
+            href={feed.href}
+          />
+        ))}
 
         {/* PWA & iOS App Meta Tags */}
         <meta name="application-name" content="Stargram" />
@@ -46,17 +56,21 @@ export default function App({ Component }: PageProps) {
         <meta property="og:site_name" content="Stargram" />
         <meta
           property="og:title"
-          content="Stargram • Your Horoscope as Art"
+          content={state.seo?.title ?? "Stargram • Your Horoscope as Art"}
         />
         <meta
           property="og:description"
-          content="Daily horoscopes styled as shareable cosmic art. Pick your sign, apply gradients, export."
+          content={state.seo?.description ??
+            "Daily horoscopes styled as shareable cosmic art. Pick your sign, apply gradients, export."}
+        />
+        <meta
+          property="og:type"
+          content={state.seo?.horoscope ? "article" : "website"}
         />
-        <meta property="og:type" content="website" />
-        <meta property="og:url" content="https://stargram.app" />
+        <meta property="og:url" content={seo.canonical} />
         <meta
           property="og:image"
-          content="https://stargram.app/og-image.jpg"
+          content={seo.image ?? "https://stargram.app/og-image.jpg"}
         />
         <meta property="og:image:width" content="1200" />
         <meta property="og:image:height" content="630" />
@@ -69,15 +83,16 @@ export default function App({ Component }: PageProps) {
         <meta name="twitter:card" content="summary_large_image" />
         <meta
           name="twitter:title"
-          content="Stargram • Your Horoscope as Art"
+          content={state.seo?.title ?? "Stargram • Your Horoscope as Art"}
         />
         <meta
           name="twitter:description"
-          content="Daily horoscopes styled as shareable cosmic art. Pick your sign, apply gradients, export."
+          content={state.seo?.description ??
+            "Daily horoscopes styled as shareable cosmic art. Pick your sign, apply gradients, export."}
         />
         <meta
           name="twitter:image"
-          content="https://stargram.app/og-image.jpg"
+          content={seo.image ?? "https://stargram.app/og-image.jpg"}
         />
         <meta
           name="twitter:image:alt"
@@ -198,13 +213,14 @@ export default function App({ Component }: PageProps) {
         {/* Analytics env vars */}
         {/* deno-lint-ignore react-no-danger */}
         <script
+          nonce={state.nonce}
           dangerouslySetInnerHTML={{
-            __html: `window.ENV = ${JSON.stringify(analyticsEnv)};`,
+            __html: `window.ENV = ${JSON.stringify(publicConfig)};`,
           }}
         />
 
         {/* Structured Data for SEO */}
-        <StructuredData />
+        <StructuredData horoscope={seo.horoscope} nonce={state.nonce} />
       </head>
       <body>
         {/* Skip to content link for keyboard users */}
@@ -268,6 +284,7 @@ export default function App({ Component }: PageProps) {
         {/* Service Worker Registration */}
         {/* deno-lint-ignore react-no-danger */}
         <script
+          nonce={state.nonce}
           dangerouslySetInnerHTML={{
             __html: `
               if ('serviceWorker' in navigator) {
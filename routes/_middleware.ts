@@ -0,0 +1,120 @@
+// ===================================================================
+// ROOT MIDDLEWARE - Request IDs, request logs, metrics, security headers
+// ===================================================================
+// Every page and API request gets an ID (the caller's X-Request-Id if
+// it looks sane, otherwise a fresh UUID), echoed back in X-Request-Id.
+// When it's done we write one JSON summary line (utils/log.ts) and
+// count it in the HTTP metrics (utils/metrics.ts). Static files skip
+// all of this.
+//
+// Then every response, static files included, gets the security
+// headers, and HTML gets a CSP keyed to the nonce we leave in
+// ctx.state.nonce for inline scripts (utils/security.ts).
+
+import { FreshContext } from "$fresh/server.ts";
+import {
+  log,
+  type RequestContext,
+  runWithRequestContext,
+} from "../utils/log.ts";
+import { getMethodLabel, getRouteLabel, metrics } from "../utils/metrics.ts";
+import { applySecurityHeaders, createNonce } from "../utils/security.ts";
+import { getConfig } from "../utils/config.ts";
+import type { AppState } from "../utils/seo.ts";
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// API errors carry their code in the body (errorResponse); read it
+// back for the log rather than making errors.ts, which islands import,
+// depend on the server-only log module
+async function getErrorCode(response: Response): Promise<string | undefined> {
+  if (
+    response.status < 400 ||
+    !response.headers.get("content-type")?.startsWith("application/json")
+  ) {
+    return undefined;
+  }
+  try {
+    const body = await response.clone().json();
+    return typeof body?.code === "string" ? body.code : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function getOutcome(status: number, errorCode?: string): string {
+  if (errorCode) return errorCode;
+  if (status === 304) return "not_modified";
+  if (status < 400) return "ok";
+  return status === 404 ? "not_found" : "error";
+}
+
+async function observeRequest(
+  req: Request,
+  ctx: FreshContext,
+): Promise<Response> {
+  if (ctx.destination === "static" || ctx.destination === "internal") {
+    return ctx.next();
+  }
+
+  const incoming = req.headers.get("x-request-id");
+  const url = new URL(req.url);
+  const context: RequestContext = {
+    requestId: incoming && REQUEST_ID_PATTERN.test(incoming)
+      ? incoming
+      : crypto.randomUUID(),
+    route: getRouteLabel(url.pathname),
+  };
+  const started = performance.now();
+
+  let response: Response;
+  try {
+    response = await runWithRequestContext(context, () => ctx.next());
+  } catch (error) {
+    // Fresh renders its own 500 page from here
+    runWithRequestContext(
+      context,
+      () => log.error("Unhandled request error", { error }),
+    );
+    throw error;
+  }
+
+  const durationMs = Math.round(performance.now() - started);
+  const { requestId, route, errorCode: annotated, ...fields } = context;
+  const errorCode = annotated ?? await getErrorCode(response);
+  const outcome = getOutcome(response.status, errorCode);
+  (response.status >= 500 ? log.error : log.info)("request", {
+    requestId,
+    route,
+    method: req.method,
+    path: url.pathname,
+    status: response.status,
+    durationMs,
+    ...fields,
+    ...(fields.upstreamMs !== undefined &&
+      { upstreamMs: Math.round(fields.upstreamMs) }),
+    outcome,
+  });
+  metrics.httpRequests.inc({
+    route,
+    method: getMethodLabel(req.method),
+    status: String(response.status),
+  });
+  metrics.httpDuration.observe({ route }, durationMs / 1000);
+
+  response.headers.set("X-Request-Id", requestId);
+  return response;
+}
+
+async function secureResponse(
+  req: Request,
+  ctx: FreshContext<AppState>,
+): Promise<Response> {
+  const nonce = createNonce();
+  ctx.state.nonce = nonce;
+  const response = await ctx.next();
+  applySecurityHeaders(req, response, getConfig(), nonce);
+  return response;
+}
+
+export const handler = [observeRequest, secureResponse];
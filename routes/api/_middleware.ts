@@ -0,0 +1,141 @@
+// ===================================================================
+// API MIDDLEWARE - API keys, rate limiting and CORS for /api routes
+// ===================================================================
+// Requests with an X-Api-Key header are checked against the key's
+// allowed origins and daily quota (see utils/apiKeys.ts). Everything
+// else is anonymous: every /api request with a matching rule (see
+// utils/rateLimit.ts) takes a token from the caller's bucket. Out of
+// tokens → 429 with Retry-After. Responses carry X-RateLimit-* headers
+// either way.
+//
+// Keys are optional for our own pages and for the <stargram-horoscope>
+// element. From another site, a call without a key may only read a
+// single reading (ANONYMOUS_CROSS_ORIGIN, what the element needs), and
+// those share one small "cross-origin" bucket per calling site (about
+// 1,500 a day, see utils/rateLimit.ts), so dropping the key doesn't get
+// a partner past their quota. Anything more takes a key.
+//
+// Keyed responses name the calling origin instead of *. Preflights are
+// answered here, rate limited per IP; ones asking for X-Api-Key only
+// for origins some key allows.
+
+import { FreshContext } from "$fresh/server.ts";
+import {
+  getRateLimitRules,
+  matchRateLimitRule,
+  PREFLIGHT_RULE,
+  withRateLimit,
+} from "../../utils/rateLimit.ts";
+import {
+  errorResponse,
+  HoroscopeApiError,
+} from "../../utils/horoscope/errors.ts";
+import {
+  API_KEY_HEADER,
+  isOriginAllowedByAnyKey,
+  withApiKey,
+} from "../../utils/apiKeys.ts";
+
+const EXPOSED_HEADERS =
+  "ETag, Retry-After, X-Cache, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset";
+const ANONYMOUS_HEADERS = "X-Timezone, If-None-Match, If-Modified-Since";
+const KEYED_HEADERS = `${API_KEY_HEADER}, ${ANONYMOUS_HEADERS}`;
+
+// What other sites may call without a key
+const ANONYMOUS_CROSS_ORIGIN = ["/api/horoscope"];
+
+function withCors(req: Request, res: Response, keyed: boolean): Response {
+  const origin = req.headers.get("origin");
+  if (keyed && origin) {
+    res.headers.set("Access-Control-Allow-Origin", origin);
+    res.headers.append("Vary", "Origin");
+  } else {
+    res.headers.set("Access-Control-Allow-Origin", "*");
+  }
+  res.headers.set("Access-Control-Expose-Headers", EXPOSED_HEADERS);
+  return res;
+}
+
+/**
+ * Answer a CORS preflight. The key itself isn't sent with preflights,
+ * so keyed ones only need an origin some key allows; the request's own
+ * key is checked on the actual request. Anonymous ones only for what
+ * other sites may call without a key. Anything else gets no CORS
+ * headers and the browser stops there.
+ */
+async function preflightResponse(req: Request): Promise<Response> {
+  const origin = req.headers.get("origin");
+  const keyed = (req.headers.get("access-control-request-headers") ?? "")
+    .toLowerCase().split(",").map((name) => name.trim())
+    .includes(API_KEY_HEADER.toLowerCase());
+  const allowed = keyed
+    ? Boolean(origin) && await isOriginAllowedByAnyKey(origin!)
+    : ANONYMOUS_CROSS_ORIGIN.includes(new URL(req.url).pathname);
+  if (!allowed) {
+    return new Response(null, { status: 204, headers: { "Vary": "Origin" } });
+  }
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": keyed ? origin! : "*",
+      "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
+      "Access-Control-Allow-Headers": keyed ? KEYED_HEADERS : ANONYMOUS_HEADERS,
+      "Access-Control-Max-Age": "86400",
+      "Vary": "Origin, Access-Control-Request-Headers",
+    },
+  });
+}
+
+export async function handler(
+  req: Request,
+  ctx: FreshContext,
+): Promise<Response> {
+  if (
+    req.method === "OPTIONS" &&
+    req.headers.has("access-control-request-method")
+  ) {
+    return withRateLimit(
+      req,
+      ctx.remoteAddr,
+      { route: PREFLIGHT_RULE, rule: getRateLimitRules()[PREFLIGHT_RULE] },
+      () => preflightResponse(req),
+    );
+  }
+
+  const url = new URL(req.url);
+  const pathname = url.pathname;
+  const match = matchRateLimitRule(pathname);
+  const origin = req.headers.get("origin");
+  const perIp = () =>
+    match
+      ? withRateLimit(req, ctx.remoteAddr, match, () => ctx.next())
+      : ctx.next();
+  const anonymous = async () => {
+    if (!origin || origin === url.origin) return await perIp();
+    if (!ANONYMOUS_CROSS_ORIGIN.includes(pathname)) {
+      return errorResponse(
+        new HoroscopeApiError(
+          "origin_not_allowed",
+          "Calling this endpoint from another site takes an API key",
+        ),
+      );
+    }
+    return await withRateLimit(req, ctx.remoteAddr, {
+      route: "cross-origin",
+      rule: getRateLimitRules()["cross-origin"],
+      bucket: origin,
+    }, perIp);
+  };
+
+  const key = req.headers.get(API_KEY_HEADER);
+  if (!key) return withCors(req, await anonymous(), false);
+
+  const response = await withApiKey(
+    req,
+    key,
+    match?.route ?? pathname,
+    () => ctx.next(),
+    anonymous,
+  );
+  return withCors(req, response, true);
+}
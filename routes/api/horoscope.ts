@@ -1,55 +1,36 @@
 // ===================================================================
-// HOROSCOPE API - Proxy to horoscope API with timezone handling
+// HOROSCOPE API - Proxy to horoscope providers with timezone handling
 // ===================================================================
-// Fetches daily/weekly/monthly horoscopes from external API
-// Handles timezone conversion for Melbourne (15-16hrs ahead of US)
+// Fetches daily/weekly/monthly horoscopes from the configured provider
+// Readings are cached server-side (see utils/horoscope/cache.ts)
+//
+// "Today" is the caller's today: the client sends its IANA timezone
+// (?tz= or X-Timezone header) and we resolve an explicit YYYY-MM-DD
+// before asking the provider, so nobody gets another zone's reading.
+//
+// Responses carry an ETag and Last-Modified; conditional GETs get a 304
+// (utils/conditional.ts). Failures come back with an error code (see
+// utils/horoscope/errors.ts)
 
 import { FreshContext } from "$fresh/server.ts";
-
-const HOROSCOPE_API_BASE =
-  "https://horoscope-app-api.vercel.app/api/v1/get-horoscope";
-
-// Zodiac signs (validated)
-const VALID_SIGNS = [
-  "aries",
-  "taurus",
-  "gemini",
-  "cancer",
-  "leo",
-  "virgo",
-  "libra",
-  "scorpio",
-  "sagittarius",
-  "capricorn",
-  "aquarius",
-  "pisces",
-];
-
-interface HoroscopeParams {
-  sign: string;
-  period: "daily" | "weekly" | "monthly";
-  day?: string; // For daily only: "today" | "tomorrow" | "yesterday" | "YYYY-MM-DD"
-}
-
-/**
- * Determine correct day parameter for API based on Melbourne timezone
- * Melbourne is 15-16 hours ahead of US (where API is hosted)
- *
- * Logic:
- * - Before 6pm Melbourne → Use "tomorrow" (Melbourne is ahead)
- * - After 6pm Melbourne → Use "today" (calendars sync up)
- */
-function getDayParamForTimezone(): string {
-  const hour = new Date().getHours();
-
-  if (hour >= 0 && hour < 18) {
-    // Morning/afternoon Melbourne = ahead of US, use "tomorrow"
-    return "tomorrow";
-  } else {
-    // Evening Melbourne = same calendar day as US, use "today"
-    return "today";
-  }
-}
+import { isValidSign, VALID_SIGNS } from "../../utils/horoscope/types.ts";
+import type { HoroscopeApiResponse } from "../../utils/horoscope/reading.ts";
+import {
+  getReading,
+  getReadingCacheControl,
+  getUpstreamCircuitState,
+} from "../../utils/horoscope/service.ts";
+import { parseReadingParams } from "../../utils/horoscope/params.ts";
+import {
+  errorResponse,
+  HoroscopeApiError,
+  toHoroscopeApiError,
+} from "../../utils/horoscope/errors.ts";
+import {
+  conditionalResponse,
+  getReadingValidators,
+} from "../../utils/conditional.ts";
+import { annotateRequest, log } from "../../utils/log.ts";
 
 export const handler = async (
   req: Request,
@@ -57,82 +38,45 @@ export const handler = async (
 ): Promise<Response> => {
   const url = new URL(req.url);
   const sign = url.searchParams.get("sign")?.toLowerCase();
-  const period =
-    url.searchParams.get("period") as "daily" | "weekly" | "monthly" || "daily";
-  const customDay = url.searchParams.get("day"); // Optional override
 
   // Validate sign
-  if (!sign || !VALID_SIGNS.includes(sign)) {
-    return new Response(
-      JSON.stringify({
-        error: "Invalid zodiac sign",
-        validSigns: VALID_SIGNS,
+  if (!sign || !isValidSign(sign)) {
+    return errorResponse(
+      new HoroscopeApiError("invalid_sign", "Invalid zodiac sign", {
+        details: { validSigns: VALID_SIGNS },
       }),
-      {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      },
     );
   }
 
-  // Build API URL based on period
-  let apiUrl = "";
-  const params = new URLSearchParams({ sign });
-
-  if (period === "daily") {
-    // Use custom day or auto-detect timezone
-    const day = customDay || getDayParamForTimezone();
-    params.append("day", day);
-    apiUrl = `${HOROSCOPE_API_BASE}/daily?${params}`;
-  } else if (period === "weekly") {
-    apiUrl = `${HOROSCOPE_API_BASE}/weekly?${params}`;
-  } else if (period === "monthly") {
-    apiUrl = `${HOROSCOPE_API_BASE}/monthly?${params}`;
-  } else {
-    return new Response(
-      JSON.stringify({
-        error: "Invalid period. Must be: daily, weekly, or monthly",
-      }),
-      {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      },
-    );
-  }
+  // Validate period, day and timezone
+  const parsed = parseReadingParams(req);
+  if (!parsed.ok) return errorResponse(parsed.error);
+  const { period, day } = parsed.params;
+  annotateRequest({ sign, period });
 
   try {
-    // Fetch from horoscope API
-    const response = await fetch(apiUrl);
-
-    if (!response.ok) {
-      throw new Error(`API returned ${response.status}`);
-    }
+    const { reading, cacheStatus } = await getReading({ sign, period, day });
+    annotateRequest({ cacheStatus });
+    const body: HoroscopeApiResponse = { success: true, data: reading };
 
-    const data = await response.json();
-
-    // Return the horoscope data
-    return new Response(
-      JSON.stringify(data),
+    // Return the normalized reading, or 304 if the caller has it already
+    return conditionalResponse(
+      req,
+      await getReadingValidators(reading, cacheStatus, "json"),
       {
-        status: 200,
-        headers: {
-          "Content-Type": "application/json",
-          "Cache-Control": "public, max-age=3600", // Cache for 1 hour
-        },
+        "Content-Type": "application/json",
+        "Cache-Control": getReadingCacheControl(cacheStatus),
+        "Vary": "X-Timezone",
+        "X-Cache": cacheStatus.toUpperCase(),
+        "X-Upstream-Circuit": getUpstreamCircuitState() ?? "none",
       },
+      JSON.stringify(body),
     );
   } catch (error) {
-    console.error("Horoscope API error:", error);
+    log.error("Horoscope API error", { error });
 
-    return new Response(
-      JSON.stringify({
-        error: "Failed to fetch horoscope",
-        message: error instanceof Error ? error.message : "Unknown error",
-      }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      },
-    );
+    return errorResponse(toHoroscopeApiError(error), {
+      "X-Upstream-Circuit": getUpstreamCircuitState() ?? "none",
+    });
   }
 };
@@ -0,0 +1,69 @@
+// ===================================================================
+// BULK HOROSCOPE API - Readings for all twelve signs in one call
+// ===================================================================
+// GET /api/horoscope/all?period=daily&day=today&tz=Australia/Melbourne
+// Same period/day/tz params as /api/horoscope. Signs that fail come
+// back as error entries; the response only fails if every sign did.
+
+import { FreshContext } from "$fresh/server.ts";
+import type { HoroscopeBulkApiResponse } from "../../../utils/horoscope/reading.ts";
+import {
+  getReadingCacheControl,
+  getReadingsForAllSigns,
+  getUpstreamCircuitState,
+  isProvisional,
+} from "../../../utils/horoscope/service.ts";
+import { parseReadingParams } from "../../../utils/horoscope/params.ts";
+import {
+  ERROR_STATUS,
+  errorResponse,
+  type HoroscopeErrorCode,
+} from "../../../utils/horoscope/errors.ts";
+
+/**
+ * Status when every sign failed: theirs if they agree (404 when nothing
+ * was archived for the day), 502 otherwise
+ */
+function failureStatus(failures: { code: HoroscopeErrorCode }[]): number {
+  const codes = new Set(failures.map((failure) => failure.code));
+  return codes.size === 1 ? ERROR_STATUS[[...codes][0]] : 502;
+}
+
+export const handler = async (
+  req: Request,
+  _ctx: FreshContext,
+): Promise<Response> => {
+  // Validate period, day and timezone
+  const parsed = parseReadingParams(req);
+  if (!parsed.ok) return errorResponse(parsed.error);
+  const { period, day } = parsed.params;
+
+  const results = await getReadingsForAllSigns(period, day);
+  const failures = results.flatMap(({ entry }) => entry.ok ? [] : [entry]);
+  const body: HoroscopeBulkApiResponse = {
+    success: failures.length < results.length,
+    period,
+    day,
+    results: results.map(({ entry }) => entry),
+  };
+  // Don't let a partial or stand-in board stick around in caches for long
+  const provisional = failures.length > 0 ||
+    results.some(({ cacheStatus }) =>
+      cacheStatus !== undefined && isProvisional(cacheStatus)
+    );
+
+  return new Response(
+    JSON.stringify(body),
+    {
+      status: body.success ? 200 : failureStatus(failures),
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": body.success
+          ? getReadingCacheControl(provisional ? "fallback" : "hit")
+          : "no-store",
+        "Vary": "X-Timezone",
+        "X-Upstream-Circuit": getUpstreamCircuitState() ?? "none",
+      },
+    },
+  );
+};
@@ -0,0 +1,128 @@
+// ===================================================================
+// ARCHIVE API - Browse past readings for a sign
+// ===================================================================
+// GET /api/horoscope/archive?sign=leo&period=daily
+//   → { success, sign, period, dates: ["2026-10-19", ...] } newest first
+// GET /api/horoscope/archive?sign=leo&period=weekly&date=2026-10-12
+//   → { success, data: reading } or a not_archived error
+//
+// Dates are the first day of the period, same as reading.date.
+// ?limit= caps the listing (default 60, max 366).
+
+import { FreshContext } from "$fresh/server.ts";
+import {
+  HOROSCOPE_PERIODS,
+  isHoroscopePeriod,
+  isValidSign,
+  VALID_SIGNS,
+} from "../../../utils/horoscope/types.ts";
+import type {
+  HoroscopeApiResponse,
+  HoroscopeArchiveApiResponse,
+} from "../../../utils/horoscope/reading.ts";
+import {
+  ARCHIVE_DEFAULT_LIMIT,
+  ARCHIVE_MAX_LIMIT,
+  getReadingArchive,
+} from "../../../utils/horoscope/archive.ts";
+import { parseIsoDate } from "../../../utils/horoscope/dates.ts";
+import {
+  errorResponse,
+  HoroscopeApiError,
+  toHoroscopeApiError,
+} from "../../../utils/horoscope/errors.ts";
+import {
+  conditionalResponse,
+  getReadingValidators,
+} from "../../../utils/conditional.ts";
+import { log } from "../../../utils/log.ts";
+
+export const handler = async (
+  req: Request,
+  _ctx: FreshContext,
+): Promise<Response> => {
+  const url = new URL(req.url);
+  const sign = url.searchParams.get("sign")?.toLowerCase();
+  const period = url.searchParams.get("period") || "daily";
+  const date = url.searchParams.get("date");
+  const limit = Number(url.searchParams.get("limit") ?? ARCHIVE_DEFAULT_LIMIT);
+
+  // Validate sign, period and date
+  if (!sign || !isValidSign(sign)) {
+    return errorResponse(
+      new HoroscopeApiError("invalid_sign", "Invalid zodiac sign", {
+        details: { validSigns: VALID_SIGNS },
+      }),
+    );
+  }
+  if (!isHoroscopePeriod(period)) {
+    return errorResponse(
+      new HoroscopeApiError(
+        "invalid_period",
+        `Invalid period. Must be: ${HOROSCOPE_PERIODS.join(", ")}`,
+      ),
+    );
+  }
+  if (date && !parseIsoDate(date)) {
+    return errorResponse(
+      new HoroscopeApiError("invalid_day", "Invalid date. Must be YYYY-MM-DD"),
+    );
+  }
+
+  try {
+    const archive = await getReadingArchive();
+
+    if (date) {
+      const reading = await archive.get(sign, period, date);
+      if (!reading) {
+        return errorResponse(
+          new HoroscopeApiError(
+            "not_archived",
+            `No ${period} reading archived for ${sign} on ${date}`,
+            { details: { sign, period, date } },
+          ),
+        );
+      }
+      const body: HoroscopeApiResponse = { success: true, data: reading };
+      return conditionalResponse(
+        req,
+        // Same tag as /api/horoscope serves for this reading
+        await getReadingValidators(reading, "archive", "json"),
+        {
+          "Content-Type": "application/json",
+          // Archived readings never change
+          "Cache-Control": "public, max-age=86400",
+        },
+        JSON.stringify(body),
+      );
+    }
+
+    const dates = await archive.listDates(
+      sign,
+      period,
+      Number.isInteger(limit) && limit > 0
+        ? Math.min(limit, ARCHIVE_MAX_LIMIT)
+        : ARCHIVE_DEFAULT_LIMIT,
+    );
+    const body: HoroscopeArchiveApiResponse = {
+      success: true,
+      sign,
+      period,
+      dates,
+    };
+    return new Response(
+      JSON.stringify(body),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          // New dates land every day
+          "Cache-Control": "public, max-age=300",
+        },
+      },
+    );
+  } catch (error) {
+    log.error("Horoscope archive error", { sign, period, date, error });
+    return errorResponse(toHoroscopeApiError(error));
+  }
+};
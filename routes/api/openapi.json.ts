@@ -0,0 +1,22 @@
+// ===================================================================
+// OPENAPI ROUTE - Machine-readable description of the API
+// ===================================================================
+// GET /api/openapi.json (OpenAPI 3.1, see utils/horoscope/openapi.ts)
+
+import { FreshContext } from "$fresh/server.ts";
+import { buildOpenApiDocument } from "../../utils/horoscope/openapi.ts";
+
+// Only changes with a deploy
+const body = JSON.stringify(buildOpenApiDocument(), null, 2);
+
+export const handler = (
+  _req: Request,
+  _ctx: FreshContext,
+): Response => {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+};
@@ -0,0 +1,81 @@
+// ===================================================================
+// PREWARM API - Run the cache prewarm by hand
+// ===================================================================
+// POST /api/prewarm                      today (UTC), all periods
+// POST /api/prewarm?date=2026-10-20&period=daily
+//   with X-Prewarm-Token: $PREWARM_TOKEN
+//
+// Same job the hourly cron runs (utils/horoscope/prewarm.ts), for one
+// date. Responds with what happened to each sign; success only when
+// every one was warmed (a stand-in counts as provisional). Not part of the
+// public API: without PREWARM_TOKEN set it's a 404.
+
+import { Handlers } from "$fresh/server.ts";
+import {
+  HOROSCOPE_PERIODS,
+  isHoroscopePeriod,
+} from "../../utils/horoscope/types.ts";
+import { parseIsoDate, toIsoDate } from "../../utils/horoscope/dates.ts";
+import {
+  errorResponse,
+  HoroscopeApiError,
+} from "../../utils/horoscope/errors.ts";
+import {
+  prewarmReadings,
+  summarizePrewarm,
+} from "../../utils/horoscope/prewarm.ts";
+import { getConfig } from "../../utils/config.ts";
+
+export const handler: Handlers = {
+  async POST(req, ctx) {
+    const token = getConfig().secrets.prewarmToken;
+    if (!token) return ctx.renderNotFound();
+    if (req.headers.get("x-prewarm-token") !== token) {
+      return errorResponse(
+        new HoroscopeApiError("invalid_api_key", "Wrong X-Prewarm-Token"),
+      );
+    }
+
+    const url = new URL(req.url);
+    const date = url.searchParams.get("date") ?? toIsoDate(new Date());
+    if (!parseIsoDate(date)) {
+      return errorResponse(
+        new HoroscopeApiError(
+          "invalid_day",
+          "Invalid date. Must be YYYY-MM-DD",
+        ),
+      );
+    }
+    const period = url.searchParams.get("period");
+    if (period && !isHoroscopePeriod(period)) {
+      return errorResponse(
+        new HoroscopeApiError(
+          "invalid_period",
+          `Invalid period. Must be: ${HOROSCOPE_PERIODS.join(", ")}`,
+        ),
+      );
+    }
+
+    const results = await prewarmReadings(
+      date,
+      period ? [period] : HOROSCOPE_PERIODS,
+    );
+    const { ok, provisional, failed } = summarizePrewarm(results);
+    return new Response(
+      JSON.stringify({
+        success: ok === results.length,
+        date,
+        provisional,
+        failed,
+        results,
+      }),
+      {
+        status: ok === 0 ? 502 : 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      },
+    );
+  },
+};
@@ -0,0 +1,88 @@
+// ===================================================================
+// CALENDAR ROUTE - /calendar/leo.ics
+// ===================================================================
+// Subscribable iCalendar feed of daily readings (utils/calendar.ts).
+//   ?tz=Europe/Berlin   subscriber's zone, picks "today" (default UTC)
+//   ?seasons=sign|all   add sign season start dates (default none)
+//   ?days=30            how many recent readings (max 90)
+// Conditional GET like the feeds, since calendar clients poll.
+
+import { FreshContext } from "$fresh/server.ts";
+import { isValidSign } from "../../utils/horoscope/types.ts";
+import { getLocalDate, toIsoDate } from "../../utils/horoscope/dates.ts";
+import { resolveReadingParams } from "../../utils/horoscope/params.ts";
+import {
+  errorResponse,
+  toHoroscopeApiError,
+} from "../../utils/horoscope/errors.ts";
+import { buildFeed } from "../../utils/feeds.ts";
+import { computeEtag, conditionalResponse } from "../../utils/conditional.ts";
+import {
+  CALENDAR_CONTENT_TYPE,
+  DEFAULT_CALENDAR_DAYS,
+  isSeasonOption,
+  MAX_CALENDAR_DAYS,
+  renderCalendar,
+} from "../../utils/calendar.ts";
+import {
+  getRateLimitRules,
+  rateLimitedText,
+  withRateLimit,
+} from "../../utils/rateLimit.ts";
+import { log } from "../../utils/log.ts";
+
+export const handler = (
+  req: Request,
+  ctx: FreshContext,
+): Promise<Response> | Response => {
+  const [sign, extension, ...rest] = ctx.params.sign.toLowerCase().split(".");
+  if (!isValidSign(sign) || extension !== "ics" || rest.length > 0) {
+    return ctx.renderNotFound();
+  }
+
+  return withRateLimit(
+    req,
+    ctx.remoteAddr,
+    { route: "/calendar", rule: getRateLimitRules()["/calendar"] },
+    async () => {
+      const url = new URL(req.url);
+      const parsed = resolveReadingParams({
+        timeZone: url.searchParams.get("tz"),
+      });
+      if (!parsed.ok) return errorResponse(parsed.error);
+      const { timeZone } = parsed.params;
+
+      const seasonsParam = url.searchParams.get("seasons") ?? "";
+      const seasons = isSeasonOption(seasonsParam) ? seasonsParam : "none";
+      const days = Number(
+        url.searchParams.get("days") ?? DEFAULT_CALENDAR_DAYS,
+      );
+
+      try {
+        const feed = await buildFeed(
+          sign,
+          "daily",
+          Number.isInteger(days) && days > 0
+            ? Math.min(days, MAX_CALENDAR_DAYS)
+            : DEFAULT_CALENDAR_DAYS,
+          toIsoDate(getLocalDate(timeZone)),
+        );
+        const body = renderCalendar(feed, { timeZone, seasons });
+        return conditionalResponse(
+          req,
+          { etag: await computeEtag(body), lastModified: feed.updated },
+          {
+            "Content-Type": CALENDAR_CONTENT_TYPE,
+            "Content-Disposition": `inline; filename="${sign}.ics"`,
+            "Cache-Control": "public, max-age=1800",
+          },
+          body,
+        );
+      } catch (error) {
+        log.error("Calendar error", { sign, error });
+        return errorResponse(toHoroscopeApiError(error));
+      }
+    },
+    rateLimitedText,
+  );
+};
@@ -0,0 +1,166 @@
+// ===================================================================
+// EMBED ROUTE - /embed/leo?period=weekly&effect=fire&theme=midnight
+// ===================================================================
+// Compact terminal card for iframes (utils/embed.ts). Skips _app, so
+// no modals, analytics or service worker inside someone else's page.
+// The card posts its height to the parent so the iframe can size
+// itself:
+//   window.addEventListener("message", (e) => {
+//     if (e.data?.type === "stargram:resize") iframe.style.height = `${e.data.height}px`;
+//   });
+
+// deno-lint-ignore-file react-no-danger
+
+import { Handlers, PageProps, RouteConfig } from "$fresh/server.ts";
+import { Head } from "$fresh/runtime.ts";
+import { isValidSign } from "../../utils/horoscope/types.ts";
+import type { HoroscopeReading } from "../../utils/horoscope/reading.ts";
+import { resolveReadingParams } from "../../utils/horoscope/params.ts";
+import {
+  getReading,
+  getReadingCacheControl,
+} from "../../utils/horoscope/service.ts";
+import { toHoroscopeApiError } from "../../utils/horoscope/errors.ts";
+import { describeHoroscopeError } from "../../utils/horoscope/errorCopy.ts";
+import { renderReadingArt } from "../../utils/horoscope/art.ts";
+import { getTerminalEffect } from "../../utils/horoscope/terminal.ts";
+import { type AppState, getSignPath, SITE_URL } from "../../utils/seo.ts";
+import {
+  EMBED_RESIZE_MESSAGE,
+  getEmbedCss,
+  getEmbedTheme,
+  renderEmbedHtml,
+  renderEmbedMessage,
+} from "../../utils/embed.ts";
+import {
+  getRateLimitRules,
+  rateLimitedPage,
+  withRateLimit,
+} from "../../utils/rateLimit.ts";
+import { annotateRequest, log } from "../../utils/log.ts";
+
+export const config: RouteConfig = {
+  skipAppWrapper: true,
+  skipInheritedLayouts: true,
+};
+
+interface EmbedData {
+  sign: string;
+  reading?: HoroscopeReading;
+  effect: string;
+  theme: string;
+  error?: string;
+}
+
+// Reports the card height to the embedding page whenever it changes
+const RESIZE_SCRIPT = `
+(() => {
+  const post = () => parent.postMessage({
+    type: ${JSON.stringify(EMBED_RESIZE_MESSAGE)},
+    height: document.documentElement.scrollHeight,
+  }, "*");
+  new ResizeObserver(post).observe(document.body);
+  addEventListener("load", post);
+})();
+`;
+
+export const handler: Handlers<EmbedData> = {
+  GET(req, ctx) {
+    const sign = ctx.params.sign.toLowerCase();
+    if (!isValidSign(sign)) return ctx.renderNotFound();
+
+    const url = new URL(req.url);
+    const effect = getTerminalEffect(url.searchParams.get("effect"));
+    const theme = getEmbedTheme(url.searchParams.get("theme")).name;
+
+    return withRateLimit(
+      req,
+      ctx.remoteAddr,
+      { route: "/embed", rule: getRateLimitRules()["/embed"] },
+      async () => {
+        const parsed = resolveReadingParams({
+          period: url.searchParams.get("period"),
+          day: url.searchParams.get("day"),
+          timeZone: url.searchParams.get("tz") ||
+            req.headers.get("x-timezone"),
+        });
+        if (!parsed.ok) {
+          return ctx.render(
+            { sign, effect, theme, error: parsed.error.message },
+            { status: parsed.error.status },
+          );
+        }
+        const { period, day } = parsed.params;
+        annotateRequest({ sign, period });
+
+        try {
+          const { reading, cacheStatus } = await getReading({
+            sign,
+            period,
+            day,
+          });
+          annotateRequest({ cacheStatus });
+          return ctx.render({ sign, reading, effect, theme }, {
+            headers: {
+              "Cache-Control": getReadingCacheControl(cacheStatus),
+              "X-Cache": cacheStatus.toUpperCase(),
+            },
+          });
+        } catch (error) {
+          log.error("Embed route error", { error });
+          const apiError = toHoroscopeApiError(error);
+          annotateRequest({ errorCode: apiError.code });
+          return ctx.render(
+            {
+              sign,
+              effect,
+              theme,
+              error: describeHoroscopeError(apiError.code).message,
+            },
+            {
+              status: apiError.status,
+              headers: { "Cache-Control": "no-store" },
+            },
+          );
+        }
+      },
+      rateLimitedPage,
+    );
+  },
+};
+
+export default function EmbedPage(
+  { data, state }: PageProps<EmbedData, AppState>,
+) {
+  const { sign, reading, effect, error } = data;
+  const theme = getEmbedTheme(data.theme);
+  const html = reading
+    ? renderEmbedHtml(
+      reading,
+      renderReadingArt(sign, reading, effect),
+      `${SITE_URL}${getSignPath(sign, reading.period, reading.date)}`,
+    )
+    : renderEmbedMessage(error ?? "✖ No reading");
+
+  return (
+    <>
+      <Head>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="robots" content="noindex" />
+        <title>{`${sign} horoscope • Stargram`}</title>
+        <style
+          dangerouslySetInnerHTML={{
+            __html: `html, body { margin: 0; background: transparent; }${
+              getEmbedCss(theme)
+            }`,
+          }}
+        />
+      </Head>
+      <div dangerouslySetInnerHTML={{ __html: html }} />
+      <script
+        nonce={state.nonce}
+        dangerouslySetInnerHTML={{ __html: RESIZE_SCRIPT }}
+      />
+    </>
+  );
+}
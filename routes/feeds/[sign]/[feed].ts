@@ -0,0 +1,71 @@
+// ===================================================================
+// FEED ROUTE - /feeds/leo/daily.rss, /feeds/leo/weekly.atom ...
+// ===================================================================
+// RSS 2.0 (.rss), Atom (.atom) or JSON Feed 1.1 (.json) for any sign
+// and period (utils/feeds.ts). Feed readers poll, so responses carry
+// an ETag and Last-Modified and answer conditional GETs with a 304.
+
+import { FreshContext } from "$fresh/server.ts";
+import {
+  isHoroscopePeriod,
+  isValidSign,
+} from "../../../utils/horoscope/types.ts";
+import {
+  errorResponse,
+  toHoroscopeApiError,
+} from "../../../utils/horoscope/errors.ts";
+import {
+  buildFeed,
+  FEED_FORMATS,
+  isFeedFormat,
+  renderFeed,
+} from "../../../utils/feeds.ts";
+import {
+  computeEtag,
+  conditionalResponse,
+} from "../../../utils/conditional.ts";
+import {
+  getRateLimitRules,
+  rateLimitedText,
+  withRateLimit,
+} from "../../../utils/rateLimit.ts";
+import { log } from "../../../utils/log.ts";
+
+export const handler = (
+  req: Request,
+  ctx: FreshContext,
+): Promise<Response> | Response => {
+  const sign = ctx.params.sign.toLowerCase();
+  const [period, format, ...rest] = ctx.params.feed.toLowerCase().split(".");
+  if (
+    !isValidSign(sign) || !isHoroscopePeriod(period) ||
+    !format || !isFeedFormat(format) || rest.length > 0
+  ) {
+    return ctx.renderNotFound();
+  }
+
+  return withRateLimit(
+    req,
+    ctx.remoteAddr,
+    { route: "/feeds", rule: getRateLimitRules()["/feeds"] },
+    async () => {
+      try {
+        const feed = await buildFeed(sign, period);
+        const body = renderFeed(feed, format);
+        return conditionalResponse(
+          req,
+          { etag: await computeEtag(body), lastModified: feed.updated },
+          {
+            "Content-Type": FEED_FORMATS[format],
+            "Cache-Control": "public, max-age=1800",
+          },
+          body,
+        );
+      } catch (error) {
+        log.error("Feed error", { sign, period, format, error });
+        return errorResponse(toHoroscopeApiError(error));
+      }
+    },
+    rateLimitedText,
+  );
+};
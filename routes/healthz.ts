@@ -0,0 +1,63 @@
+// ===================================================================
+// HEALTHZ ROUTE - Readiness check
+// ===================================================================
+// GET /healthz → 200 when we can serve readings, 503 when we can't.
+//   kv        ok | memory (no KV, in-memory fallback) | error
+//   upstream  circuit state of the provider (closed, half-open, open)
+// An open circuit is "degraded", not down: cached and archived
+// readings still go out. A KV that opened but stopped answering is down.
+
+import { FreshContext } from "$fresh/server.ts";
+import { getKv } from "../utils/kv.ts";
+import { getHoroscopeProvider } from "../utils/horoscope/providers/mod.ts";
+import { log } from "../utils/log.ts";
+
+const KV_TIMEOUT_MS = 2000;
+
+async function checkKv(): Promise<"ok" | "memory" | "error"> {
+  try {
+    const kv = await getKv();
+    if (!kv) return "memory";
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`KV read took over ${KV_TIMEOUT_MS}ms`)),
+        KV_TIMEOUT_MS,
+      );
+    });
+    await Promise.race([kv.get(["healthz"]), timeout])
+      .finally(() => clearTimeout(timer));
+    return "ok";
+  } catch (error) {
+    log.error("Health check: KV unavailable", { error });
+    return "error";
+  }
+}
+
+export const handler = async (
+  _req: Request,
+  _ctx: FreshContext,
+): Promise<Response> => {
+  const provider = getHoroscopeProvider();
+  const kv = await checkKv();
+  const upstream = provider.circuitState?.() ?? "closed";
+  const status = kv === "error"
+    ? "unavailable"
+    : upstream === "open"
+    ? "degraded"
+    : "ok";
+
+  return new Response(
+    JSON.stringify({
+      status,
+      checks: { kv, provider: provider.name, upstream },
+    }),
+    {
+      status: status === "unavailable" ? 503 : 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    },
+  );
+};
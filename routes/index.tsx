@@ -1,41 +1,14 @@
+import { RouteConfig } from "$fresh/server.ts";
 import HomeIsland from "../islands/HomeIsland.tsx";
-import BackgroundCanvas from "../islands/BackgroundCanvas.tsx";
-import { AboutModal } from "../islands/AboutModal.tsx";
-import { WelcomeModal } from "../islands/WelcomeModal.tsx";
-import WelcomeChecker from "../islands/WelcomeChecker.tsx";
+import { HomeShell } from "../components/HomeShell.tsx";
+
+// Fresh nonces its island scripts; routes/_middleware.ts sets the policy
+export const config: RouteConfig = { csp: true };
 
 export default function Home() {
   return (
-    <div
-      id="main-content"
-      class="min-h-[100dvh] w-full flex flex-col relative overflow-hidden global-flicker"
-      style="background: linear-gradient(135deg, #0a0a0a 0%, #151515 50%, #0a0a0a 100%); position: fixed; inset: 0;"
-    >
-      {/* Animated canvas background */}
-      <BackgroundCanvas />
-
-      <div class="relative z-10 flex flex-col flex-1 w-full">
-        {/* Global atmospheric effects removed for crisper terminal */}
-
-        {/* Check if first visit and show welcome */}
-        <WelcomeChecker />
-
-        {/* First-visit welcome modal */}
-        <WelcomeModal />
-
-        {/* About modal (opened by footer link) */}
-        <AboutModal />
-
-        {/* Floating Theme Button */}
-        {
-          /* <div class="fixed top-4 right-4 z-50">
-          <ThemeIsland />
-        </div> */
-        }
-
-        {/* Main interactive content */}
-        <HomeIsland />
-      </div>
-    </div>
+    <HomeShell>
+      <HomeIsland />
+    </HomeShell>
   );
 }
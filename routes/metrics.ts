@@ -0,0 +1,35 @@
+// ===================================================================
+// METRICS ROUTE - Prometheus scrape endpoint
+// ===================================================================
+// GET /metrics (text format, see utils/metrics.ts). Set METRICS_TOKEN
+// to require "Authorization: Bearer <token>".
+
+import { FreshContext } from "$fresh/server.ts";
+import { renderMetrics } from "../utils/metrics.ts";
+import { getHoroscopeProvider } from "../utils/horoscope/providers/mod.ts";
+import { getConfig } from "../utils/config.ts";
+
+export const handler = (
+  req: Request,
+  _ctx: FreshContext,
+): Response => {
+  const token = getConfig().secrets.metricsToken;
+  if (token && req.headers.get("authorization") !== `Bearer ${token}`) {
+    return new Response("Unauthorized\n", {
+      status: 401,
+      headers: { "WWW-Authenticate": "Bearer" },
+    });
+  }
+
+  const provider = getHoroscopeProvider();
+  const state = provider.circuitState?.();
+  return new Response(
+    renderMetrics(state ? { provider: provider.name, state } : undefined),
+    {
+      headers: {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    },
+  );
+};
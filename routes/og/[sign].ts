@@ -0,0 +1,85 @@
+// ===================================================================
+// OG IMAGE ROUTE - Share cards for sign pages
+// ===================================================================
+// GET /og/leo?period=weekly&date=2026-10-12&effect=fire → 1200x630 PNG
+// (utils/ogImage.ts). buildSignSeo points og:image here with the
+// reading's date, so each card URL is one reading and never changes.
+//
+// Anything that goes wrong falls back to the static /og-image.jpg, so
+// link previews always get a picture.
+
+import { FreshContext } from "$fresh/server.ts";
+import { isValidSign } from "../../utils/horoscope/types.ts";
+import { resolveReadingParams } from "../../utils/horoscope/params.ts";
+import {
+  getReading,
+  getReadingCacheControl,
+  isProvisional,
+} from "../../utils/horoscope/service.ts";
+import { getTerminalEffect } from "../../utils/horoscope/terminal.ts";
+import { getOgImage } from "../../utils/ogImage.ts";
+import { getRateLimitRules, withRateLimit } from "../../utils/rateLimit.ts";
+import { annotateRequest, log } from "../../utils/log.ts";
+
+const FALLBACK_IMAGE = "/og-image.jpg";
+
+const fallback = (): Response =>
+  new Response(null, {
+    status: 302,
+    headers: { "Location": FALLBACK_IMAGE, "Cache-Control": "no-store" },
+  });
+
+export const handler = (
+  req: Request,
+  ctx: FreshContext,
+): Promise<Response> | Response => {
+  const sign = ctx.params.sign.toLowerCase();
+  if (!isValidSign(sign)) return fallback();
+
+  const url = new URL(req.url);
+  const effect = getTerminalEffect(url.searchParams.get("effect"));
+
+  return withRateLimit(
+    req,
+    ctx.remoteAddr,
+    { route: "/og", rule: getRateLimitRules()["/og"] },
+    async () => {
+      const date = url.searchParams.get("date");
+      const parsed = resolveReadingParams({
+        period: url.searchParams.get("period"),
+        day: date,
+        timeZone: url.searchParams.get("tz"),
+      });
+      if (!parsed.ok) return fallback();
+      const { period, day } = parsed.params;
+      annotateRequest({ sign, period });
+
+      try {
+        const { reading, cacheStatus } = await getReading({
+          sign,
+          period,
+          day,
+        });
+        annotateRequest({ cacheStatus });
+        const provisional = isProvisional(cacheStatus);
+        const png = await getOgImage(reading, effect, !provisional);
+
+        return new Response(png, {
+          status: 200,
+          headers: {
+            "Content-Type": "image/png",
+            // Dated cards are one reading forever; undated ones and
+            // stand-ins follow the reading's own freshness
+            "Cache-Control": date && date === reading.date && !provisional
+              ? "public, max-age=31536000, immutable"
+              : getReadingCacheControl(cacheStatus),
+            "X-Cache": cacheStatus.toUpperCase(),
+          },
+        });
+      } catch (error) {
+        log.error("OG image error", { error });
+        return fallback();
+      }
+    },
+  );
+};
@@ -0,0 +1,65 @@
+// ===================================================================
+// SITEMAP - Generated list of every public page
+// ===================================================================
+// Home, thanks, and each sign's daily/weekly/monthly page. lastmod is
+// the start of the current period, when the page content last changed.
+
+import { FreshContext } from "$fresh/server.ts";
+import { HOROSCOPE_PERIODS, VALID_SIGNS } from "../utils/horoscope/types.ts";
+import { getPeriodStart, toIsoDate } from "../utils/horoscope/dates.ts";
+import { getSignPath, SITE_URL } from "../utils/seo.ts";
+
+interface SitemapEntry {
+  path: string;
+  lastmod?: string;
+  changefreq: "daily" | "weekly" | "monthly";
+  priority: number;
+}
+
+function renderEntry(entry: SitemapEntry): string {
+  return [
+    "  <url>",
+    `    <loc>${SITE_URL}${entry.path}</loc>`,
+    ...(entry.lastmod ? [`    <lastmod>${entry.lastmod}</lastmod>`] : []),
+    `    <changefreq>${entry.changefreq}</changefreq>`,
+    `    <priority>${entry.priority.toFixed(1)}</priority>`,
+    "  </url>",
+  ].join("\n");
+}
+
+export const handler = (
+  _req: Request,
+  _ctx: FreshContext,
+): Response => {
+  const now = new Date();
+  const entries: SitemapEntry[] = [
+    { path: "/", changefreq: "daily", priority: 1.0 },
+    { path: "/thanks", changefreq: "monthly", priority: 0.3 },
+  ];
+
+  for (const sign of VALID_SIGNS) {
+    for (const period of HOROSCOPE_PERIODS) {
+      entries.push({
+        path: getSignPath(sign, period),
+        lastmod: toIsoDate(getPeriodStart(period, now)),
+        changefreq: period,
+        priority: period === "daily" ? 0.8 : 0.6,
+      });
+    }
+  }
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map(renderEntry),
+    "</urlset>",
+    "",
+  ].join("\n");
+
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+};
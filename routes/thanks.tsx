@@ -1,7 +1,11 @@
 // deno-lint-ignore-file react-no-danger fresh-server-event-handlers
+import { RouteConfig } from "$fresh/server.ts";
 import { useEffect, useState } from "preact/hooks";
 import { sounds } from "../utils/sounds.ts";
 
+// Fresh nonces its island scripts; routes/_middleware.ts sets the policy
+export const config: RouteConfig = { csp: true };
+
 export default function Thanks() {
   const [celebrationArt, setCelebrationArt] = useState("");
   const [showConfetti, setShowConfetti] = useState(false);
@@ -0,0 +1,120 @@
+#!/usr/bin/env -S deno run --allow-env --allow-net --allow-read --allow-write --unstable-kv
+
+/**
+ * API KEY ADMIN
+ * Create, list and revoke partner API keys, and show their usage
+ *
+ * Usage:
+ *   deno task apikeys create <name> [--quota 10000] [--origins https://a.com,https://*.b.com]
+ *   deno task apikeys list
+ *   deno task apikeys revoke <id>
+ *   deno task apikeys usage <id> [days]
+ *
+ * Uses the local KV by default; set KV_URL (and DENO_KV_ACCESS_TOKEN)
+ * to manage the production database.
+ */
+
+import {
+  type ApiKeyRecord,
+  generateApiKey,
+  hashApiKey,
+  KvApiKeyStore,
+} from "../utils/apiKeys.ts";
+import { addDays, toIsoDate } from "../utils/horoscope/dates.ts";
+
+const DEFAULT_QUOTA = 10_000;
+
+function option(name: string): string | undefined {
+  const index = Deno.args.indexOf(`--${name}`);
+  return index === -1 ? undefined : Deno.args[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  Deno.exit(1);
+}
+
+const kv = await Deno.openKv(Deno.env.get("KV_URL"));
+const store = new KvApiKeyStore(kv);
+const [command, arg, extra] = Deno.args;
+
+async function findKey(id: string | undefined) {
+  if (!id) fail("Missing key id");
+  const found = (await store.list()).find(({ record }) => record.id === id);
+  return found ?? fail(`No key with id ${id}`);
+}
+
+switch (command) {
+  case "create": {
+    if (!arg || arg.startsWith("--")) fail("Missing key name");
+    const quota = Number(option("quota") ?? DEFAULT_QUOTA);
+    if (!Number.isInteger(quota) || quota < 1) fail("--quota must be > 0");
+    const origins = (option("origins") ?? "")
+      .split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean);
+
+    const key = generateApiKey();
+    const hash = await hashApiKey(key);
+    const record: ApiKeyRecord = {
+      id: hash.slice(0, 12),
+      name: arg,
+      origins,
+      dailyQuota: quota,
+      createdAt: new Date().toISOString(),
+    };
+    await store.save(hash, record);
+
+    console.log(`🔑 Created ${record.id} for ${record.name}`);
+    console.log(`   Quota:   ${quota}/day`);
+    console.log(`   Origins: ${origins.join(", ") || "(server-side only)"}`);
+    console.log(`\n   ${key}\n`);
+    console.log("   Shown once; only its hash is stored.");
+    break;
+  }
+
+  case "list": {
+    for (const { record } of await store.list()) {
+      const status = record.revokedAt ? "revoked" : "active ";
+      console.log(
+        `${record.id}  ${status}  ${
+          String(record.dailyQuota).padStart(7)
+        }/day  ${record.name}  ${record.origins.join(", ")}`,
+      );
+    }
+    break;
+  }
+
+  case "revoke": {
+    const { hash, record } = await findKey(arg);
+    await store.save(hash, { ...record, revokedAt: new Date().toISOString() });
+    console.log(`🚫 Revoked ${record.id} (${record.name})`);
+    break;
+  }
+
+  case "usage": {
+    const { record } = await findKey(arg);
+    const days = Math.max(1, parseInt(extra || "7"));
+    const today = new Date();
+    const dates = Array.from(
+      { length: days },
+      (_, index) => toIsoDate(addDays(today, -index)),
+    );
+
+    console.log(`📊 ${record.name} (${record.id}), ${record.dailyQuota}/day\n`);
+    for (const usage of await store.usage(record.id, dates)) {
+      const routes = Object.entries(usage.routes)
+        .map(([route, count]) => `${route} ${count}`)
+        .join(", ");
+      console.log(
+        `${usage.day}  ${String(usage.total).padStart(7)}  ${routes}`,
+      );
+    }
+    break;
+  }
+
+  default:
+    fail("Usage: apikeys create|list|revoke|usage (see scripts/apiKeys.ts)");
+}
+
+kv.close();
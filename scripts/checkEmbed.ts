@@ -0,0 +1,53 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-run
+
+/**
+ * EMBED FRESHNESS CHECK
+ * Fail if static/stargram-horoscope.js is out of date with
+ * utils/embedElement.ts and what it imports
+ *
+ * Usage:
+ *   deno task check:embed
+ *
+ * The bundle is committed so deploys serve it without a build step;
+ * this rebuilds it to a temp file and compares. Fix a failure with
+ * `deno task build:embed` and commit the result.
+ */
+
+const ENTRY = "utils/embedElement.ts";
+const BUNDLE = "static/stargram-horoscope.js";
+// `deno bundle` came back in 2.4
+const MIN_DENO = [2, 4];
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  Deno.exit(1);
+}
+
+const [major, minor] = Deno.version.deno.split(".").map(Number);
+if (major < MIN_DENO[0] || (major === MIN_DENO[0] && minor < MIN_DENO[1])) {
+  fail(
+    `Bundling the embed needs Deno ${MIN_DENO.join(".")}+ ` +
+      `(this is ${Deno.version.deno}); run \`deno upgrade\``,
+  );
+}
+
+const output = await Deno.makeTempFile({ suffix: ".js" });
+const { success, stderr } = await new Deno.Command(Deno.execPath(), {
+  args: ["bundle", "--platform", "browser", "--minify", "-o", output, ENTRY],
+  stdout: "null",
+  stderr: "piped",
+}).output();
+const bundled = success ? await Deno.readTextFile(output) : null;
+await Deno.remove(output);
+
+if (bundled === null) {
+  fail(`Bundling failed:\n${new TextDecoder().decode(stderr)}`);
+}
+const committed = await Deno.readTextFile(BUNDLE).catch(() => null);
+if (committed === null) {
+  fail(`${BUNDLE} is missing; run \`deno task build:embed\``);
+}
+if (committed !== bundled) {
+  fail(`${BUNDLE} is out of date; run \`deno task build:embed\` and commit it`);
+}
+console.log(`✅ ${BUNDLE} is up to date`);
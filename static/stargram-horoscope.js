@@ -0,0 +1,6140 @@
+var e_=[{name:"Matrix",value:"none"},{name:"Lolcat",value:"lolcat"},{name:"Triad Beam",value:"trinity"},{name:"Fire",value:"fire"},{name:"Sunrise",value:"sunrise"},{name:"Unicorn",value:"unicorn"},{name:"Vaporwave",value:"vaporwave"},{name:"Cyberpunk",value:"cyberpunk"},{name:"Ocean",value:"ocean"},{name:"Chrome",value:"chrome"},{name:"Neon",value:"neon"},{name:"Poison",value:"poison"}];var t_=[{name:"aries",emoji:"\u2648",dates:"Mar 21 - Apr 19",element:"fire",bio:"Impulsive firestarter who thrives on first moves, dares, and impossible bets.",modality:"cardinal",rulingPlanet:"Mars",signatureMove:"Launch-first gambits, fearless sprints, and unfiltered hype.",recharge:"High-intensity sweat, spicy noodles, and emergency road trips.",motto:"If it scares me, it belongs to me.",keywords:["spark plug","initiator","brash","combat mode"]},{name:"taurus",emoji:"\u2649",dates:"Apr 20 - May 20",element:"earth",bio:"Earthy sensualist\u2014loyal, grounded, and forever chasing tactile luxury.",modality:"fixed",rulingPlanet:"Venus",signatureMove:"Slow-burn mastery, sustainable stacks, velvet rope standards.",recharge:"Garden snacks, deep naps, and playlists on plush speakers.",motto:"Consistency is the ultimate flex.",keywords:["builder","steadfast","sensual","collector"]},{name:"gemini",emoji:"\u264A",dates:"May 21 - Jun 20",element:"air",bio:"Split-signal trickster who lives for gossip, beta builds, and hot takes.",modality:"mutable",rulingPlanet:"Mercury",signatureMove:"DM storms, meme diplomacy, and ten tabs of context.",recharge:"Night walks, dual playlists, and chaotic group chats.",motto:"Why pick one storyline when I can run three?",keywords:["social modem","translator","curious","restless"]},{name:"cancer",emoji:"\u264B",dates:"Jun 21 - Jul 22",element:"water",bio:"Lunar caretaker with moods synced to the tides and playlists full of feelings.",modality:"cardinal",rulingPlanet:"Moon",signatureMove:"Soft power strategy, emotional firewalls, psychic homebases.",recharge:"Salt baths, handwritten letters, and late-night cooking.",motto:"Protect the vibe and the vibe returns the favor.",keywords:["nurturer","intuitive","protective","shell-core"]},{name:"leo",emoji:"\u264C",dates:"Jul 23 - Aug 22",element:"fire",bio:"Solar performer, gold-trim maximalist, and perpetual hype engine.",modality:"fixed",rulingPlanet:"Sun",signatureMove:"Spotlight takeovers, loyalty oaths, and glittered rollouts.",recharge:"Stage lights, luxury brunches, and a camera roll of compliments.",motto:"If it's not legendary, why bother?",keywords:["royalty","radiant","dramatic","protector"]},{name:"virgo",emoji:"\u264D",dates:"Aug 23 - Sep 22",element:"earth",bio:"Precision analyst turning chaos into clean checklists and clever systems.",modality:"mutable",rulingPlanet:"Mercury",signatureMove:"Debugging the universe, spreadsheet spells, herbal diagnostics.",recharge:"Color-coded planning, forest walks, and journaling in serif fonts.",motto:"Refine, align, repeat.",keywords:["editor","healer","strategist","craftsperson"]},{name:"libra",emoji:"\u264E",dates:"Sep 23 - Oct 22",element:"air",bio:"Charm dealer balancing beauty, diplomacy, and curated drama.",modality:"cardinal",rulingPlanet:"Venus",signatureMove:"Peace treaties, gallery curation, couture-level negotiation.",recharge:"Museums, silk pajamas, and texting three crushes at once.",motto:"Balance is couture.",keywords:["diplomat","designer","harmonizer","flirt"]},{name:"scorpio",emoji:"\u264F",dates:"Oct 23 - Nov 21",element:"water",bio:"Psychic hacker who reads motives, guards secrets, and loves transformation.",modality:"fixed",rulingPlanet:"Pluto",signatureMove:"Shadow dives, loyalty blood-pacts, and controlled detonations.",recharge:"Subterranean playlists, intense therapy, and candlelit plotting.",motto:"Transform or be transformed.",keywords:["alchemist","detective","intense","phoenix"]},{name:"sagittarius",emoji:"\u2650",dates:"Nov 22 - Dec 21",element:"fire",bio:"Galactic explorer chasing horizons, spicy takes, and unfiltered freedom.",modality:"mutable",rulingPlanet:"Jupiter",signatureMove:"Passport roulette, blunt sermons, and cosmic improv.",recharge:"Bonfire debates, long-haul flights, and philosophy podcasts.",motto:"Truth over tact, journey over destination.",keywords:["seeker","comedian","optimist","wanderer"]},{name:"capricorn",emoji:"\u2651",dates:"Dec 22 - Jan 19",element:"earth",bio:"Saturnian builder stacking legacy moves, status mountains, and spreadsheets.",modality:"cardinal",rulingPlanet:"Saturn",signatureMove:"Five-year plans, stealth power plays, and midnight productivity.",recharge:"Cabin retreats, vintage whiskey, and deleting unnecessary apps.",motto:"Longevity is the loudest flex.",keywords:["architect","strategist","stoic","executive"]},{name:"aquarius",emoji:"\u2652",dates:"Jan 20 - Feb 18",element:"air",bio:"Future-wave inventor remixing systems with rebellious humanitarian code.",modality:"fixed",rulingPlanet:"Uranus",signatureMove:"Open-source revolutions, data rebellions, and group experiments.",recharge:"Solo think tanks, sci-fi marathons, and rooftop stargazing.",motto:"Break the format, keep the people.",keywords:["innovator","alien","visionary","activist"]},{name:"pisces",emoji:"\u2653",dates:"Feb 19 - Mar 20",element:"water",bio:"Dream-diver translating cosmic feelings into art, playlists, and poetry.",modality:"mutable",rulingPlanet:"Neptune",signatureMove:"Sleep-paralysis art drops, psychic empathy, and oceanic daydreams.",recharge:"Float tanks, watercolor journaling, and dissolving in film soundtracks.",motto:"Feel it all, remix it into light.",keywords:["mystic","artist","empath","mermaid"]}];function l_(r){return t_.find(L=>L.name===r.toLowerCase())}function n_(r){return l_(r)?.emoji||"\u2728"}var B_=t_.map(r=>r.name),V_=["daily","weekly","monthly"];function I_(r){return B_.includes(r)}function r_(r){return V_.includes(r)}var J={reading:"/api/horoscope",bulk:"/api/horoscope/all",archive:"/api/horoscope/archive"};function K_(r){let L=new URLSearchParams;for(let[E,u]of Object.entries(r))u!=null&&L.set(E,String(u));return L.toString()}function u_(r={}){let L=(r.baseUrl??"").replace(/\/$/,""),E=r.fetch??((...I)=>fetch(...I)),u=r.maxCachedResponses??50,c=new Map;function l(I,f){if(c.delete(I),!(u<=0))for(c.set(I,f);c.size>u;)c.delete(c.keys().next().value)}async function R(I,f,g={}){let $=new Headers(r.headers);r.apiKey&&$.set("X-Api-Key",r.apiKey),new Headers(g.headers).forEach((U,W)=>$.set(W,U));let D=K_(f),C=`${L}${I}${D?`?${D}`:""}`,p=c.get(C);p&&!$.has("if-none-match")&&$.set("If-None-Match",p.etag);let y=await E(C,{headers:$,signal:g.signal});if(y.status===304&&p)return l(C,p),{...p.result,status:304};let M=await y.json().catch(()=>null);if(M&&(M.success||"results"in M)){let U={ok:!0,status:y.status,data:M,cacheStatus:y.headers.get("x-cache")},W=y.headers.get("etag");return W&&l(C,{etag:W,result:U}),U}let b=M&&"code"in M?M:{success:!1,code:"malformed_upstream",error:`Unexpected ${y.status} response from ${I}`};return{ok:!1,status:y.status,error:b,retryAfter:b.retryAfter??(Number(y.headers.get("retry-after"))||void 0)}}return{getReading:(I,f)=>R(J.reading,I,f),getAllReadings:(I={},f)=>R(J.bulk,I,f),listArchive:(I,f)=>R(J.archive,I,f),getArchivedReading:(I,f)=>R(J.archive,I,f)}}var Z=(r,L)=>(r??L)*1e3,c_={invalid_sign:{messages:["\u{1F52D} UNKNOWN CONSTELLATION \u2014 That sign isn't on our star charts. Pick another?"],retry:()=>({kind:"none"})},invalid_period:{messages:["\u{1F4C6} TIMELINE ERROR \u2014 The stars only speak daily, weekly, or monthly."],retry:()=>({kind:"none"})},invalid_day:{messages:["\u{1F5D3}\uFE0F DATE OUT OF ORBIT \u2014 That day isn't in the star logs. Try another?"],retry:()=>({kind:"none"})},invalid_timezone:{messages:["\u{1F310} CLOCK DRIFT \u2014 Your timezone confused the cosmos. Check your device clock?"],retry:()=>({kind:"manual"})},not_archived:{messages:["\u{1F4FC} TAPE NOT FOUND \u2014 No reading was recorded for that date. Try another?"],retry:()=>({kind:"none"})},upstream_timeout:{messages:["\u{1F6F0}\uFE0F SIGNAL DELAY \u2014 The astral plane is lagging. Re-dialing...","\u23F3 STARS BUFFERING \u2014 The transmission stalled mid-orbit. Re-dialing..."],retry:r=>({kind:"auto",delayMs:Z(r,3)})},upstream_unavailable:{messages:["\u26A1 MAINFRAME OFFLINE \u2014 The celestial servers are napping. Reconnecting soon...","\u{1F30C} VOID DETECTED \u2014 Nothing but cosmic silence out there. Reconnecting soon..."],retry:r=>({kind:"auto",delayMs:Z(r,30)})},upstream_rejected:{messages:["\u274C LINK SEVERED \u2014 Cosmic firewall blocked the vibes. Try again?"],retry:()=>({kind:"manual"})},malformed_upstream:{messages:["\u26A0\uFE0F TRANSMISSION CORRUPTED \u2014 The stars sent back static. Retry?","\u274C DECRYPT FAILED \u2014 Star data scrambled beyond recognition. Try again?"],retry:()=>({kind:"manual"})},rate_limited:{messages:["\u{1F6A6} COSMIC TRAFFIC JAM \u2014 Too many readings at once. Breathe, then retry."],retry:r=>({kind:"wait",delayMs:Z(r,60)})},invalid_api_key:{messages:["\u{1F511} UNKNOWN KEY \u2014 The observatory doesn't recognize this API key."],retry:()=>({kind:"none"})},origin_not_allowed:{messages:["\u{1F6A7} WRONG OBSERVATORY \u2014 This API key isn't cleared for this site."],retry:()=>({kind:"none"})},quota_exceeded:{messages:["\u{1F319} OUT OF STARDUST \u2014 Today's readings are used up. Back after midnight UTC."],retry:r=>({kind:"wait",delayMs:Z(r,3600)})},internal_error:{messages:["\u{1F52E} DIVINATION FAILED \u2014 The universe hung up on us. One more time?"],retry:()=>({kind:"manual"})},network:{messages:["\u{1F6F0}\uFE0F CONNECTION TIMEOUT \u2014 Can't reach the astral plane. Check your link?","\u26A1 SIGNAL LOST \u2014 Mothership went dark. Reconnect?"],retry:()=>({kind:"manual"})}};function R_(r,L){let E=r&&Object.hasOwn(c_,r)?r:"internal_error",u=c_[E];return{code:E,message:u.messages[Math.floor(Math.random()*u.messages.length)],retry:u.retry(L)}}function X_(r,L,E,u,c){switch(r){case"unicorn":return`hsl(${L*360/u%360}, 95%, 65%)`;case"fire":{let l=60-E*60/c,R=100-E*20/c;return`hsl(${l}, ${R}%, 55%)`}case"cyberpunk":return`hsl(${320-(L+E)/(u+c)*140}, 100%, 60%)`;case"sunrise":{let l=E/c,R=330+l*60,I=85+l*15,f=60+l*20;return`hsl(${R}, ${I}%, ${f}%)`}case"vaporwave":{let R=280+E/c*80,I=80+Math.sin((L+E)*.3)*15,f=65+Math.sin(L*.4)*10;return`hsl(${R}, ${I}%, ${f}%)`}case"chrome":{let l=200+Math.sin(L*.2)*60,R=70+Math.sin(E*.3)*20;return`hsl(${l}, 30%, ${R}%)`}case"ocean":{let l=E/c,R=180+l*30,I=70+l*20,f=50+l*20;return`hsl(${R}, ${I}%, ${f}%)`}case"neon":{let l=(L+E)/(u+c),R=60+Math.sin(l*10)*120,I=100,f=60+Math.sin(l*8)*15;return`hsl(${R}, ${I}%, ${f}%)`}case"poison":{let l=(L+E)/(u+c),R=90+l*30,I=90+Math.sin(L*.5)*10,f=45+l*20;return`hsl(${R}, ${I}%, ${f}%)`}case"lolcat":{let l=(L*18+E*8)%360,R=90,I=70+Math.sin((L+E)*.35)*12;return`hsl(${l}, ${R}%, ${I}%)`}case"trinity":{let l=["#b179ff","#00ff9d","#ff9a3c"],R=L/Math.max(1,u),I=Math.min(l.length-1,Math.floor(R*l.length));return l[I]}default:return"#00FF41"}}var j_={unicorn:"hsl(280, 100%, 75%)",fire:"hsl(40, 100%, 65%)",cyberpunk:"hsl(320, 100%, 70%)",sunrise:"hsl(30, 100%, 70%)",vaporwave:"hsl(310, 95%, 75%)",chrome:"hsl(200, 60%, 85%)",ocean:"hsl(180, 85%, 65%)",neon:"hsl(100, 100%, 70%)",poison:"hsl(100, 100%, 55%)",lolcat:"hsl(320, 95%, 75%)",trinity:"#ffdb8a"};function z_(r){return j_[r]||"#FFD700"}var T_=r=>r.replace(/&/g,"&amp;").replace(/</g,"&lt;").replace(/>/g,"&gt;").replace(/"/g,"&quot;").replace(/'/g,"&#039;");function h_(r,L){if(L==="none"||!r)return{fullHtml:"",headerHtml:"",bodyHtml:""};let E=r.split(`
+`),u=[],c=[],l=[],R=!1,I=0,f=z_(L);for(let g=0;g<E.length;g++){let $=E[g];if($.includes("[HEADER_START]")){R=!0,I=0;continue}if($.includes("[HEADER_END]")){R=!1,I=0;continue}if(R){I++;let D=I===1,C=`color: ${f}; display: block; font-family: 'JetBrains Mono', 'SF Mono', 'Courier New', monospace;`;if(D){let p=`<span style="${C} font-weight: 900; letter-spacing: 0.18em; font-size: clamp(18px, 4vw, 32px); text-transform: uppercase;">${T_($)}</span>`;c.push(p),u.push(p)}else{let p=`<span style="${C} font-weight: 700; letter-spacing: 0.04em; font-size: clamp(14px, 3vw, 24px); text-transform: none; white-space: pre; line-height: 1.15;">${T_($)}</span>`;c.push(p),u.push(p)}}else if($.trim()){let C=`<span style="color: ${X_(L,Math.floor($.length/2),g,$.length,E.length)};">${T_($)}</span>`;u.push(C),l.push(C)}else u.push($),l.push($)}return{fullHtml:u.join(`
+`),headerHtml:c.join(`
+`),bodyHtml:l.join(`
+`)}}var Y_={FULL_WIDTH:0,FITTING:1,SMUSHING:2,CONTROLLED_SMUSHING:3},J_=class{constructor(){this.comment="",this.numChars=0,this.options={}}},o_=["1Row","3-D","3D Diagonal","3D-ASCII","3x5","4Max","5 Line Oblique","AMC 3 Line","AMC 3 Liv1","AMC AAA01","AMC Neko","AMC Razor","AMC Razor2","AMC Slash","AMC Slider","AMC Thin","AMC Tubes","AMC Untitled","ANSI Compact","ANSI Regular","ANSI Shadow","ASCII 12","ASCII 9","ASCII New Roman","Acrobatic","Alligator","Alligator2","Alpha","Alphabet","Arrows","Avatar","B1FF","Babyface Lame","Babyface Leet","Banner","Banner3-D","Banner3","Banner4","Barbwire","Basic","Bear","Bell","Benjamin","Big ASCII 12","Big ASCII 9","Big Chief","Big Money-ne","Big Money-nw","Big Money-se","Big Money-sw","Big Mono 12","Big Mono 9","Big","Bigfig","Binary","Block","Blocks","Bloody","BlurVision ASCII","Bolger","Braced","Bright","Broadway KB","Broadway","Bubble","Bulbhead","Caligraphy","Caligraphy2","Calvin S","Cards","Catwalk","Chiseled","Chunky","Circle","Classy","Coder Mini","Coinstak","Cola","Colossal","Computer","Contessa","Contrast","Cosmike","Cosmike2","Crawford","Crawford2","Crazy","Cricket","Cursive","Cyberlarge","Cybermedium","Cybersmall","Cygnet","DANC4","DOS Rebel","DWhistled","Dancing Font","Decimal","Def Leppard","Delta Corps Priest 1","DiamFont","Diamond","Diet Cola","Digital","Doh","Doom","Dot Matrix","Double Shorts","Double","Dr Pepper","Efti Chess","Efti Font","Efti Italic","Efti Piti","Efti Robot","Efti Wall","Efti Water","Electronic","Elite","Emboss 2","Emboss","Epic","Fender","Filter","Fire Font-k","Fire Font-s","Flipped","Flower Power","Font Font","Four Tops","Fraktur","Fun Face","Fun Faces","Future Smooth","Future Thin","Future","Fuzzy","Georgi16","Georgia11","Ghost","Ghoulish","Glenyn","Goofy","Gothic","Graceful","Gradient","Graffiti","Greek","Heart Left","Heart Right","Henry 3D","Hex","Hieroglyphs","Hollywood","Horizontal Left","Horizontal Right","ICL-1900","Impossible","Invita","Isometric1","Isometric2","Isometric3","Isometric4","Italic","Ivrit","JS Block Letters","JS Bracket Letters","JS Capital Curves","JS Cursive","JS Stick Letters","Jacky","Jazmine","Jerusalem","Katakana","Kban","Keyboard","Knob","Konto Slant","Konto","LCD","Larry 3D 2","Larry 3D","Lean","Letter","Letters","Lil Devil","Line Blocks","Linguaholic Mini Block","Linguaholic Neon","Linguaholic Rounded","Linguaholic Shadow 3D","Linux","Lockergnome","Madrid","Marquee","Maxfour","Merlin1","Merlin2","Mike","Mini","Mirror","Mnemonic","Modular","Mono 12","Mono 9","Morse","Morse2","Moscow","Mshebrew210","Muzzle","NScript","NT Greek","NV Script","Nancyj-Fancy","Nancyj-Improved","Nancyj-Underlined","Nancyj","Nipples","O8","OS2","Octal","Ogre","Old Banner","Pagga","Patorjk's Cheese","Patorjk-HeX","Pawp","Peaks Slant","Peaks","Pebbles","Pepper","Poison","Puffy","Puzzle","Pyramid","Rammstein","Rebel","Rectangles","Red Phoenix","Relief","Relief2","Reverse","Roman","Rot13","Rotated","Rounded","Rowan Cap","Rozzo","RubiFont","Runic","Runyc","S Blood","SL Script","Santa Clara","Script","Serifcap","Shaded Blocky","Shadow","Shimrod","Short","Slant Relief","Slant","Slide","Small ASCII 12","Small ASCII 9","Small Block","Small Braille","Small Caps","Small Isometric1","Small Keyboard","Small Mono 12","Small Mono 9","Small Poison","Small Script","Small Shadow","Small Slant","Small Tengwar","Small","Soft","Speed","Spliff","Stacey","Stampate","Stampatello","Standard","Star Strips","Star Wars","Stellar","Stforek","Stick Letters","Stop","Straight","Stronger Than All","Sub-Zero","Swamp Land","Swan","Sweet","THIS","Tanja","Tengwar","Term","Terrace","Test1","The Edge","Thick","Thin","Thorned","Three Point","Ticks Slant","Ticks","Tiles","Tinker-Toy","Tmplr","Tombstone","Train","Trek","Tsalagi","Tubular","Twisted","Two Point","USA Flag","Univers","Upside Down Text","Varsity","Wavescape","Wavy","Weird","Wet Letter","Whimsy","WideTerm","Wow","miniwi"],d_={"ANSI-Compact":"ANSI Compact"},j=r=>d_[r]?d_[r]:r;function Z_(r){return/[.*+?^${}()|[\]\\]/.test(r)?"\\"+r:r}var Q=(()=>{let{FULL_WIDTH:r=0,FITTING:L,SMUSHING:E,CONTROLLED_SMUSHING:u}=Y_,c={},l={font:"Standard",fontPath:"./fonts",fetchFontIfMissing:!0};function R(t,n,_){let e=Z_(t.trim().slice(-1))||"@",T=n===_-1?new RegExp(e+e+"?\\s*$"):new RegExp(e+"\\s*$");return t.replace(T,"")}function I(t=-1,n=null){let _={},e,T=[[16384,"vLayout",E],[8192,"vLayout",L],[4096,"vRule5",!0],[2048,"vRule4",!0],[1024,"vRule3",!0],[512,"vRule2",!0],[256,"vRule1",!0],[128,"hLayout",E],[64,"hLayout",L],[32,"hRule6",!0],[16,"hRule5",!0],[8,"hRule4",!0],[4,"hRule3",!0],[2,"hRule2",!0],[1,"hRule1",!0]];e=n!==null?n:t;for(let[o,s,a]of T)e>=o?(e-=o,_[s]===void 0&&(_[s]=a)):s!=="vLayout"&&s!=="hLayout"&&(_[s]=!1);return typeof _.hLayout>"u"?t===0?_.hLayout=L:t===-1?_.hLayout=r:_.hRule1||_.hRule2||_.hRule3||_.hRule4||_.hRule5||_.hRule6?_.hLayout=u:_.hLayout=E:_.hLayout===E&&(_.hRule1||_.hRule2||_.hRule3||_.hRule4||_.hRule5||_.hRule6)&&(_.hLayout=u),typeof _.vLayout>"u"?_.vRule1||_.vRule2||_.vRule3||_.vRule4||_.vRule5?_.vLayout=u:_.vLayout=r:_.vLayout===E&&(_.vRule1||_.vRule2||_.vRule3||_.vRule4||_.vRule5)&&(_.vLayout=u),_}function f(t,n,_=""){return t===n&&t!==_?t:!1}function g(t,n){let _="|/\\[]{}()<>";if(t==="_"){if(_.indexOf(n)!==-1)return n}else if(n==="_"&&_.indexOf(t)!==-1)return t;return!1}function $(t,n){let _="| /\\ [] {} () <>",e=_.indexOf(t),T=_.indexOf(n);if(e!==-1&&T!==-1&&e!==T&&Math.abs(e-T)!==1){let o=Math.max(e,T),s=o+1;return _.substring(o,s)}return!1}function D(t,n){let _="[] {} ()",e=_.indexOf(t),T=_.indexOf(n);return e!==-1&&T!==-1&&Math.abs(e-T)<=1?"|":!1}function C(t,n){return{"/\\":"|","\\/":"Y","><":"X"}[t+n]||!1}function p(t,n,_=""){return t===_&&n===_?_:!1}function y(t,n){return t===n?t:!1}function M(t,n){return g(t,n)}function b(t,n){return $(t,n)}function U(t,n){return t==="-"&&n==="_"||t==="_"&&n==="-"?"=":!1}function W(t,n){return t==="|"&&n==="|"?"|":!1}function k(t,n,_){return n===" "||n===""||n===_&&t!==" "?t:n}function x_(t,n,_){if(_.fittingRules&&_.fittingRules.vLayout===r)return"invalid";let e,T=Math.min(t.length,n.length),o,s,a=!1,i;if(T===0)return"invalid";for(e=0;e<T;e++)if(o=t.substring(e,e+1),s=n.substring(e,e+1),o!==" "&&s!==" "){if(_.fittingRules&&_.fittingRules.vLayout===L)return"invalid";if(_.fittingRules&&_.fittingRules.vLayout===E)return"end";if(W(o,s)){a=a||!1;continue}if(i=!1,i=_.fittingRules&&_.fittingRules.vRule1?y(o,s):i,i=!i&&_.fittingRules&&_.fittingRules.vRule2?M(o,s):i,i=!i&&_.fittingRules&&_.fittingRules.vRule3?b(o,s):i,i=!i&&_.fittingRules&&_.fittingRules.vRule4?U(o,s):i,a=!0,!i)return"invalid"}return a?"end":"valid"}function D_(t,n,_){let e=t.length,T=t.length,o,s,a,i=1,A,d,h;for(;i<=e;){for(o=t.slice(Math.max(0,T-i),T),s=n.slice(0,Math.min(e,i)),a=s.length,h="",A=0;A<a;A++)if(d=x_(o[A],s[A],_),d==="end")h=d;else if(d==="invalid"){h=d;break}else h===""&&(h="valid");if(h==="invalid"){i--;break}if(h==="end")break;h==="valid"&&i++}return Math.min(e,i)}function W_(t,n,_){let e,T=Math.min(t.length,n.length),o,s,a="",i,A=_.fittingRules||{};for(e=0;e<T;e++)o=t.substring(e,e+1),s=n.substring(e,e+1),o!==" "&&s!==" "?A.vLayout===L||A.vLayout===E?a+=k(o,s):(i=!1,i=A.vRule5?W(o,s):i,i=!i&&A.vRule1?y(o,s):i,i=!i&&A.vRule2?M(o,s):i,i=!i&&A.vRule3?b(o,s):i,i=!i&&A.vRule4?U(o,s):i,a+=i):a+=k(o,s);return a}function P_(t,n,_,e){let T=t.length,o=n.length,s=t.slice(0,Math.max(0,T-_)),a=t.slice(Math.max(0,T-_),T),i=n.slice(0,Math.min(_,o)),A,d,h,m=[],N;for(d=a.length,A=0;A<d;A++)A>=o?h=a[A]:h=W_(a[A],i[A],e),m.push(h);return N=n.slice(Math.min(_,o),o),[...s,...m,...N]}function L_(t,n){let _=" ".repeat(n);return t.map(e=>e+_)}function F_(t,n,_){let e=t[0].length,T=n[0].length,o;return e>T?n=L_(n,e-T):T>e&&(t=L_(t,T-e)),o=D_(t,n,_),P_(t,n,o,_)}function U_(t,n,_){let e=_.fittingRules||{};if(e.hLayout===r)return 0;let T,o=t.length,s=n.length,a=o,i=1,A=!1,d,h,m,N;if(o===0)return 0;_:for(;i<=a;){let P=o-i;for(d=t.substring(P,P+i),h=n.substring(0,Math.min(i,s)),T=0;T<Math.min(i,s);T++)if(m=d.substring(T,T+1),N=h.substring(T,T+1),m!==" "&&N!==" "){if(e.hLayout===L){i=i-1;break _}else if(e.hLayout===E){(m===_.hardBlank||N===_.hardBlank)&&(i=i-1);break _}else if(A=!0,!(e.hRule1&&f(m,N,_.hardBlank)||e.hRule2&&g(m,N)||e.hRule3&&$(m,N)||e.hRule4&&D(m,N)||e.hRule5&&C(m,N)||e.hRule6&&p(m,N,_.hardBlank))){i=i-1;break _}}if(A)break;i++}return Math.min(a,i)}function __(t,n,_,e){let T,o,s=[],a,i,A,d,h,m,N,P,O=e.fittingRules||{};if(typeof e.height!="number")throw new Error("height is not defined.");for(T=0;T<e.height;T++){N=t[T],P=n[T],h=N.length,m=P.length,a=h-_,i=N.slice(0,Math.max(0,a)),A="";let K=Math.max(0,h-_),F=N.substring(K,K+_),G=P.substring(0,Math.min(_,m));for(o=0;o<_;o++){let x=o<h?F.substring(o,o+1):" ",H=o<m?G.substring(o,o+1):" ";if(x!==" "&&H!==" ")if(O.hLayout===L||O.hLayout===E)A+=k(x,H,e.hardBlank);else{let X=O.hRule1&&f(x,H,e.hardBlank)||O.hRule2&&g(x,H)||O.hRule3&&$(x,H)||O.hRule4&&D(x,H)||O.hRule5&&C(x,H)||O.hRule6&&p(x,H,e.hardBlank)||k(x,H,e.hardBlank);A+=X}else A+=k(x,H,e.hardBlank)}_>=m?d="":d=P.substring(_,_+Math.max(0,m-_)),s[T]=i+A+d}return s}function B(t){return new Array(t).fill("")}let V=function(t){return Math.max(...t.map(n=>n.length))};function v(t,n,_){return t.reduce(function(e,T){return __(e,T.fig,T.overlap||0,_)},B(n))}function w_(t,n,_){for(let e=t.length-1;e>0;e--){let T=v(t.slice(0,e),n,_);if(V(T)<=_.width)return{outputFigText:T,chars:t.slice(e)}}return t.length>0?{outputFigText:v([t[0]],n,_),chars:t.slice(1)}:{outputFigText:B(n),chars:t}}function v_(t,n,_){let e,T,o=0,s,a,i,A=_.height,d=[],h,m={chars:[],overlap:o},N=[],P,O,K,F,G;if(typeof A!="number")throw new Error("height is not defined.");a=B(A);let x=_.fittingRules||{},H=[...t];for(_.printDirection===1&&H.reverse(),i=H.length,e=0;e<i;e++)if(P=H[e],O=P.match(/\s/),T=n[P.codePointAt(0)]??n[0],F=null,T){if(x.hLayout!==r){for(o=1e4,s=0;s<A;s++)o=Math.min(o,U_(a[s],T[s],_));o=o===1e4?0:o}if(_.width>0&&(_.whitespaceBreak?(K=v(m.chars.concat([{fig:T,overlap:o}]),A,_),F=v(N.concat([{fig:K,overlap:m.overlap}]),A,_),h=V(F)):(F=__(a,T,o,_),h=V(F)),h>=_.width&&e>0&&(_.whitespaceBreak?(a=v(N.slice(0,-1),A,_),N.length>1&&(d.push(a),a=B(A)),N=[]):(d.push(a),a=B(A)))),_.width>0&&_.whitespaceBreak&&((!O||e===i-1)&&m.chars.push({fig:T,overlap:o}),O||e===i-1)){for(G=null;F=v(m.chars,A,_),h=V(F),h>=_.width;)G=w_(m.chars,A,_),m={chars:G.chars},d.push(G.outputFigText);h>0&&(G?N.push({fig:F,overlap:1}):N.push({fig:F,overlap:m.overlap})),O&&(N.push({fig:T,overlap:o}),a=B(A)),e===i-1&&(a=v(N,A,_)),m={chars:[],overlap:o};continue}a=__(a,T,o,_)}return V(a)>0&&d.push(a),_.showHardBlanks||d.forEach(function(X){for(i=X.length,s=0;s<i;s++)X[s]=X[s].replace(new RegExp("\\"+_.hardBlank,"g")," ")}),t===""&&d.length===0&&d.push(new Array(A).fill("")),d}let G_=function(t,n){let _,e=n.fittingRules||{};if(t==="default")_={hLayout:e.hLayout,hRule1:e.hRule1,hRule2:e.hRule2,hRule3:e.hRule3,hRule4:e.hRule4,hRule5:e.hRule5,hRule6:e.hRule6};else if(t==="full")_={hLayout:r,hRule1:!1,hRule2:!1,hRule3:!1,hRule4:!1,hRule5:!1,hRule6:!1};else if(t==="fitted")_={hLayout:L,hRule1:!1,hRule2:!1,hRule3:!1,hRule4:!1,hRule5:!1,hRule6:!1};else if(t==="controlled smushing")_={hLayout:u,hRule1:!0,hRule2:!0,hRule3:!0,hRule4:!0,hRule5:!0,hRule6:!0};else if(t==="universal smushing")_={hLayout:E,hRule1:!1,hRule2:!1,hRule3:!1,hRule4:!1,hRule5:!1,hRule6:!1};else return;return _},k_=function(t,n){let _={},e=n.fittingRules||{};if(t==="default")_={vLayout:e.vLayout,vRule1:e.vRule1,vRule2:e.vRule2,vRule3:e.vRule3,vRule4:e.vRule4,vRule5:e.vRule5};else if(t==="full")_={vLayout:r,vRule1:!1,vRule2:!1,vRule3:!1,vRule4:!1,vRule5:!1};else if(t==="fitted")_={vLayout:L,vRule1:!1,vRule2:!1,vRule3:!1,vRule4:!1,vRule5:!1};else if(t==="controlled smushing")_={vLayout:u,vRule1:!0,vRule2:!0,vRule3:!0,vRule4:!0,vRule5:!0};else if(t==="universal smushing")_={vLayout:E,vRule1:!1,vRule2:!1,vRule3:!1,vRule4:!1,vRule5:!1};else return;return _},E_=function(t,n,_){_=_.replace(/\r\n/g,`
+`).replace(/\r/g,`
+`);let e=j(t),T=_.split(`
+`),o=[],s,a,i;for(a=T.length,s=0;s<a;s++)o=o.concat(v_(T[s],c[e],n));for(a=o.length,i=o[0],s=1;s<a;s++)i=F_(i,o[s],n);return i?i.join(`
+`):""};function A_(t,n){let _;if(typeof structuredClone<"u"?_=structuredClone(t):_=JSON.parse(JSON.stringify(t)),_.showHardBlanks=n.showHardBlanks||!1,_.width=n.width||-1,_.whitespaceBreak=n.whitespaceBreak||!1,n.horizontalLayout){let e=G_(n.horizontalLayout,t);e&&Object.assign(_.fittingRules,e)}if(n.verticalLayout){let e=k_(n.verticalLayout,t);e&&Object.assign(_.fittingRules,e)}return _.printDirection=n.printDirection!==null&&n.printDirection!==void 0?n.printDirection:t.printDirection,_}let S=async function(t,n,_){return S.text(t,n,_)};return S.text=async function(t,n,_){t=t+"";let e,T;typeof n=="function"?(T=n,e={font:l.font}):typeof n=="string"?(e={font:n},T=_):n?(e=n,T=_):(e={font:l.font},T=_);let o=e.font||l.font;try{let s=await S.loadFont(o),a=s?E_(o,A_(s,e),t):"";return T&&T(null,a),a}catch(s){let a=s instanceof Error?s:new Error(String(s));if(T)return T(a),"";throw a}},S.textSync=function(t,n){t=t+"",typeof n=="string"?n={font:n}:n=n||{};let _=n.font||l.font,e=A_(S.loadFontSync(_),n);return E_(_,e,t)},S.metadata=async function(t,n){t=t+"";try{let _=await S.loadFont(t);if(!_)throw new Error("Error loading font.");let e=j(t),T=c[e]||{},o=[_,T.comment||""];return n&&n(null,_,T.comment),o}catch(_){let e=_ instanceof Error?_:new Error(String(_));if(n)return n(e),null;throw e}},S.defaults=function(t){return t&&typeof t=="object"&&Object.assign(l,t),typeof structuredClone<"u"?structuredClone(l):JSON.parse(JSON.stringify(l))},S.parseFont=function(t,n,_=!0){if(c[t]&&!_)return c[t].options;n=n.replace(/\r\n/g,`
+`).replace(/\r/g,`
+`);let e=new J_,T=n.split(`
+`),o=T.shift();if(!o)throw new Error("Invalid font file: missing header");let s=o.split(" "),a={hardBlank:s[0].substring(5,6),height:parseInt(s[1],10),baseline:parseInt(s[2],10),maxLength:parseInt(s[3],10),oldLayout:parseInt(s[4],10),numCommentLines:parseInt(s[5],10),printDirection:s[6]?parseInt(s[6],10):0,fullLayout:s[7]?parseInt(s[7],10):null,codeTagCount:s[8]?parseInt(s[8],10):null};if((a.hardBlank||"").length!==1||[a.height,a.baseline,a.maxLength,a.oldLayout,a.numCommentLines].some(A=>A==null||isNaN(A)))throw new Error("FIGlet header contains invalid values.");if(a.height==null||a.numCommentLines==null)throw new Error("FIGlet header contains invalid values.");if(a.height<1||a.baseline<0||a.maxLength<0||a.numCommentLines<0)throw new Error("FIGlet header contains invalid values.");a.fittingRules=I(a.oldLayout,a.fullLayout),e.options=a;let i=[];for(let A=32;A<=126;A++)i.push(A);if(i.push(196,214,220,228,246,252,223),T.length<a.numCommentLines+a.height*i.length)throw new Error(`FIGlet file is missing data. Line length: ${T.length}. Comment lines: ${a.numCommentLines}. Height: ${a.height}. Num chars: ${i.length}.`);for(e.comment=T.splice(0,a.numCommentLines).join(`
+`),e.numChars=0;T.length>0&&e.numChars<i.length;){let A=i[e.numChars];e[A]=T.splice(0,a.height);for(let d=0;d<a.height;d++)typeof e[A][d]>"u"?e[A][d]="":e[A][d]=R(e[A][d],d,a.height);e.numChars++}for(;T.length>0;){let A=T.shift();if(!A||A.trim()==="")break;let d=A.split(" ")[0],h;if(/^-?0[xX][0-9a-fA-F]+$/.test(d))h=parseInt(d,16);else if(/^-?0[0-7]+$/.test(d))h=parseInt(d,8);else if(/^-?[0-9]+$/.test(d))h=parseInt(d,10);else throw new Error(`Error parsing data. Invalid data: ${d}`);if(h===-1||h<-2147483648||h>2147483647)throw new Error(`Error parsing data. ${h===-1?"The char code -1 is not permitted.":`The char code cannot be ${h<-2147483648?"less than -2147483648":"greater than 2147483647"}.`}`);e[h]=T.splice(0,a.height);for(let m=0;m<a.height;m++)typeof e[h][m]>"u"?e[h][m]="":e[h][m]=R(e[h][m],m,a.height);e.numChars++}return c[t]=e,a},S.loadedFonts=()=>Object.keys(c),S.clearLoadedFonts=()=>{Object.keys(c).forEach(t=>{delete c[t]})},S.loadFont=async function(t,n){let _=j(t);if(c[_]){let e=c[_].options;return n&&n(null,e),Promise.resolve(e)}try{if(!l.fetchFontIfMissing)throw new Error(`Font is not loaded: ${_}`);let e=await fetch(`${l.fontPath}/${_}.flf`);if(!e.ok)throw new Error(`Network response was not ok: ${e.status}`);let T=await e.text(),o=S.parseFont(_,T);return n&&n(null,o),o}catch(e){let T=e instanceof Error?e:new Error(String(e));if(n)return n(T),null;throw T}},S.loadFontSync=function(t){let n=j(t);if(c[n])return c[n].options;throw new Error("Synchronous font loading is not implemented for the browser, it will only work for fonts already loaded.")},S.preloadFonts=async function(t,n){try{for(let _ of t){let e=j(_),T=await fetch(`${l.fontPath}/${e}.flf`);if(!T.ok)throw new Error(`Failed to preload fonts. Error fetching font: ${e}, status code: ${T.statusText}`);let o=await T.text();S.parseFont(e,o)}n&&n()}catch(_){let e=_ instanceof Error?_:new Error(String(_));if(n){n(e);return}throw _}},S.fonts=function(t){return new Promise(function(n,_){n(o_),t&&t(null,o_)})},S.fontsSync=function(){return o_},S.figFonts=c,S})();var f_=`flf2a$ 7 7 13 0 7 0 64 0
+Font Author: ?
+
+More Info:
+
+https://web.archive.org/web/20120819044459/http://www.roysac.com/thedrawfonts-tdf.asp
+
+FIGFont created with: http://patorjk.com/figfont-editor
+$  $@
+$  $@
+$  $@
+$  $@
+$  $@
+$  $@
+$  $@@
+\u2588\u2588\u2557@
+\u2588\u2588\u2551@
+\u2588\u2588\u2551@
+\u255A\u2550\u255D@
+\u2588\u2588\u2557@
+\u255A\u2550\u255D@
+   @@
+@
+@
+@
+@
+@
+@
+@@
+ \u2588\u2588\u2557 \u2588\u2588\u2557 @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2588\u2588\u2554\u2550\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2588\u2588\u2554\u2550\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u255D \u255A\u2550\u255D @
+         @@
+\u2584\u2584\u2588\u2588\u2588\u2584\u2584\xB7@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u255A\u2550\u2580\u2580\u2580\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2557 \u2588\u2588\u2557@
+\u255A\u2550\u255D\u2588\u2588\u2554\u255D@
+  \u2588\u2588\u2554\u255D @
+ \u2588\u2588\u2554\u255D  @
+\u2588\u2588\u2554\u255D\u2588\u2588\u2557@
+\u255A\u2550\u255D \u255A\u2550\u255D@
+       @@
+   \u2588\u2588\u2557   @
+   \u2588\u2588\u2551   @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2588\u2588\u2554\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2551  @
+\u255A\u2550\u2550\u2550\u2550\u2550\u255D  @
+         @@
+@
+@
+@
+@
+@
+@
+@@
+ \u2588\u2588\u2557@
+\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2551 @
+\u2588\u2588\u2551 @
+\u255A\u2588\u2588\u2557@
+ \u255A\u2550\u255D@
+    @@
+\u2588\u2588\u2557 @
+\u255A\u2588\u2588\u2557@
+ \u2588\u2588\u2551@
+ \u2588\u2588\u2551@
+\u2588\u2588\u2554\u255D@
+\u255A\u2550\u255D @
+    @@
+      @
+\u2584 \u2588\u2588\u2557\u2584@
+ \u2588\u2588\u2588\u2588\u2557@
+\u2580\u255A\u2588\u2588\u2554\u2580@
+  \u255A\u2550\u255D @
+      @
+      @@
+@
+@
+@
+@
+@
+@
+@@
+   @
+   @
+   @
+   @
+\u2584\u2588\u2557@
+\u255A\u2550\u255D@
+   @@
+      @
+      @
+\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u255D@
+      @
+      @
+      @@
+   @
+   @
+   @
+   @
+\u2588\u2588\u2557@
+\u255A\u2550\u255D@
+   @@
+    \u2588\u2588\u2557@
+   \u2588\u2588\u2554\u255D@
+  \u2588\u2588\u2554\u255D @
+ \u2588\u2588\u2554\u255D  @
+\u2588\u2588\u2554\u255D   @
+\u255A\u2550\u255D    @
+       @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2551\u2588\u2588\u2554\u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2554\u255D\u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+ \u2588\u2588\u2557@
+\u2588\u2588\u2588\u2551@
+\u255A\u2588\u2588\u2551@
+ \u2588\u2588\u2551@
+ \u2588\u2588\u2551@
+ \u255A\u2550\u255D@
+    @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2557@
+ \u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2550\u255D @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2557@
+ \u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+        @@
+\u2588\u2588\u2557  \u2588\u2588\u2557@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2551@
+     \u2588\u2588\u2551@
+     \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2588\u2588\u2557@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2551@
+    \u2588\u2588\u2554\u255D@
+   \u2588\u2588\u2554\u255D @
+   \u2588\u2588\u2551  @
+   \u255A\u2550\u255D  @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u255D @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+ \u255A\u2550\u2550\u2550\u2588\u2588\u2551@
+ \u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u255D @
+        @@
+   @
+\u2588\u2588\u2557@
+\u255A\u2550\u255D@
+\u2588\u2588\u2557@
+\u255A\u2550\u255D@
+   @
+   @@
+   @
+\u2588\u2588\u2557@
+\u255A\u2550\u255D@
+\u2584\u2588\u2557@
+\u2580\u2550\u255D@
+   @
+   @@
+  \u2588\u2588\u2557@
+ \u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u255D @
+\u255A\u2588\u2588\u2557 @
+ \u255A\u2588\u2588\u2557@
+  \u255A\u2550\u255D@
+     @@
+@
+@
+@
+@
+@
+@
+@@
+\u2588\u2588\u2557  @
+\u255A\u2588\u2588\u2557 @
+ \u255A\u2588\u2588\u2557@
+ \u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u255D @
+\u255A\u2550\u255D  @
+     @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2557@
+  \u2584\u2588\u2588\u2588\u2554\u255D@
+  \u2580\u2580\u2550\u2550\u255D @
+  \u2588\u2588\u2557   @
+  \u255A\u2550\u255D   @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551\u2588\u2588\u2557\u2588\u2588\u2551@
+\u2588\u2588\u2551\u2588\u2588\u2551\u2588\u2588\u2551@
+\u255A\u2588\u2551\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u255D\u255A\u2550\u2550\u2550\u255D @
+         @@
+ \u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2551     @
+\u2588\u2588\u2551     @
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2557  @
+\u2588\u2588\u2554\u2550\u2550\u255D  @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2557  @
+\u2588\u2588\u2554\u2550\u2550\u255D  @
+\u2588\u2588\u2551     @
+\u255A\u2550\u255D     @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D @
+\u2588\u2588\u2551  \u2588\u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+\u2588\u2588\u2557  \u2588\u2588\u2557@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2557@
+\u2588\u2588\u2551@
+\u2588\u2588\u2551@
+\u2588\u2588\u2551@
+\u2588\u2588\u2551@
+\u255A\u2550\u255D@
+   @@
+     \u2588\u2588\u2557@
+     \u2588\u2588\u2551@
+     \u2588\u2588\u2551@
+\u2588\u2588   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u255D @
+        @@
+\u2588\u2588\u2557  \u2588\u2588\u2557@
+\u2588\u2588\u2551 \u2588\u2588\u2554\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2554\u255D @
+\u2588\u2588\u2554\u2550\u2588\u2588\u2557 @
+\u2588\u2588\u2551  \u2588\u2588\u2557@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2557     @
+\u2588\u2588\u2551     @
+\u2588\u2588\u2551     @
+\u2588\u2588\u2551     @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2557   \u2588\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2557 \u2588\u2588\u2588\u2588\u2551@
+\u2588\u2588\u2554\u2588\u2588\u2588\u2588\u2554\u2588\u2588\u2551@
+\u2588\u2588\u2551\u255A\u2588\u2588\u2554\u255D\u2588\u2588\u2551@
+\u2588\u2588\u2551 \u255A\u2550\u255D \u2588\u2588\u2551@
+\u255A\u2550\u255D     \u255A\u2550\u255D@
+           @@
+\u2588\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2557  \u2588\u2588\u2551@
+\u2588\u2588\u2554\u2588\u2588\u2557 \u2588\u2588\u2551@
+\u2588\u2588\u2551\u255A\u2588\u2588\u2557\u2588\u2588\u2551@
+\u2588\u2588\u2551 \u255A\u2588\u2588\u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u2550\u2550\u255D@
+          @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2550\u255D @
+\u2588\u2588\u2551     @
+\u255A\u2550\u255D     @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551\u2584\u2584 \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2580\u2580\u2550\u255D @
+         @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2588\u2588\u2554\u2550\u2550\u255D@
+   \u2588\u2588\u2551   @
+   \u2588\u2588\u2551   @
+   \u2588\u2588\u2551   @
+   \u255A\u2550\u255D   @
+         @@
+\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2557 \u2588\u2588\u2554\u255D@
+ \u255A\u2588\u2588\u2588\u2588\u2554\u255D @
+  \u255A\u2550\u2550\u2550\u255D  @
+         @@
+\u2588\u2588\u2557    \u2588\u2588\u2557@
+\u2588\u2588\u2551    \u2588\u2588\u2551@
+\u2588\u2588\u2551 \u2588\u2557 \u2588\u2588\u2551@
+\u2588\u2588\u2551\u2588\u2588\u2588\u2557\u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2554\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u255D\u255A\u2550\u2550\u255D @
+          @@
+\u2588\u2588\u2557  \u2588\u2588\u2557@
+\u255A\u2588\u2588\u2557\u2588\u2588\u2554\u255D@
+ \u255A\u2588\u2588\u2588\u2554\u255D @
+ \u2588\u2588\u2554\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u255D \u2588\u2588\u2557@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u255A\u2588\u2588\u2557 \u2588\u2588\u2554\u255D@
+ \u255A\u2588\u2588\u2588\u2588\u2554\u255D @
+  \u255A\u2588\u2588\u2554\u255D  @
+   \u2588\u2588\u2551   @
+   \u255A\u2550\u255D   @
+         @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2588\u2588\u2588\u2554\u255D@
+  \u2588\u2588\u2588\u2554\u255D @
+ \u2588\u2588\u2588\u2554\u255D  @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2551 @
+\u2588\u2588\u2551 @
+\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u255D@
+    @@
+@
+@
+@
+@
+@
+@
+@@
+\u2588\u2588\u2588\u2557@
+\u255A\u2588\u2588\u2551@
+ \u2588\u2588\u2551@
+ \u2588\u2588\u2551@
+\u2588\u2588\u2588\u2551@
+\u255A\u2550\u2550\u255D@
+    @@
+ \u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2588\u2588\u2557@
+\u255A\u2550\u255D\u255A\u2550\u255D@
+      @
+      @
+      @
+      @@
+        @
+        @
+        @
+        @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+@
+@
+@
+@
+@
+@
+@@
+ \u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2551     @
+\u2588\u2588\u2551     @
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2557  @
+\u2588\u2588\u2554\u2550\u2550\u255D  @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2557  @
+\u2588\u2588\u2554\u2550\u2550\u255D  @
+\u2588\u2588\u2551     @
+\u255A\u2550\u255D     @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D @
+\u2588\u2588\u2551  \u2588\u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+\u2588\u2588\u2557  \u2588\u2588\u2557@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2557@
+\u2588\u2588\u2551@
+\u2588\u2588\u2551@
+\u2588\u2588\u2551@
+\u2588\u2588\u2551@
+\u255A\u2550\u255D@
+   @@
+     \u2588\u2588\u2557@
+     \u2588\u2588\u2551@
+     \u2588\u2588\u2551@
+\u2588\u2588   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u255D @
+        @@
+\u2588\u2588\u2557  \u2588\u2588\u2557@
+\u2588\u2588\u2551 \u2588\u2588\u2554\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2554\u255D @
+\u2588\u2588\u2554\u2550\u2588\u2588\u2557 @
+\u2588\u2588\u2551  \u2588\u2588\u2557@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2557     @
+\u2588\u2588\u2551     @
+\u2588\u2588\u2551     @
+\u2588\u2588\u2551     @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2557   \u2588\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2557 \u2588\u2588\u2588\u2588\u2551@
+\u2588\u2588\u2554\u2588\u2588\u2588\u2588\u2554\u2588\u2588\u2551@
+\u2588\u2588\u2551\u255A\u2588\u2588\u2554\u255D\u2588\u2588\u2551@
+\u2588\u2588\u2551 \u255A\u2550\u255D \u2588\u2588\u2551@
+\u255A\u2550\u255D     \u255A\u2550\u255D@
+           @@
+\u2588\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2557  \u2588\u2588\u2551@
+\u2588\u2588\u2554\u2588\u2588\u2557 \u2588\u2588\u2551@
+\u2588\u2588\u2551\u255A\u2588\u2588\u2557\u2588\u2588\u2551@
+\u2588\u2588\u2551 \u255A\u2588\u2588\u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u2550\u2550\u255D@
+          @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2550\u255D @
+\u2588\u2588\u2551     @
+\u255A\u2550\u255D     @
+        @@
+ \u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551\u2584\u2584 \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2580\u2580\u2550\u255D @
+         @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+\u2588\u2588\u2554\u2550\u2550\u2588\u2588\u2557@
+\u2588\u2588\u2551  \u2588\u2588\u2551@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u2588\u2588\u2554\u2550\u2550\u2550\u2550\u255D@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2588\u2588\u2551@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2551@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2588\u2588\u2554\u2550\u2550\u255D@
+   \u2588\u2588\u2551   @
+   \u2588\u2588\u2551   @
+   \u2588\u2588\u2551   @
+   \u255A\u2550\u255D   @
+         @@
+\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u2550\u2550\u2550\u255D @
+         @@
+\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u2588\u2588\u2551   \u2588\u2588\u2551@
+\u255A\u2588\u2588\u2557 \u2588\u2588\u2554\u255D@
+ \u255A\u2588\u2588\u2588\u2588\u2554\u255D @
+  \u255A\u2550\u2550\u2550\u255D  @
+         @@
+\u2588\u2588\u2557    \u2588\u2588\u2557@
+\u2588\u2588\u2551    \u2588\u2588\u2551@
+\u2588\u2588\u2551 \u2588\u2557 \u2588\u2588\u2551@
+\u2588\u2588\u2551\u2588\u2588\u2588\u2557\u2588\u2588\u2551@
+\u255A\u2588\u2588\u2588\u2554\u2588\u2588\u2588\u2554\u255D@
+ \u255A\u2550\u2550\u255D\u255A\u2550\u2550\u255D @
+          @@
+\u2588\u2588\u2557  \u2588\u2588\u2557@
+\u255A\u2588\u2588\u2557\u2588\u2588\u2554\u255D@
+ \u255A\u2588\u2588\u2588\u2554\u255D @
+ \u2588\u2588\u2554\u2588\u2588\u2557 @
+\u2588\u2588\u2554\u255D \u2588\u2588\u2557@
+\u255A\u2550\u255D  \u255A\u2550\u255D@
+        @@
+\u2588\u2588\u2557   \u2588\u2588\u2557@
+\u255A\u2588\u2588\u2557 \u2588\u2588\u2554\u255D@
+ \u255A\u2588\u2588\u2588\u2588\u2554\u255D @
+  \u255A\u2588\u2588\u2554\u255D  @
+   \u2588\u2588\u2551   @
+   \u255A\u2550\u255D   @
+         @@
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2588\u2588\u2588\u2554\u255D@
+  \u2588\u2588\u2588\u2554\u255D @
+ \u2588\u2588\u2588\u2554\u255D  @
+\u2588\u2588\u2588\u2588\u2588\u2588\u2588\u2557@
+\u255A\u2550\u2550\u2550\u2550\u2550\u2550\u255D@
+        @@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@
+@
+@
+@
+@
+@
+@
+@@`;var m_=`flf2a$ 5 4 14 15 10 0 22415
+SmSlant by Glenn Chappell 6/93 - based on Small & Slant
+Includes ISO Latin-1
+figlet release 2.1 -- 12 Aug 1994
+Permission is hereby given to modify this font, as long as the
+modifier's name is placed on a comment line.
+
+Modified by Paul Burton <solution@earthlink.net> 12/96 to include new parameter
+supported by FIGlet and FIGWin.  May also be slightly modified for better use
+of new full-width/kern/smush alternatives, but default output is NOT changed.
+
+    $@
+   $ @
+  $  @
+ $   @
+$    @@
+   __@
+  / /@
+ /_/ @
+(_)  @
+     @@
+ _ _ @
+( | )@
+|/|/ @
+$    @
+     @@
+     ____ @
+  __/ / /_@
+ /_  . __/@
+/_    __/ @
+ /_/_/    @@
+     @
+  _//@
+ (_-<@
+/ __/@
+//   @@
+ _   __@
+(_)_/_/@
+ _/_/_ @
+/_/ (_)@
+       @@
+  ____   @
+ / __/___@
+ > _/_ _/@
+|_____/  @
+         @@
+ _ @
+( )@
+|/ @
+$  @
+   @@
+    __@
+  _/_/@
+ / /  @
+/ /   @
+|_|   @@
+    _ @
+   | |@
+   / /@
+ _/_/ @
+/_/   @@
+    @
+ _/|@
+> _<@
+|/  @
+    @@
+    __ @
+ __/ /_@
+/_  __/@
+ /_/   @
+       @@
+   @
+   @
+ _ @
+( )@
+|/ @@
+     @
+ ____@
+/___/@
+ $   @
+     @@
+   @
+   @
+ _ @
+(_)@
+   @@
+     __@
+   _/_/@
+ _/_/  @
+/_/    @
+       @@
+  ___ @
+ / _ \\@
+/ // /@
+\\___/ @
+      @@
+  ___@
+ <  /@
+ / / @
+/_/  @
+     @@
+   ___ @
+  |_  |@
+ / __/ @
+/____/ @
+       @@
+   ____@
+  |_  /@
+ _/_ < @
+/____/ @
+       @@
+  ____@
+ / / /@
+/_  _/@
+ /_/  @
+      @@
+   ____@
+  / __/@
+ /__ \\ @
+/____/ @
+       @@
+  ____@
+ / __/@
+/ _ \\ @
+\\___/ @
+      @@
+ ____@
+/_  /@
+ / / @
+/_/  @
+     @@
+  ___ @
+ ( _ )@
+/ _  |@
+\\___/ @
+      @@
+  ___ @
+ / _ \\@
+ \\_, /@
+/___/ @
+      @@
+   _ @
+  (_)@
+ _   @
+(_)  @
+     @@
+   _ @
+  (_)@
+ _   @
+( )  @
+|/   @@
+  __@
+ / /@
+< < @
+ \\_\\@
+    @@
+      @
+  ____@
+ /___/@
+/___/ @
+      @@
+__  @
+\\ \\ @
+ > >@
+/_/ @
+    @@
+ ___ @
+/__ \\@
+ /__/@
+(_)  @
+     @@
+  _____ @
+ / ___ \\@
+/ / _ \`/@
+\\ \\_,_/ @
+ \\___/  @@
+   ___ @
+  / _ |@
+ / __ |@
+/_/ |_|@
+       @@
+   ___ @
+  / _ )@
+ / _  |@
+/____/ @
+       @@
+  _____@
+ / ___/@
+/ /__  @
+\\___/  @
+       @@
+   ___ @
+  / _ \\@
+ / // /@
+/____/ @
+       @@
+   ____@
+  / __/@
+ / _/  @
+/___/  @
+       @@
+   ____@
+  / __/@
+ / _/  @
+/_/    @
+       @@
+  _____@
+ / ___/@
+/ (_ / @
+\\___/  @
+       @@
+   __ __@
+  / // /@
+ / _  / @
+/_//_/  @
+        @@
+   ____@
+  /  _/@
+ _/ /  @
+/___/  @
+       @@
+     __@
+ __ / /@
+/ // / @
+\\___/  @
+       @@
+   __ __@
+  / //_/@
+ / ,<   @
+/_/|_|  @
+        @@
+   __ @
+  / / @
+ / /__@
+/____/@
+      @@
+   __  ___@
+  /  |/  /@
+ / /|_/ / @
+/_/  /_/  @
+          @@
+   _  __@
+  / |/ /@
+ /    / @
+/_/|_/  @
+        @@
+  ____ @
+ / __ \\@
+/ /_/ /@
+\\____/ @
+       @@
+   ___ @
+  / _ \\@
+ / ___/@
+/_/    @
+       @@
+  ____ @
+ / __ \\@
+/ /_/ /@
+\\___\\_\\@
+       @@
+   ___ @
+  / _ \\@
+ / , _/@
+/_/|_| @
+       @@
+   ____@
+  / __/@
+ _\\ \\  @
+/___/  @
+       @@
+ ______@
+/_  __/@
+ / /   @
+/_/    @
+       @@
+  __  __@
+ / / / /@
+/ /_/ / @
+\\____/  @
+        @@
+  _   __@
+ | | / /@
+ | |/ / @
+ |___/  @
+        @@
+  _      __@
+ | | /| / /@
+ | |/ |/ / @
+ |__/|__/  @
+           @@
+   _  __@
+  | |/_/@
+ _>  <  @
+/_/|_|  @
+        @@
+ __  __@
+ \\ \\/ /@
+  \\  / @
+  /_/  @
+       @@
+  ____@
+ /_  /@
+  / /_@
+ /___/@
+      @@
+    ___@
+   / _/@
+  / /  @
+ / /   @
+/__/   @@
+__   @
+\\ \\  @
+ \\ \\ @
+  \\_\\@
+     @@
+    ___@
+   /  /@
+   / / @
+ _/ /  @
+/__/   @@
+ //|@
+|/||@
+ $  @
+$   @
+    @@
+     @
+     @
+     @
+ ____@
+/___/@@
+ _ @
+( )@
+ V @
+$  @
+   @@
+      @
+ ___ _@
+/ _ \`/@
+\\_,_/ @
+      @@
+   __ @
+  / / @
+ / _ \\@
+/_.__/@
+      @@
+     @
+ ____@
+/ __/@
+\\__/ @
+     @@
+     __@
+ ___/ /@
+/ _  / @
+\\_,_/  @
+       @@
+     @
+ ___ @
+/ -_)@
+\\__/ @
+     @@
+   ___@
+  / _/@
+ / _/ @
+/_/   @
+      @@
+       @
+  ___ _@
+ / _ \`/@
+ \\_, / @
+/___/  @@
+   __ @
+  / / @
+ / _ \\@
+/_//_/@
+      @@
+   _ @
+  (_)@
+ / / @
+/_/  @
+     @@
+      _ @
+     (_)@
+    / / @
+ __/ /  @
+|___/   @@
+   __  @
+  / /__@
+ /  '_/@
+/_/\\_\\ @
+       @@
+   __@
+  / /@
+ / / @
+/_/  @
+     @@
+       @
+  __ _ @
+ /  ' \\@
+/_/_/_/@
+       @@
+      @
+  ___ @
+ / _ \\@
+/_//_/@
+      @@
+     @
+ ___ @
+/ _ \\@
+\\___/@
+     @@
+       @
+   ___ @
+  / _ \\@
+ / .__/@
+/_/    @@
+      @
+ ___ _@
+/ _ \`/@
+\\_, / @
+ /_/  @@
+      @
+  ____@
+ / __/@
+/_/   @
+      @@
+     @
+  ___@
+ (_-<@
+/___/@
+     @@
+  __ @
+ / /_@
+/ __/@
+\\__/ @
+     @@
+      @
+ __ __@
+/ // /@
+\\_,_/ @
+      @@
+      @
+ _  __@
+| |/ /@
+|___/ @
+      @@
+        @
+ _    __@
+| |/|/ /@
+|__,__/ @
+        @@
+      @
+ __ __@
+ \\ \\ /@
+/_\\_\\ @
+      @@
+       @
+  __ __@
+ / // /@
+ \\_, / @
+/___/  @@
+    @
+ ___@
+/_ /@
+/__/@
+    @@
+    __@
+  _/_/@
+_/ /  @
+/ /   @
+\\_\\   @@
+    __@
+   / /@
+  / / @
+ / /  @
+/_/   @@
+   __  @
+   \\ \\ @
+   / /_@
+ _/_/  @
+/_/    @@
+ /\\//@
+//\\/ @
+ $   @
+$    @
+     @@
+   _  _ @
+  (_)(_)@
+ / - |  @
+/_/|_|  @
+        @@
+  _   _ @
+ (_)_(_)@
+/ __ \\  @
+\\____/  @
+        @@
+  _   _ @
+ (_) (_)@
+/ /_/ / @
+\\____/  @
+        @@
+  _  _ @
+ (_)(_)@
+/ _ \`/ @
+\\_,_/  @
+       @@
+  _  _ @
+ (_)(_)@
+/ _ \\  @
+\\___/  @
+       @@
+  _  _ @
+ (_)(_)@
+/ // / @
+\\_,_/  @
+       @@
+    ____ @
+   / _  )@
+  / /< < @
+ / //__/ @
+/_/      @@
+160  NO-BREAK SPACE
+    $@
+   $ @
+  $  @
+ $   @
+$    @@
+161  INVERTED EXCLAMATION MARK
+   _ @
+  (_)@
+ / / @
+/_/  @
+     @@
+162  CENT SIGN
+     @
+ __//@
+/ __/@
+\\ _/ @
+//   @@
+163  POUND SIGN
+     __ @
+  __/__|@
+ /_ _/_ @
+(_,___/ @
+        @@
+164  CURRENCY SIGN
+   /|_/|@
+  | . / @
+ /_  |  @
+|/ |/   @
+        @@
+165  YEN SIGN
+    ____@
+  _| / /@
+ /_  __/@
+/_  __/ @
+ /_/    @@
+166  BROKEN BAR
+    __@
+   / /@
+  /_/ @
+ / /  @
+/_/   @@
+167  SECTION SIGN
+     __ @
+   _/ _)@
+  / | | @
+ | |_/  @
+(__/    @@
+168  DIAERESIS
+ _   _ @
+(_) (_)@
+ $   $ @
+$   $  @
+       @@
+169  COPYRIGHT SIGN
+   ____  @
+  / ___\\ @
+ / / _/ |@
+| |__/ / @
+ \\____/  @@
+170  FEMININE ORDINAL INDICATOR
+   ___ _@
+  / _ \`/@
+ _\\_,_/ @
+/____/  @
+        @@
+171  LEFT-POINTING DOUBLE ANGLE QUOTATION MARK
+  ____@
+ / / /@
+< < < @
+ \\_\\_\\@
+      @@
+172  NOT SIGN
+     @
+ ____@
+/_  /@
+ /_/ @
+     @@
+173  SOFT HYPHEN
+    @
+ ___@
+/__/@
+ $  @
+    @@
+174  REGISTERED SIGN
+   ____  @
+  / __ \\ @
+ / / -) |@
+| //\\\\ / @
+ \\____/  @@
+175  MACRON
+ ____@
+/___/@
+ $   @
+$    @
+     @@
+176  DEGREE SIGN
+  __ @
+ /. |@
+|__/ @
+ $   @
+     @@
+177  PLUS-MINUS SIGN
+      __ @
+   __/ /_@
+  /_  __/@
+ __/_/_  @
+/_____/  @@
+178  SUPERSCRIPT TWO
+  __ @
+ |_ )@
+/__| @
+ $   @
+     @@
+179  SUPERSCRIPT THREE
+  ___@
+ |_ /@
+/__) @
+ $   @
+     @@
+180  ACUTE ACCENT
+ __@
+/_/@
+ $ @
+$  @
+   @@
+181  MICRO SIGN
+        @
+   __ __@
+  / // /@
+ / .,_/ @
+/_/     @@
+182  PILCROW SIGN
+  _____@
+ /    /@
+|_ / / @
+/_/_/  @
+       @@
+183  MIDDLE DOT
+   @
+ _ @
+(_)@
+$  @
+   @@
+184  CEDILLA
+   @
+   @
+   @
+ _ @
+/_)@@
+185  SUPERSCRIPT ONE
+  __@
+ < /@
+/_/ @
+$   @
+    @@
+186  MASCULINE ORDINAL INDICATOR
+   ___ @
+  / _ \\@
+ _\\___/@
+/____/ @
+       @@
+187  RIGHT-POINTING DOUBLE ANGLE QUOTATION MARK
+____  @
+\\ \\ \\ @
+ > > >@
+/_/_/ @
+      @@
+188  VULGAR FRACTION ONE QUARTER
+  __  __   @
+ < /_/_/___@
+/_//_//_' /@
+ /_/   /_/ @
+           @@
+189  VULGAR FRACTION ONE HALF
+  __  __  @
+ < /_/_/_ @
+/_//_/|_ )@
+ /_/ /__| @
+          @@
+190  VULGAR FRACTION THREE QUARTERS
+  ___  __   @
+ |_ /_/_/___@
+/__)/_//_' /@
+  /_/   /_/ @
+            @@
+191  INVERTED QUESTION MARK
+   _ @
+ _(_)@
+/ _/_@
+\\___/@
+     @@
+192  LATIN CAPITAL LETTER A WITH GRAVE
+   __ @
+  _\\_\\@
+ / - |@
+/_/|_|@
+      @@
+193  LATIN CAPITAL LETTER A WITH ACUTE
+    __@
+  _/_/@
+ / - |@
+/_/|_|@
+      @@
+194  LATIN CAPITAL LETTER A WITH CIRCUMFLEX
+    //|@
+  _|/||@
+ / - | @
+/_/|_| @
+       @@
+195  LATIN CAPITAL LETTER A WITH TILDE
+    /\\//@
+  _//\\/ @
+ / - |  @
+/_/|_|  @
+        @@
+196  LATIN CAPITAL LETTER A WITH DIAERESIS
+   _  _ @
+  (_)(_)@
+ / - |  @
+/_/|_|  @
+        @@
+197  LATIN CAPITAL LETTER A WITH RING ABOVE
+   (())@
+  / _ |@
+ / __ |@
+/_/ |_|@
+       @@
+198  LATIN CAPITAL LETTER AE
+   _______@
+  / _  __/@
+ / _  _/  @
+/_//___/  @
+          @@
+199  LATIN CAPITAL LETTER C WITH CEDILLA
+  _____@
+ / ___/@
+/ /__  @
+\\___/  @
+/_)    @@
+200  LATIN CAPITAL LETTER E WITH GRAVE
+  __ @
+  \\_\\@
+ / -<@
+/__< @
+     @@
+201  LATIN CAPITAL LETTER E WITH ACUTE
+    __@
+  _/_/@
+ / -< @
+/__<  @
+      @@
+202  LATIN CAPITAL LETTER E WITH CIRCUMFLEX
+   //|@
+  |/||@
+ / -< @
+/__<  @
+      @@
+203  LATIN CAPITAL LETTER E WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+ / -<  @
+/__<   @
+       @@
+204  LATIN CAPITAL LETTER I WITH GRAVE
+   __  @
+  _\\_\\ @
+ /_ __/@
+/____/ @
+       @@
+205  LATIN CAPITAL LETTER I WITH ACUTE
+     __@
+  __/_/@
+ /_ __/@
+/____/ @
+       @@
+206  LATIN CAPITAL LETTER I WITH CIRCUMFLEX
+    //|@
+  _|/||@
+ /_ __/@
+/____/ @
+       @@
+207  LATIN CAPITAL LETTER I WITH DIAERESIS
+   _  _ @
+  (_)(_)@
+ /_ __/ @
+/____/  @
+        @@
+208  LATIN CAPITAL LETTER ETH
+   ____ @
+ _/ __ \\@
+/_ _// /@
+/_____/ @
+        @@
+209  LATIN CAPITAL LETTER N WITH TILDE
+     /\\//@
+  __//\\/ @
+ /  |/ / @
+/_/|__/  @
+         @@
+210  LATIN CAPITAL LETTER O WITH GRAVE
+  __  @
+ _\\_\\ @
+/ __ \\@
+\\____/@
+      @@
+211  LATIN CAPITAL LETTER O WITH ACUTE
+    __@
+ __/_/@
+/ __ \\@
+\\____/@
+      @@
+212  LATIN CAPITAL LETTER O WITH CIRCUMFLEX
+   //|@
+ _|/||@
+/ __ \\@
+\\____/@
+      @@
+213  LATIN CAPITAL LETTER O WITH TILDE
+   /\\//@
+ _//\\/ @
+/ __ \\ @
+\\____/ @
+       @@
+214  LATIN CAPITAL LETTER O WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+/ __ \\  @
+\\____/  @
+        @@
+215  MULTIPLICATION SIGN
+     @
+ /|/|@
+ > < @
+|/|/ @
+     @@
+216  LATIN CAPITAL LETTER O WITH STROKE
+  _____ @
+ / _// \\@
+/ //// /@
+\\_//__/ @
+        @@
+217  LATIN CAPITAL LETTER U WITH GRAVE
+   __  @
+ __\\_\\ @
+/ /_/ /@
+\\____/ @
+       @@
+218  LATIN CAPITAL LETTER U WITH ACUTE
+     __@
+ __ /_/@
+/ /_/ /@
+\\____/ @
+       @@
+219  LATIN CAPITAL LETTER U WITH CIRCUMFLEX
+    //|@
+ __|/||@
+/ /_/ /@
+\\____/ @
+       @@
+220  LATIN CAPITAL LETTER U WITH DIAERESIS
+  _   _ @
+ (_) (_)@
+/ /_/ / @
+\\____/  @
+        @@
+221  LATIN CAPITAL LETTER Y WITH ACUTE
+   __@
+__/_/@
+\\ V /@
+ /_/ @
+     @@
+222  LATIN CAPITAL LETTER THORN
+   __ @
+  / / @
+ / -_)@
+/_/   @
+      @@
+223  LATIN SMALL LETTER SHARP S
+    ____ @
+   / _  )@
+  / /< < @
+ / //__/ @
+/_/      @@
+224  LATIN SMALL LETTER A WITH GRAVE
+  __  @
+ _\\_\\_@
+/ _ \`/@
+\\_,_/ @
+      @@
+225  LATIN SMALL LETTER A WITH ACUTE
+    __@
+ __/_/@
+/ _ \`/@
+\\_,_/ @
+      @@
+226  LATIN SMALL LETTER A WITH CIRCUMFLEX
+   //|@
+ _|/||@
+/ _ \`/@
+\\_,_/ @
+      @@
+227  LATIN SMALL LETTER A WITH TILDE
+   /\\//@
+ _//\\/ @
+/ _ \`/ @
+\\_,_/  @
+       @@
+228  LATIN SMALL LETTER A WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+/ _ \`/ @
+\\_,_/  @
+       @@
+229  LATIN SMALL LETTER A WITH RING ABOVE
+   __ @
+ _(())@
+/ _ \`/@
+\\_,_/ @
+      @@
+230  LATIN SMALL LETTER AE
+         @
+ ___ ___ @
+/ _ \` -_)@
+\\_,____/ @
+         @@
+231  LATIN SMALL LETTER C WITH CEDILLA
+     @
+ ____@
+/ __/@
+\\__/ @
+/_)  @@
+232  LATIN SMALL LETTER E WITH GRAVE
+  __ @
+ _\\_\\@
+/ -_)@
+\\__/ @
+     @@
+233  LATIN SMALL LETTER E WITH ACUTE
+   __@
+ _/_/@
+/ -_)@
+\\__/ @
+     @@
+234  LATIN SMALL LETTER E WITH CIRCUMFLEX
+  //|@
+ |/||@
+/ -_)@
+\\__/ @
+     @@
+235  LATIN SMALL LETTER E WITH DIAERESIS
+ _  _ @
+(_)(_)@
+/ -_) @
+\\__/  @
+      @@
+236  LATIN SMALL LETTER I WITH GRAVE
+  __ @
+  \\_\\@
+ / / @
+/_/  @
+     @@
+237  LATIN SMALL LETTER I WITH ACUTE
+   __@
+  /_/@
+ / / @
+/_/  @
+     @@
+238  LATIN SMALL LETTER I WITH CIRCUMFLEX
+   //|@
+  |/||@
+ / /  @
+/_/   @
+      @@
+239  LATIN SMALL LETTER I WITH DIAERESIS
+ _   _ @
+(_)_(_)@
+ / /   @
+/_/    @
+       @@
+240  LATIN SMALL LETTER ETH
+   _||_@
+ __ || @
+/ _\` | @
+\\___/  @
+       @@
+241  LATIN SMALL LETTER N WITH TILDE
+    /\\//@
+  _//\\/ @
+ / _ \\  @
+/_//_/  @
+        @@
+242  LATIN SMALL LETTER O WITH GRAVE
+  __ @
+ _\\_\\@
+/ _ \\@
+\\___/@
+     @@
+243  LATIN SMALL LETTER O WITH ACUTE
+   __@
+ _/_/@
+/ _ \\@
+\\___/@
+     @@
+244  LATIN SMALL LETTER O WITH CIRCUMFLEX
+   //|@
+ _|/||@
+/ _ \\ @
+\\___/ @
+      @@
+245  LATIN SMALL LETTER O WITH TILDE
+   /\\//@
+ _//\\/ @
+/ _ \\  @
+\\___/  @
+       @@
+246  LATIN SMALL LETTER O WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+/ _ \\  @
+\\___/  @
+       @@
+247  DIVISION SIGN
+   _ @
+ _(_)@
+/___/@
+(_)  @
+     @@
+248  LATIN SMALL LETTER O WITH STROKE
+     @
+ ___ @
+/ //\\@
+\\//_/@
+     @@
+249  LATIN SMALL LETTER U WITH GRAVE
+   __ @
+ __\\_\\@
+/ // /@
+\\_,_/ @
+      @@
+250  LATIN SMALL LETTER U WITH ACUTE
+    __@
+ __/_/@
+/ // /@
+\\_,_/ @
+      @@
+251  LATIN SMALL LETTER U WITH CIRCUMFLEX
+   //|@
+ _|/||@
+/ // /@
+\\_,_/ @
+      @@
+252  LATIN SMALL LETTER U WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+/ // / @
+\\_,_/  @
+       @@
+253  LATIN SMALL LETTER Y WITH ACUTE
+     __@
+  __/_/@
+ / // /@
+ \\_, / @
+/___/  @@
+254  LATIN SMALL LETTER THORN
+    __ @
+   / / @
+  / _ \\@
+ / .__/@
+/_/    @@
+255  LATIN SMALL LETTER Y WITH DIAERESIS
+   _  _ @
+  (_)(_)@
+ / // / @
+ \\_, /  @
+/___/   @@
+`;var $_=`flf2a$ 4 3 10 0 10 0 1920
+Mini by Glenn Chappell 4/93
+Includes ISO Latin-1
+figlet release 2.1 -- 12 Aug 1994
+Permission is hereby given to modify this font, as long as the
+modifier's name is placed on a comment line.
+
+Modified by Paul Burton <solution@earthlink.net> 12/96 to include new parameter
+supported by FIGlet and FIGWin.  May also be slightly modified for better use
+of new full-width/kern/smush alternatives, but default output is NOT changed.
+
+$$@
+$$@
+$$@
+$$@@
+   @
+ |$@
+ o$@
+   @@
+    @
+ ||$@
+    @
+    @@
+       @
+ -|-|-$@
+ -|-|-$@
+       @@
+   _$@
+ (|$ @
+ _|)$@
+     @@
+    @
+ O/$@
+ /O$@
+    @@
+     @
+ ()$ @
+ (_X$@
+     @@
+   @
+ /$@
+   @
+   @@
+    @
+  /$@
+ |$ @
+  \\$@@
+    @
+ \\$ @
+  |$@
+ /$ @@
+     @
+ \\|/$@
+ /|\\$@
+     @@
+     @
+ _|_$@
+  |$ @
+     @@
+   @
+   @
+ o$@
+ /$@@
+    @
+ __$@
+    @
+    @@
+   @
+   @
+ o$@
+   @@
+    @
+  /$@
+ /$ @
+    @@
+  _$ @
+ / \\$@
+ \\_/$@
+     @@
+    @
+ /|$@
+  |$@
+    @@
+ _$ @
+  )$@
+ /_$@
+    @@
+ _$ @
+ _)$@
+ _)$@
+    @@
+      @
+ |_|_$@
+   |$ @
+      @@
+  _$ @
+ |_$ @
+  _)$@
+     @@
+  _$ @
+ |_$ @
+ |_)$@
+     @@
+ __$@
+  /$@
+ /$ @
+    @@
+  _$ @
+ (_)$@
+ (_)$@
+     @@
+  _$ @
+ (_|$@
+   |$@
+     @@
+   @
+ o$@
+ o$@
+   @@
+   @
+ o$@
+ o$@
+ /$@@
+   @
+ /$@
+ \\$@
+   @@
+    @
+ --$@
+ --$@
+    @@
+   @
+ \\$@
+ /$@
+   @@
+ _$ @
+  )$@
+ o$ @
+    @@
+   __$ @
+  /  \\$@
+ | (|/$@
+  \\__$ @@
+      @
+  /\\$ @
+ /--\\$@
+      @@
+  _$ @
+ |_)$@
+ |_)$@
+     @@
+  _$@
+ /$ @
+ \\_$@
+    @@
+  _$ @
+ | \\$@
+ |_/$@
+     @@
+  _$@
+ |_$@
+ |_$@
+    @@
+  _$@
+ |_$@
+ |$ @
+    @@
+  __$@
+ /__$@
+ \\_|$@
+     @@
+     @
+ |_|$@
+ | |$@
+     @@
+ ___$@
+  |$ @
+ _|_$@
+     @@
+     @
+   |$@
+ \\_|$@
+     @@
+    @
+ |/$@
+ |\\$@
+    @@
+    @
+ |$ @
+ |_$@
+    @@
+      @
+ |\\/|$@
+ |  |$@
+      @@
+      @
+ |\\ |$@
+ | \\|$@
+      @@
+  _$ @
+ / \\$@
+ \\_/$@
+     @@
+  _$ @
+ |_)$@
+ |$  @
+     @@
+  _$ @
+ / \\$@
+ \\_X$@
+     @@
+  _$ @
+ |_)$@
+ | \\$@
+     @@
+  __$@
+ (_$ @
+ __)$@
+     @@
+ ___$@
+  |$ @
+  |$ @
+     @@
+     @
+ | |$@
+ |_|$@
+     @@
+      @
+ \\  /$@
+  \\/$ @
+      @@
+        @
+ \\    /$@
+  \\/\\/$ @
+        @@
+    @
+ \\/$@
+ /\\$@
+    @@
+     @
+ \\_/$@
+  |$ @
+     @@
+ __$@
+  /$@
+ /_$@
+    @@
+  _$@
+ |$ @
+ |_$@
+    @@
+    @
+ \\$ @
+  \\$@
+    @@
+ _$ @
+  |$@
+ _|$@
+    @@
+ /\\$@
+    @
+    @
+    @@
+    @
+    @
+    @
+ __$@@
+   @
+ \\$@
+   @
+   @@
+     @
+  _.$@
+ (_|$@
+     @@
+     @
+ |_$ @
+ |_)$@
+     @@
+    @
+  _$@
+ (_$@
+    @@
+     @
+  _|$@
+ (_|$@
+     @@
+     @
+  _$ @
+ (/_$@
+     @@
+   _$@
+ _|_$@
+  |$ @
+     @@
+     @
+  _$ @
+ (_|$@
+  _|$@@
+     @
+ |_$ @
+ | |$@
+     @@
+   @
+ o$@
+ |$@
+   @@
+    @
+  o$@
+  |$@
+ _|$@@
+    @
+ |$ @
+ |<$@
+    @@
+   @
+ |$@
+ |$@
+   @@
+       @
+ ._ _$ @
+ | | |$@
+       @@
+     @
+ ._$ @
+ | |$@
+     @@
+     @
+  _$ @
+ (_)$@
+     @@
+     @
+ ._$ @
+ |_)$@
+ |$  @@
+     @
+  _.$@
+ (_|$@
+   |$@@
+    @
+ ._$@
+ |$ @
+    @@
+    @
+  _$@
+ _>$@
+    @@
+     @
+ _|_$@
+  |_$@
+     @@
+     @
+     @
+ |_|$@
+     @@
+    @
+    @
+ \\/$@
+    @@
+      @
+      @
+ \\/\\/$@
+      @@
+    @
+    @
+ ><$@
+    @@
+    @
+    @
+ \\/$@
+ /$ @@
+    @
+ _$ @
+ /_$@
+    @@
+  ,-$@
+ _|$ @
+  |$ @
+  \`-$@@
+ |$@
+ |$@
+ |$@
+ |$@@
+ -.$ @
+  |_$@
+  |$ @
+ -'$ @@
+ /\\/$@
+     @
+     @
+     @@
+ o  o$@
+  /\\$ @
+ /--\\$@
+      @@
+ o_o$@
+ / \\$@
+ \\_/$@
+     @@
+ o o$@
+ | |$@
+ |_|$@
+     @@
+ o o$@
+  _.$@
+ (_|$@
+     @@
+ o o$@
+  _$ @
+ (_)$@
+     @@
+ o o$@
+     @
+ |_|$@
+     @@
+  _$ @
+ | )$@
+ | )$@
+ |$  @@
+160  NO-BREAK SPACE
+ $$@
+ $$@
+ $$@
+ $$@@
+161  INVERTED EXCLAMATION MARK
+   @
+ o$@
+ |$@
+   @@
+162  CENT SIGN
+     @
+  |_$@
+ (__$@
+  |$ @@
+163  POUND SIGN
+    _$  @
+  _/_\`$ @
+   |___$@
+        @@
+164  CURRENCY SIGN
+     @
+ \`o'$@
+ ' \`$@
+     @@
+165  YEN SIGN
+       @
+ _\\_/_$@
+ --|--$@
+       @@
+166  BROKEN BAR
+ |$@
+ |$@
+ |$@
+ |$@@
+167  SECTION SIGN
+  _$@
+ ($ @
+ ()$@
+ _)$@@
+168  DIAERESIS
+ o o$@
+     @
+     @
+     @@
+169  COPYRIGHT SIGN
+  _$ @
+ |C|$@
+ \`-'$@
+     @@
+170  FEMININE ORDINAL INDICATOR
+  _.$@
+ (_|$@
+ ---$@
+     @@
+171  LEFT-POINTING DOUBLE ANGLE QUOTATION MARK
+    @
+ //$@
+ \\\\$@
+    @@
+172  NOT SIGN
+     @
+ __$ @
+   |$@
+     @@
+173  SOFT HYPHEN
+   @
+ _$@
+   @
+   @@
+174  REGISTERED SIGN
+  _$ @
+ |R|$@
+ \`-'$@
+     @@
+175  MACRON
+ __$@
+    @
+    @
+    @@
+176  DEGREE SIGN
+ O$@
+   @
+   @
+   @@
+177  PLUS-MINUS SIGN
+     @
+ _|_$@
+ _|_$@
+     @@
+178  SUPERSCRIPT TWO
+ 2$@
+   @
+   @
+   @@
+179  SUPERSCRIPT THREE
+ 3$@
+   @
+   @
+   @@
+180  ACUTE ACCENT
+ /$@
+   @
+   @
+   @@
+181  MICRO SIGN
+     @
+     @
+ |_|$@
+ |$  @@
+182  PILCROW SIGN
+  __$ @
+ (| |$@
+  | |$@
+      @@
+183  MIDDLE DOT
+   @
+ o$@
+   @
+   @@
+184  CEDILLA
+   @
+   @
+   @
+ S$@@
+185  SUPERSCRIPT ONE
+ 1$@
+   @
+   @
+   @@
+186  MASCULINE ORDINAL INDICATOR
+  _$ @
+ (_)$@
+ ---$@
+     @@
+187  RIGHT-POINTING DOUBLE ANGLE QUOTATION MARK
+    @
+ \\\\$@
+ //$@
+    @@
+188  VULGAR FRACTION ONE QUARTER
+    @
+ 1/$@
+ /4$@
+    @@
+189  VULGAR FRACTION ONE HALF
+    @
+ 1/$@
+ /2$@
+    @@
+190  VULGAR FRACTION THREE QUARTERS
+    @
+ 3/$@
+ /4$@
+    @@
+191  INVERTED QUESTION MARK
+    @
+  o$@
+ (_$@
+    @@
+192  LATIN CAPITAL LETTER A WITH GRAVE
+   \\$ @
+  /\\$ @
+ /--\\$@
+      @@
+193  LATIN CAPITAL LETTER A WITH ACUTE
+  /$  @
+  /\\$ @
+ /--\\$@
+      @@
+194  LATIN CAPITAL LETTER A WITH CIRCUMFLEX
+  /\\$ @
+  /\\$ @
+ /--\\$@
+      @@
+195  LATIN CAPITAL LETTER A WITH TILDE
+  /\\/$@
+  /\\$ @
+ /--\\$@
+      @@
+196  LATIN CAPITAL LETTER A WITH DIAERESIS
+ o  o$@
+  /\\$ @
+ /--\\$@
+      @@
+197  LATIN CAPITAL LETTER A WITH RING ABOVE
+   O$  @
+  / \\$ @
+ /---\\$@
+       @@
+198  LATIN CAPITAL LETTER AE
+    _$@
+  /|_$@
+ /-|_$@
+      @@
+199  LATIN CAPITAL LETTER C WITH CEDILLA
+  _$@
+ /$ @
+ \\_$@
+  S$@@
+200  LATIN CAPITAL LETTER E WITH GRAVE
+ \\_$@
+ |_$@
+ |_$@
+    @@
+201  LATIN CAPITAL LETTER E WITH ACUTE
+  _/$@
+ |_$ @
+ |_$ @
+     @@
+202  LATIN CAPITAL LETTER E WITH CIRCUMFLEX
+  /\\$@
+ |_$ @
+ |_$ @
+     @@
+203  LATIN CAPITAL LETTER E WITH DIAERESIS
+ o_o$@
+ |_$ @
+ |_$ @
+     @@
+204  LATIN CAPITAL LETTER I WITH GRAVE
+ \\__$@
+  |$ @
+ _|_$@
+     @@
+205  LATIN CAPITAL LETTER I WITH ACUTE
+ __/$@
+  |$ @
+ _|_$@
+     @@
+206  LATIN CAPITAL LETTER I WITH CIRCUMFLEX
+  /\\$@
+ ___$@
+ _|_$@
+     @@
+207  LATIN CAPITAL LETTER I WITH DIAERESIS
+ o_o$@
+  |$ @
+ _|_$@
+     @@
+208  LATIN CAPITAL LETTER ETH
+   _$ @
+ _|_\\$@
+  |_/$@
+      @@
+209  LATIN CAPITAL LETTER N WITH TILDE
+  /\\/$@
+ |\\ |$@
+ | \\|$@
+      @@
+210  LATIN CAPITAL LETTER O WITH GRAVE
+  \\$ @
+ / \\$@
+ \\_/$@
+     @@
+211  LATIN CAPITAL LETTER O WITH ACUTE
+  /$ @
+ / \\$@
+ \\_/$@
+     @@
+212  LATIN CAPITAL LETTER O WITH CIRCUMFLEX
+  /\\$@
+ / \\$@
+ \\_/$@
+     @@
+213  LATIN CAPITAL LETTER O WITH TILDE
+ /\\/$@
+ / \\$@
+ \\_/$@
+     @@
+214  LATIN CAPITAL LETTER O WITH DIAERESIS
+ o_o$@
+ / \\$@
+ \\_/$@
+     @@
+215  MULTIPLICATION SIGN
+   @
+   @
+ X$@
+   @@
+216  LATIN CAPITAL LETTER O WITH STROKE
+  __$ @
+ / /\\$@
+ \\/_/$@
+      @@
+217  LATIN CAPITAL LETTER U WITH GRAVE
+  \\$ @
+ | |$@
+ |_|$@
+     @@
+218  LATIN CAPITAL LETTER U WITH ACUTE
+  /$ @
+ | |$@
+ |_|$@
+     @@
+219  LATIN CAPITAL LETTER U WITH CIRCUMFLEX
+  /\\$@
+ | |$@
+ |_|$@
+     @@
+220  LATIN CAPITAL LETTER U WITH DIAERESIS
+ o o$@
+ | |$@
+ |_|$@
+     @@
+221  LATIN CAPITAL LETTER Y WITH ACUTE
+  /$ @
+ \\_/$@
+  |$ @
+     @@
+222  LATIN CAPITAL LETTER THORN
+ |_$ @
+ |_)$@
+ |$  @
+     @@
+223  LATIN SMALL LETTER SHARP S
+  _$ @
+ | )$@
+ | )$@
+ |$  @@
+224  LATIN SMALL LETTER A WITH GRAVE
+  \\$ @
+  _.$@
+ (_|$@
+     @@
+225  LATIN SMALL LETTER A WITH ACUTE
+  /$ @
+  _.$@
+ (_|$@
+     @@
+226  LATIN SMALL LETTER A WITH CIRCUMFLEX
+  /\\$@
+  _.$@
+ (_|$@
+     @@
+227  LATIN SMALL LETTER A WITH TILDE
+ /\\/$@
+  _.$@
+ (_|$@
+     @@
+228  LATIN SMALL LETTER A WITH DIAERESIS
+ o o$@
+  _.$@
+ (_|$@
+     @@
+229  LATIN SMALL LETTER A WITH RING ABOVE
+  O$ @
+  _.$@
+ (_|$@
+     @@
+230  LATIN SMALL LETTER AE
+       @
+  ___$ @
+ (_|/_$@
+       @@
+231  LATIN SMALL LETTER C WITH CEDILLA
+    @
+  _$@
+ (_$@
+  S$@@
+232  LATIN SMALL LETTER E WITH GRAVE
+  \\$ @
+  _$ @
+ (/_$@
+     @@
+233  LATIN SMALL LETTER E WITH ACUTE
+  /$ @
+  _$ @
+ (/_$@
+     @@
+234  LATIN SMALL LETTER E WITH CIRCUMFLEX
+  /\\$@
+  _$ @
+ (/_$@
+     @@
+235  LATIN SMALL LETTER E WITH DIAERESIS
+ o o$@
+  _$ @
+ (/_$@
+     @@
+236  LATIN SMALL LETTER I WITH GRAVE
+ \\$@
+   @
+ |$@
+   @@
+237  LATIN SMALL LETTER I WITH ACUTE
+ /$@
+   @
+ |$@
+   @@
+238  LATIN SMALL LETTER I WITH CIRCUMFLEX
+ /\\$@
+    @
+ |$ @
+    @@
+239  LATIN SMALL LETTER I WITH DIAERESIS
+ o o$@
+     @
+  |$ @
+     @@
+240  LATIN SMALL LETTER ETH
+ X$  @
+  \\$ @
+ (_|$@
+     @@
+241  LATIN SMALL LETTER N WITH TILDE
+ /\\/$@
+ ._$ @
+ | |$@
+     @@
+242  LATIN SMALL LETTER O WITH GRAVE
+  \\$ @
+  _$ @
+ (_)$@
+     @@
+243  LATIN SMALL LETTER O WITH ACUTE
+  /$ @
+  _$ @
+ (_)$@
+     @@
+244  LATIN SMALL LETTER O WITH CIRCUMFLEX
+  /\\$@
+  _$ @
+ (_)$@
+     @@
+245  LATIN SMALL LETTER O WITH TILDE
+ /\\/$@
+  _$ @
+ (_)$@
+     @@
+246  LATIN SMALL LETTER O WITH DIAERESIS
+ o o$@
+  _$ @
+ (_)$@
+     @@
+247  DIVISION SIGN
+  o$ @
+ ---$@
+  o$ @
+     @@
+248  LATIN SMALL LETTER O WITH STROKE
+     @
+  _$ @
+ (/)$@
+     @@
+249  LATIN SMALL LETTER U WITH GRAVE
+  \\$ @
+     @
+ |_|$@
+     @@
+250  LATIN SMALL LETTER U WITH ACUTE
+  /$ @
+     @
+ |_|$@
+     @@
+251  LATIN SMALL LETTER U WITH CIRCUMFLEX
+  /\\$@
+     @
+ |_|$@
+     @@
+252  LATIN SMALL LETTER U WITH DIAERESIS
+ o o$@
+     @
+ |_|$@
+     @@
+253  LATIN SMALL LETTER Y WITH ACUTE
+  /$@
+    @
+ \\/$@
+ /$ @@
+254  LATIN SMALL LETTER THORN
+     @
+ |_$ @
+ |_)$@
+ |$  @@
+255  LATIN SMALL LETTER Y WITH DIAERESIS
+ oo$@
+    @
+ \\/$@
+ /$ @@
+`;var N_=`flf2a$ 6 5 16 15 13 0 24463 229
+Standard by Glenn Chappell & Ian Chai 3/93 -- based on Frank's .sig
+Includes ISO Latin-1
+figlet release 2.1 -- 12 Aug 1994
+Modified for figlet 2.2 by John Cowan <cowan@ccil.org>
+  to add Latin-{2,3,4,5} support (Unicode U+0100-017F).
+Permission is hereby given to modify this font, as long as the
+modifier's name is placed on a comment line.
+
+Modified by Paul Burton <solution@earthlink.net> 12/96 to include new parameter
+supported by FIGlet and FIGWin.  May also be slightly modified for better use
+of new full-width/kern/smush alternatives, but default output is NOT changed.
+
+Font modified May 20, 2012 by patorjk to add the 0xCA0 character
+ $@
+ $@
+ $@
+ $@
+ $@
+ $@@
+  _ @
+ | |@
+ | |@
+ |_|@
+ (_)@
+    @@
+  _ _ @
+ ( | )@
+  V V @
+   $  @
+   $  @
+      @@
+    _  _   @
+  _| || |_ @
+ |_  ..  _|@
+ |_      _|@
+   |_||_|  @
+           @@
+   _  @
+  | | @
+ / __)@
+ \\__ \\@
+ (   /@
+  |_| @@
+  _  __@
+ (_)/ /@
+   / / @
+  / /_ @
+ /_/(_)@
+       @@
+   ___   @
+  ( _ )  @
+  / _ \\/\\@
+ | (_>  <@
+  \\___/\\/@
+         @@
+  _ @
+ ( )@
+ |/ @
+  $ @
+  $ @
+    @@
+   __@
+  / /@
+ | | @
+ | | @
+ | | @
+  \\_\\@@
+ __  @
+ \\ \\ @
+  | |@
+  | |@
+  | |@
+ /_/ @@
+       @
+ __/\\__@
+ \\    /@
+ /_  _\\@
+   \\/  @
+       @@
+        @
+    _   @
+  _| |_ @
+ |_   _|@
+   |_|  @
+        @@
+    @
+    @
+    @
+  _ @
+ ( )@
+ |/ @@
+        @
+        @
+  _____ @
+ |_____|@
+    $   @
+        @@
+    @
+    @
+    @
+  _ @
+ (_)@
+    @@
+     __@
+    / /@
+   / / @
+  / /  @
+ /_/   @
+       @@
+   ___  @
+  / _ \\ @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+  _ @
+ / |@
+ | |@
+ | |@
+ |_|@
+    @@
+  ____  @
+ |___ \\ @
+   __) |@
+  / __/ @
+ |_____|@
+        @@
+  _____ @
+ |___ / @
+   |_ \\ @
+  ___) |@
+ |____/ @
+        @@
+  _  _   @
+ | || |  @
+ | || |_ @
+ |__   _|@
+    |_|  @
+         @@
+  ____  @
+ | ___| @
+ |___ \\ @
+  ___) |@
+ |____/ @
+        @@
+   __   @
+  / /_  @
+ | '_ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+  _____ @
+ |___  |@
+    / / @
+   / /  @
+  /_/   @
+        @@
+   ___  @
+  ( _ ) @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+   ___  @
+  / _ \\ @
+ | (_) |@
+  \\__, |@
+    /_/ @
+        @@
+    @
+  _ @
+ (_)@
+  _ @
+ (_)@
+    @@
+    @
+  _ @
+ (_)@
+  _ @
+ ( )@
+ |/ @@
+   __@
+  / /@
+ / / @
+ \\ \\ @
+  \\_\\@
+     @@
+        @
+  _____ @
+ |_____|@
+ |_____|@
+    $   @
+        @@
+ __  @
+ \\ \\ @
+  \\ \\@
+  / /@
+ /_/ @
+     @@
+  ___ @
+ |__ \\@
+   / /@
+  |_| @
+  (_) @
+      @@
+    ____  @
+   / __ \\ @
+  / / _\` |@
+ | | (_| |@
+  \\ \\__,_|@
+   \\____/ @@
+     _    @
+    / \\   @
+   / _ \\  @
+  / ___ \\ @
+ /_/   \\_\\@
+          @@
+  ____  @
+ | __ ) @
+ |  _ \\ @
+ | |_) |@
+ |____/ @
+        @@
+   ____ @
+  / ___|@
+ | |    @
+ | |___ @
+  \\____|@
+        @@
+  ____  @
+ |  _ \\ @
+ | | | |@
+ | |_| |@
+ |____/ @
+        @@
+  _____ @
+ | ____|@
+ |  _|  @
+ | |___ @
+ |_____|@
+        @@
+  _____ @
+ |  ___|@
+ | |_   @
+ |  _|  @
+ |_|    @
+        @@
+   ____ @
+  / ___|@
+ | |  _ @
+ | |_| |@
+  \\____|@
+        @@
+  _   _ @
+ | | | |@
+ | |_| |@
+ |  _  |@
+ |_| |_|@
+        @@
+  ___ @
+ |_ _|@
+  | | @
+  | | @
+ |___|@
+      @@
+      _ @
+     | |@
+  _  | |@
+ | |_| |@
+  \\___/ @
+        @@
+  _  __@
+ | |/ /@
+ | ' / @
+ | . \\ @
+ |_|\\_\\@
+       @@
+  _     @
+ | |    @
+ | |    @
+ | |___ @
+ |_____|@
+        @@
+  __  __ @
+ |  \\/  |@
+ | |\\/| |@
+ | |  | |@
+ |_|  |_|@
+         @@
+  _   _ @
+ | \\ | |@
+ |  \\| |@
+ | |\\  |@
+ |_| \\_|@
+        @@
+   ___  @
+  / _ \\ @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+  ____  @
+ |  _ \\ @
+ | |_) |@
+ |  __/ @
+ |_|    @
+        @@
+   ___  @
+  / _ \\ @
+ | | | |@
+ | |_| |@
+  \\__\\_\\@
+        @@
+  ____  @
+ |  _ \\ @
+ | |_) |@
+ |  _ < @
+ |_| \\_\\@
+        @@
+  ____  @
+ / ___| @
+ \\___ \\ @
+  ___) |@
+ |____/ @
+        @@
+  _____ @
+ |_   _|@
+   | |  @
+   | |  @
+   |_|  @
+        @@
+  _   _ @
+ | | | |@
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+ __     __@
+ \\ \\   / /@
+  \\ \\ / / @
+   \\ V /  @
+    \\_/   @
+          @@
+ __        __@
+ \\ \\      / /@
+  \\ \\ /\\ / / @
+   \\ V  V /  @
+    \\_/\\_/   @
+             @@
+ __  __@
+ \\ \\/ /@
+  \\  / @
+  /  \\ @
+ /_/\\_\\@
+       @@
+ __   __@
+ \\ \\ / /@
+  \\ V / @
+   | |  @
+   |_|  @
+        @@
+  _____@
+ |__  /@
+   / / @
+  / /_ @
+ /____|@
+       @@
+  __ @
+ | _|@
+ | | @
+ | | @
+ | | @
+ |__|@@
+ __    @
+ \\ \\   @
+  \\ \\  @
+   \\ \\ @
+    \\_\\@
+       @@
+  __ @
+ |_ |@
+  | |@
+  | |@
+  | |@
+ |__|@@
+  /\\ @
+ |/\\|@
+   $ @
+   $ @
+   $ @
+     @@
+        @
+        @
+        @
+        @
+  _____ @
+ |_____|@@
+  _ @
+ ( )@
+  \\|@
+  $ @
+  $ @
+    @@
+        @
+   __ _ @
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+  _     @
+ | |__  @
+ | '_ \\ @
+ | |_) |@
+ |_.__/ @
+        @@
+       @
+   ___ @
+  / __|@
+ | (__ @
+  \\___|@
+       @@
+      _ @
+   __| |@
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+       @
+   ___ @
+  / _ \\@
+ |  __/@
+  \\___|@
+       @@
+   __ @
+  / _|@
+ | |_ @
+ |  _|@
+ |_|  @
+      @@
+        @
+   __ _ @
+  / _\` |@
+ | (_| |@
+  \\__, |@
+  |___/ @@
+  _     @
+ | |__  @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+        @@
+  _ @
+ (_)@
+ | |@
+ | |@
+ |_|@
+    @@
+    _ @
+   (_)@
+   | |@
+   | |@
+  _/ |@
+ |__/ @@
+  _    @
+ | | __@
+ | |/ /@
+ |   < @
+ |_|\\_\\@
+       @@
+  _ @
+ | |@
+ | |@
+ | |@
+ |_|@
+    @@
+            @
+  _ __ ___  @
+ | '_ \` _ \\ @
+ | | | | | |@
+ |_| |_| |_|@
+            @@
+        @
+  _ __  @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+        @@
+        @
+   ___  @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+        @
+  _ __  @
+ | '_ \\ @
+ | |_) |@
+ | .__/ @
+ |_|    @@
+        @
+   __ _ @
+  / _\` |@
+ | (_| |@
+  \\__, |@
+     |_|@@
+       @
+  _ __ @
+ | '__|@
+ | |   @
+ |_|   @
+       @@
+      @
+  ___ @
+ / __|@
+ \\__ \\@
+ |___/@
+      @@
+  _   @
+ | |_ @
+ | __|@
+ | |_ @
+  \\__|@
+      @@
+        @
+  _   _ @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+        @
+ __   __@
+ \\ \\ / /@
+  \\ V / @
+   \\_/  @
+        @@
+           @
+ __      __@
+ \\ \\ /\\ / /@
+  \\ V  V / @
+   \\_/\\_/  @
+           @@
+       @
+ __  __@
+ \\ \\/ /@
+  >  < @
+ /_/\\_\\@
+       @@
+        @
+  _   _ @
+ | | | |@
+ | |_| |@
+  \\__, |@
+  |___/ @@
+      @
+  ____@
+ |_  /@
+  / / @
+ /___|@
+      @@
+    __@
+   / /@
+  | | @
+ < <  @
+  | | @
+   \\_\\@@
+  _ @
+ | |@
+ | |@
+ | |@
+ | |@
+ |_|@@
+ __   @
+ \\ \\  @
+  | | @
+   > >@
+  | | @
+ /_/  @@
+  /\\/|@
+ |/\\/ @
+   $  @
+   $  @
+   $  @
+      @@
+  _   _ @
+ (_)_(_)@
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+  _   _ @
+ (_)_(_)@
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+  _   _ @
+ (_) (_)@
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+  _   _ @
+ (_)_(_)@
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+  _   _ @
+ (_)_(_)@
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+  _   _ @
+ (_) (_)@
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+   ___ @
+  / _ \\@
+ | |/ /@
+ | |\\ \\@
+ | ||_/@
+ |_|   @@
+160  NO-BREAK SPACE
+ $@
+ $@
+ $@
+ $@
+ $@
+ $@@
+161  INVERTED EXCLAMATION MARK
+  _ @
+ (_)@
+ | |@
+ | |@
+ |_|@
+    @@
+162  CENT SIGN
+    _  @
+   | | @
+  / __)@
+ | (__ @
+  \\   )@
+   |_| @@
+163  POUND SIGN
+    ___  @
+   / ,_\\ @
+ _| |_   @
+  | |___ @
+ (_,____|@
+         @@
+164  CURRENCY SIGN
+ /\\___/\\@
+ \\  _  /@
+ | (_) |@
+ / ___ \\@
+ \\/   \\/@
+        @@
+165  YEN SIGN
+  __ __ @
+  \\ V / @
+ |__ __|@
+ |__ __|@
+   |_|  @
+        @@
+166  BROKEN BAR
+  _ @
+ | |@
+ |_|@
+  _ @
+ | |@
+ |_|@@
+167  SECTION SIGN
+    __ @
+  _/ _)@
+ / \\ \\ @
+ \\ \\\\ \\@
+  \\ \\_/@
+ (__/  @@
+168  DIAERESIS
+  _   _ @
+ (_) (_)@
+  $   $ @
+  $   $ @
+  $   $ @
+        @@
+169  COPYRIGHT SIGN
+    _____   @
+   / ___ \\  @
+  / / __| \\ @
+ | | (__   |@
+  \\ \\___| / @
+   \\_____/  @@
+170  FEMININE ORDINAL INDICATOR
+  __ _ @
+ / _\` |@
+ \\__,_|@
+ |____|@
+    $  @
+       @@
+171  LEFT-POINTING DOUBLE ANGLE QUOTATION MARK
+   ____@
+  / / /@
+ / / / @
+ \\ \\ \\ @
+  \\_\\_\\@
+       @@
+172  NOT SIGN
+        @
+  _____ @
+ |___  |@
+     |_|@
+    $   @
+        @@
+173  SOFT HYPHEN
+       @
+       @
+  ____ @
+ |____|@
+    $  @
+       @@
+174  REGISTERED SIGN
+    _____   @
+   / ___ \\  @
+  / | _ \\ \\ @
+ |  |   /  |@
+  \\ |_|_\\ / @
+   \\_____/  @@
+175  MACRON
+  _____ @
+ |_____|@
+    $   @
+    $   @
+    $   @
+        @@
+176  DEGREE SIGN
+   __  @
+  /  \\ @
+ | () |@
+  \\__/ @
+    $  @
+       @@
+177  PLUS-MINUS SIGN
+    _   @
+  _| |_ @
+ |_   _|@
+  _|_|_ @
+ |_____|@
+        @@
+178  SUPERSCRIPT TWO
+  ___ @
+ |_  )@
+  / / @
+ /___|@
+   $  @
+      @@
+179  SUPERSCRIPT THREE
+  ____@
+ |__ /@
+  |_ \\@
+ |___/@
+   $  @
+      @@
+180  ACUTE ACCENT
+  __@
+ /_/@
+  $ @
+  $ @
+  $ @
+    @@
+181  MICRO SIGN
+        @
+  _   _ @
+ | | | |@
+ | |_| |@
+ | ._,_|@
+ |_|    @@
+182  PILCROW SIGN
+   _____ @
+  /     |@
+ | (| | |@
+  \\__ | |@
+    |_|_|@
+         @@
+183  MIDDLE DOT
+    @
+  _ @
+ (_)@
+  $ @
+  $ @
+    @@
+184  CEDILLA
+    @
+    @
+    @
+    @
+  _ @
+ )_)@@
+185  SUPERSCRIPT ONE
+  _ @
+ / |@
+ | |@
+ |_|@
+  $ @
+    @@
+186  MASCULINE ORDINAL INDICATOR
+  ___ @
+ / _ \\@
+ \\___/@
+ |___|@
+   $  @
+      @@
+187  RIGHT-POINTING DOUBLE ANGLE QUOTATION MARK
+ ____  @
+ \\ \\ \\ @
+  \\ \\ \\@
+  / / /@
+ /_/_/ @
+       @@
+188  VULGAR FRACTION ONE QUARTER
+  _   __    @
+ / | / / _  @
+ | |/ / | | @
+ |_/ /|_  _|@
+  /_/   |_| @
+            @@
+189  VULGAR FRACTION ONE HALF
+  _   __   @
+ / | / /__ @
+ | |/ /_  )@
+ |_/ / / / @
+  /_/ /___|@
+           @@
+190  VULGAR FRACTION THREE QUARTERS
+  ____  __    @
+ |__ / / / _  @
+  |_ \\/ / | | @
+ |___/ /|_  _|@
+    /_/   |_| @
+              @@
+191  INVERTED QUESTION MARK
+   _  @
+  (_) @
+  | | @
+ / /_ @
+ \\___|@
+      @@
+192  LATIN CAPITAL LETTER A WITH GRAVE
+   __   @
+   \\_\\  @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+193  LATIN CAPITAL LETTER A WITH ACUTE
+    __  @
+   /_/  @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+194  LATIN CAPITAL LETTER A WITH CIRCUMFLEX
+   //\\  @
+  |/_\\| @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+195  LATIN CAPITAL LETTER A WITH TILDE
+   /\\/| @
+  |/\\/  @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+196  LATIN CAPITAL LETTER A WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+197  LATIN CAPITAL LETTER A WITH RING ABOVE
+    _   @
+   (o)  @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+198  LATIN CAPITAL LETTER AE
+     ______ @
+    /  ____|@
+   / _  _|  @
+  / __ |___ @
+ /_/ |_____|@
+            @@
+199  LATIN CAPITAL LETTER C WITH CEDILLA
+   ____ @
+  / ___|@
+ | |    @
+ | |___ @
+  \\____|@
+    )_) @@
+200  LATIN CAPITAL LETTER E WITH GRAVE
+   __   @
+  _\\_\\_ @
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+201  LATIN CAPITAL LETTER E WITH ACUTE
+    __  @
+  _/_/_ @
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+202  LATIN CAPITAL LETTER E WITH CIRCUMFLEX
+   //\\  @
+  |/_\\| @
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+203  LATIN CAPITAL LETTER E WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+204  LATIN CAPITAL LETTER I WITH GRAVE
+  __  @
+  \\_\\ @
+ |_ _|@
+  | | @
+ |___|@
+      @@
+205  LATIN CAPITAL LETTER I WITH ACUTE
+   __ @
+  /_/ @
+ |_ _|@
+  | | @
+ |___|@
+      @@
+206  LATIN CAPITAL LETTER I WITH CIRCUMFLEX
+  //\\ @
+ |/_\\|@
+ |_ _|@
+  | | @
+ |___|@
+      @@
+207  LATIN CAPITAL LETTER I WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  |_ _| @
+   | |  @
+  |___| @
+        @@
+208  LATIN CAPITAL LETTER ETH
+    ____  @
+   |  _ \\ @
+  _| |_| |@
+ |__ __| |@
+   |____/ @
+          @@
+209  LATIN CAPITAL LETTER N WITH TILDE
+   /\\/|@
+  |/\\/ @
+ | \\| |@
+ | .\` |@
+ |_|\\_|@
+       @@
+210  LATIN CAPITAL LETTER O WITH GRAVE
+   __   @
+   \\_\\  @
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+211  LATIN CAPITAL LETTER O WITH ACUTE
+    __  @
+   /_/  @
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+212  LATIN CAPITAL LETTER O WITH CIRCUMFLEX
+   //\\  @
+  |/_\\| @
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+213  LATIN CAPITAL LETTER O WITH TILDE
+   /\\/| @
+  |/\\/  @
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+214  LATIN CAPITAL LETTER O WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+215  MULTIPLICATION SIGN
+     @
+     @
+ /\\/\\@
+ >  <@
+ \\/\\/@
+     @@
+216  LATIN CAPITAL LETTER O WITH STROKE
+   ____ @
+  / _// @
+ | |// |@
+ | //| |@
+  //__/ @
+        @@
+217  LATIN CAPITAL LETTER U WITH GRAVE
+   __   @
+  _\\_\\_ @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+218  LATIN CAPITAL LETTER U WITH ACUTE
+    __  @
+  _/_/_ @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+219  LATIN CAPITAL LETTER U WITH CIRCUMFLEX
+   //\\  @
+  |/ \\| @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+220  LATIN CAPITAL LETTER U WITH DIAERESIS
+  _   _ @
+ (_) (_)@
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+221  LATIN CAPITAL LETTER Y WITH ACUTE
+    __  @
+ __/_/__@
+ \\ \\ / /@
+  \\ V / @
+   |_|  @
+        @@
+222  LATIN CAPITAL LETTER THORN
+  _     @
+ | |___ @
+ |  __ \\@
+ |  ___/@
+ |_|    @
+        @@
+223  LATIN SMALL LETTER SHARP S
+   ___ @
+  / _ \\@
+ | |/ /@
+ | |\\ \\@
+ | ||_/@
+ |_|   @@
+224  LATIN SMALL LETTER A WITH GRAVE
+   __   @
+   \\_\\_ @
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+225  LATIN SMALL LETTER A WITH ACUTE
+    __  @
+   /_/_ @
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+226  LATIN SMALL LETTER A WITH CIRCUMFLEX
+   //\\  @
+  |/_\\| @
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+227  LATIN SMALL LETTER A WITH TILDE
+   /\\/| @
+  |/\\/_ @
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+228  LATIN SMALL LETTER A WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+229  LATIN SMALL LETTER A WITH RING ABOVE
+    __  @
+   (()) @
+  / _ '|@
+ | (_| |@
+  \\__,_|@
+        @@
+230  LATIN SMALL LETTER AE
+           @
+   __ ____ @
+  / _\`  _ \\@
+ | (_|  __/@
+  \\__,____|@
+           @@
+231  LATIN SMALL LETTER C WITH CEDILLA
+       @
+   ___ @
+  / __|@
+ | (__ @
+  \\___|@
+   )_) @@
+232  LATIN SMALL LETTER E WITH GRAVE
+   __  @
+   \\_\\ @
+  / _ \\@
+ |  __/@
+  \\___|@
+       @@
+233  LATIN SMALL LETTER E WITH ACUTE
+    __ @
+   /_/ @
+  / _ \\@
+ |  __/@
+  \\___|@
+       @@
+234  LATIN SMALL LETTER E WITH CIRCUMFLEX
+   //\\ @
+  |/_\\|@
+  / _ \\@
+ |  __/@
+  \\___|@
+       @@
+235  LATIN SMALL LETTER E WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  / _ \\ @
+ |  __/ @
+  \\___| @
+        @@
+236  LATIN SMALL LETTER I WITH GRAVE
+ __ @
+ \\_\\@
+ | |@
+ | |@
+ |_|@
+    @@
+237  LATIN SMALL LETTER I WITH ACUTE
+  __@
+ /_/@
+ | |@
+ | |@
+ |_|@
+    @@
+238  LATIN SMALL LETTER I WITH CIRCUMFLEX
+  //\\ @
+ |/_\\|@
+  | | @
+  | | @
+  |_| @
+      @@
+239  LATIN SMALL LETTER I WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+   | |  @
+   | |  @
+   |_|  @
+        @@
+240  LATIN SMALL LETTER ETH
+   /\\/\\ @
+   >  < @
+  _\\/\\ |@
+ / __\` |@
+ \\____/ @
+        @@
+241  LATIN SMALL LETTER N WITH TILDE
+   /\\/| @
+  |/\\/  @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+        @@
+242  LATIN SMALL LETTER O WITH GRAVE
+   __   @
+   \\_\\  @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+243  LATIN SMALL LETTER O WITH ACUTE
+    __  @
+   /_/  @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+244  LATIN SMALL LETTER O WITH CIRCUMFLEX
+   //\\  @
+  |/_\\| @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+245  LATIN SMALL LETTER O WITH TILDE
+   /\\/| @
+  |/\\/  @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+246  LATIN SMALL LETTER O WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+247  DIVISION SIGN
+        @
+    _   @
+  _(_)_ @
+ |_____|@
+   (_)  @
+        @@
+248  LATIN SMALL LETTER O WITH STROKE
+         @
+   ____  @
+  / _//\\ @
+ | (//) |@
+  \\//__/ @
+         @@
+249  LATIN SMALL LETTER U WITH GRAVE
+   __   @
+  _\\_\\_ @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+250  LATIN SMALL LETTER U WITH ACUTE
+    __  @
+  _/_/_ @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+251  LATIN SMALL LETTER U WITH CIRCUMFLEX
+   //\\  @
+  |/ \\| @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+252  LATIN SMALL LETTER U WITH DIAERESIS
+  _   _ @
+ (_) (_)@
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+253  LATIN SMALL LETTER Y WITH ACUTE
+    __  @
+  _/_/_ @
+ | | | |@
+ | |_| |@
+  \\__, |@
+  |___/ @@
+254  LATIN SMALL LETTER THORN
+  _     @
+ | |__  @
+ | '_ \\ @
+ | |_) |@
+ | .__/ @
+ |_|    @@
+255  LATIN SMALL LETTER Y WITH DIAERESIS
+  _   _ @
+ (_) (_)@
+ | | | |@
+ | |_| |@
+  \\__, |@
+  |___/ @@
+0x0100  LATIN CAPITAL LETTER A WITH MACRON
+   ____ @
+  /___/ @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+0x0101  LATIN SMALL LETTER A WITH MACRON
+    ___ @
+   /_ _/@
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+0x0102  LATIN CAPITAL LETTER A WITH BREVE
+  _   _ @
+  \\\\_// @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+0x0103  LATIN SMALL LETTER A WITH BREVE
+   \\_/  @
+   ___  @
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+0x0104  LATIN CAPITAL LETTER A WITH OGONEK
+        @
+    _   @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+     (_(@@
+0x0105  LATIN SMALL LETTER A WITH OGONEK
+        @
+   __ _ @
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+     (_(@@
+0x0106  LATIN CAPITAL LETTER C WITH ACUTE
+     __ @
+   _/_/ @
+  / ___|@
+ | |___ @
+  \\____|@
+        @@
+0x0107  LATIN SMALL LETTER C WITH ACUTE
+    __ @
+   /__/@
+  / __|@
+ | (__ @
+  \\___|@
+       @@
+0x0108  LATIN CAPITAL LETTER C WITH CIRCUMFLEX
+     /\\ @
+   _//\\\\@
+  / ___|@
+ | |___ @
+  \\____|@
+        @@
+0x0109  LATIN SMALL LETTER C WITH CIRCUMFLEX
+    /\\ @
+   /_\\ @
+  / __|@
+ | (__ @
+  \\___|@
+       @@
+0x010A  LATIN CAPITAL LETTER C WITH DOT ABOVE
+    []  @
+   ____ @
+  / ___|@
+ | |___ @
+  \\____|@
+        @@
+0x010B  LATIN SMALL LETTER C WITH DOT ABOVE
+   []  @
+   ___ @
+  / __|@
+ | (__ @
+  \\___|@
+       @@
+0x010C  LATIN CAPITAL LETTER C WITH CARON
+   \\\\// @
+   _\\/_ @
+  / ___|@
+ | |___ @
+  \\____|@
+        @@
+0x010D  LATIN SMALL LETTER C WITH CARON
+   \\\\//@
+   _\\/ @
+  / __|@
+ | (__ @
+  \\___|@
+       @@
+0x010E  LATIN CAPITAL LETTER D WITH CARON
+   \\\\// @
+  __\\/  @
+ |  _ \\ @
+ | |_| |@
+ |____/ @
+        @@
+0x010F  LATIN SMALL LETTER D WITH CARON
+  \\/  _ @
+   __| |@
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+0x0110  LATIN CAPITAL LETTER D WITH STROKE
+   ____   @
+  |_ __ \\ @
+ /| |/ | |@
+ /|_|/_| |@
+  |_____/ @
+          @@
+0x0111  LATIN SMALL LETTER D WITH STROKE
+    ---|@
+   __| |@
+  / _\` |@
+ | (_| |@
+  \\__,_|@
+        @@
+0x0112  LATIN CAPITAL LETTER E WITH MACRON
+   ____ @
+  /___/ @
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+0x0113  LATIN SMALL LETTER E WITH MACRON
+    ____@
+   /_ _/@
+  / _ \\ @
+ |  __/ @
+  \\___| @
+        @@
+0x0114  LATIN CAPITAL LETTER E WITH BREVE
+  _   _ @
+  \\\\_// @
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+0x0115  LATIN SMALL LETTER E WITH BREVE
+  \\\\  //@
+    --  @
+  / _ \\ @
+ |  __/ @
+  \\___| @
+        @@
+0x0116  LATIN CAPITAL LETTER E WITH DOT ABOVE
+    []  @
+  _____ @
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+0x0117  LATIN SMALL LETTER E WITH DOT ABOVE
+    [] @
+    __ @
+  / _ \\@
+ |  __/@
+  \\___|@
+       @@
+0x0118  LATIN CAPITAL LETTER E WITH OGONEK
+        @
+  _____ @
+ | ____|@
+ |  _|_ @
+ |_____|@
+    (__(@@
+0x0119  LATIN SMALL LETTER E WITH OGONEK
+       @
+   ___ @
+  / _ \\@
+ |  __/@
+  \\___|@
+    (_(@@
+0x011A  LATIN CAPITAL LETTER E WITH CARON
+   \\\\// @
+  __\\/_ @
+ | ____|@
+ |  _|_ @
+ |_____|@
+        @@
+0x011B  LATIN SMALL LETTER E WITH CARON
+   \\\\//@
+    \\/ @
+  / _ \\@
+ |  __/@
+  \\___|@
+       @@
+0x011C  LATIN CAPITAL LETTER G WITH CIRCUMFLEX
+   _/\\_ @
+  / ___|@
+ | |  _ @
+ | |_| |@
+  \\____|@
+        @@
+0x011D  LATIN SMALL LETTER G WITH CIRCUMFLEX
+     /\\ @
+   _/_ \\@
+  / _\` |@
+ | (_| |@
+  \\__, |@
+  |___/ @@
+0x011E  LATIN CAPITAL LETTER G WITH BREVE
+   _\\/_ @
+  / ___|@
+ | |  _ @
+ | |_| |@
+  \\____|@
+        @@
+0x011F  LATIN SMALL LETTER G WITH BREVE
+  \\___/ @
+   __ _ @
+  / _\` |@
+ | (_| |@
+  \\__, |@
+  |___/ @@
+0x0120  LATIN CAPITAL LETTER G WITH DOT ABOVE
+   _[]_ @
+  / ___|@
+ | |  _ @
+ | |_| |@
+  \\____|@
+        @@
+0x0121  LATIN SMALL LETTER G WITH DOT ABOVE
+   []   @
+   __ _ @
+  / _\` |@
+ | (_| |@
+  \\__, |@
+  |___/ @@
+0x0122  LATIN CAPITAL LETTER G WITH CEDILLA
+   ____ @
+  / ___|@
+ | |  _ @
+ | |_| |@
+  \\____|@
+   )__) @@
+0x0123  LATIN SMALL LETTER G WITH CEDILLA
+        @
+   __ _ @
+  / _\` |@
+ | (_| |@
+  \\__, |@
+  |_))))@@
+0x0124  LATIN CAPITAL LETTER H WITH CIRCUMFLEX
+  _/ \\_ @
+ | / \\ |@
+ | |_| |@
+ |  _  |@
+ |_| |_|@
+        @@
+0x0125  LATIN SMALL LETTER H WITH CIRCUMFLEX
+  _  /\\ @
+ | |//\\ @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+        @@
+0x0126  LATIN CAPITAL LETTER H WITH STROKE
+  _   _ @
+ | |=| |@
+ | |_| |@
+ |  _  |@
+ |_| |_|@
+        @@
+0x0127  LATIN SMALL LETTER H WITH STROKE
+  _     @
+ |=|__  @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+        @@
+0x0128  LATIN CAPITAL LETTER I WITH TILDE
+  /\\//@
+ |_ _|@
+  | | @
+  | | @
+ |___|@
+      @@
+0x0129  LATIN SMALL LETTER I WITH TILDE
+    @
+ /\\/@
+ | |@
+ | |@
+ |_|@
+    @@
+0x012A  LATIN CAPITAL LETTER I WITH MACRON
+ /___/@
+ |_ _|@
+  | | @
+  | | @
+ |___|@
+      @@
+0x012B  LATIN SMALL LETTER I WITH MACRON
+  ____@
+ /___/@
+  | | @
+  | | @
+  |_| @
+      @@
+0x012C  LATIN CAPITAL LETTER I WITH BREVE
+  \\__/@
+ |_ _|@
+  | | @
+  | | @
+ |___|@
+      @@
+0x012D  LATIN SMALL LETTER I WITH BREVE
+    @
+ \\_/@
+ | |@
+ | |@
+ |_|@
+    @@
+0x012E  LATIN CAPITAL LETTER I WITH OGONEK
+  ___ @
+ |_ _|@
+  | | @
+  | | @
+ |___|@
+  (__(@@
+0x012F  LATIN SMALL LETTER I WITH OGONEK
+  _  @
+ (_) @
+ | | @
+ | | @
+ |_|_@
+  (_(@@
+0x0130  LATIN CAPITAL LETTER I WITH DOT ABOVE
+  _[] @
+ |_ _|@
+  | | @
+  | | @
+ |___|@
+      @@
+0x0131  LATIN SMALL LETTER DOTLESS I
+    @
+  _ @
+ | |@
+ | |@
+ |_|@
+    @@
+0x0132  LATIN CAPITAL LIGATURE IJ
+  ___  _ @
+ |_ _|| |@
+  | | | |@
+  | |_| |@
+ |__|__/ @
+         @@
+0x0133  LATIN SMALL LIGATURE IJ
+  _   _ @
+ (_) (_)@
+ | | | |@
+ | | | |@
+ |_|_/ |@
+   |__/ @@
+0x0134  LATIN CAPITAL LETTER J WITH CIRCUMFLEX
+      /\\ @
+     /_\\|@
+  _  | | @
+ | |_| | @
+  \\___/  @
+         @@
+0x0135  LATIN SMALL LETTER J WITH CIRCUMFLEX
+    /\\@
+   /_\\@
+   | |@
+   | |@
+  _/ |@
+ |__/ @@
+0x0136  LATIN CAPITAL LETTER K WITH CEDILLA
+  _  _  @
+ | |/ / @
+ | ' /  @
+ | . \\  @
+ |_|\\_\\ @
+    )__)@@
+0x0137  LATIN SMALL LETTER K WITH CEDILLA
+  _    @
+ | | __@
+ | |/ /@
+ |   < @
+ |_|\\_\\@
+    )_)@@
+0x0138  LATIN SMALL LETTER KRA
+       @
+  _ __ @
+ | |/ \\@
+ |   < @
+ |_|\\_\\@
+       @@
+0x0139  LATIN CAPITAL LETTER L WITH ACUTE
+  _   //@
+ | | // @
+ | |    @
+ | |___ @
+ |_____|@
+        @@
+0x013A  LATIN SMALL LETTER L WITH ACUTE
+  //@
+ | |@
+ | |@
+ | |@
+ |_|@
+    @@
+0x013B  LATIN CAPITAL LETTER L WITH CEDILLA
+  _     @
+ | |    @
+ | |    @
+ | |___ @
+ |_____|@
+    )__)@@
+0x013C  LATIN SMALL LETTER L WITH CEDILLA
+  _   @
+ | |  @
+ | |  @
+ | |  @
+ |_|  @
+   )_)@@
+0x013D  LATIN CAPITAL LETTER L WITH CARON
+  _ \\\\//@
+ | | \\/ @
+ | |    @
+ | |___ @
+ |_____|@
+        @@
+0x013E  LATIN SMALL LETTER L WITH CARON
+  _ \\\\//@
+ | | \\/ @
+ | |    @
+ | |    @
+ |_|    @
+        @@
+0x013F  LATIN CAPITAL LETTER L WITH MIDDLE DOT
+  _     @
+ | |    @
+ | | [] @
+ | |___ @
+ |_____|@
+        @@
+0x0140  LATIN SMALL LETTER L WITH MIDDLE DOT
+  _    @
+ | |   @
+ | | []@
+ | |   @
+ |_|   @
+       @@
+0x0141  LATIN CAPITAL LETTER L WITH STROKE
+  __    @
+ | //   @
+ |//|   @
+ // |__ @
+ |_____|@
+        @@
+0x0142  LATIN SMALL LETTER L WITH STROKE
+  _ @
+ | |@
+ |//@
+ //|@
+ |_|@
+    @@
+0x0143  LATIN CAPITAL LETTER N WITH ACUTE
+  _/ /_ @
+ | \\ | |@
+ |  \\| |@
+ | |\\  |@
+ |_| \\_|@
+        @@
+0x0144  LATIN SMALL LETTER N WITH ACUTE
+     _  @
+  _ /_/ @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+        @@
+0x0145  LATIN CAPITAL LETTER N WITH CEDILLA
+  _   _ @
+ | \\ | |@
+ |  \\| |@
+ | |\\  |@
+ |_| \\_|@
+ )_)    @@
+0x0146  LATIN SMALL LETTER N WITH CEDILLA
+        @
+  _ __  @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+ )_)    @@
+0x0147  LATIN CAPITAL LETTER N WITH CARON
+  _\\/ _ @
+ | \\ | |@
+ |  \\| |@
+ | |\\  |@
+ |_| \\_|@
+        @@
+0x0148  LATIN SMALL LETTER N WITH CARON
+  \\\\//  @
+  _\\/_  @
+ | '_ \\ @
+ | | | |@
+ |_| |_|@
+        @@
+0x0149  LATIN SMALL LETTER N PRECEDED BY APOSTROPHE
+          @
+  _  __   @
+ ( )| '_\\ @
+ |/| | | |@
+   |_| |_|@
+          @@
+0x014A  LATIN CAPITAL LETTER ENG
+  _   _ @
+ | \\ | |@
+ |  \\| |@
+ | |\\  |@
+ |_| \\ |@
+     )_)@@
+0x014B  LATIN SMALL LETTER ENG
+  _ __  @
+ | '_ \\ @
+ | | | |@
+ |_| | |@
+     | |@
+    |__ @@
+0x014C  LATIN CAPITAL LETTER O WITH MACRON
+   ____ @
+  /_ _/ @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+0x014D  LATIN SMALL LETTER O WITH MACRON
+   ____ @
+  /_ _/ @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+0x014E  LATIN CAPITAL LETTER O WITH BREVE
+  \\   / @
+   _-_  @
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+0x014F  LATIN SMALL LETTER O WITH BREVE
+  \\   / @
+   _-_  @
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+0x0150  LATIN CAPITAL LETTER O WITH DOUBLE ACUTE
+    ___ @
+   /_/_/@
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+0x0151  LATIN SMALL LETTER O WITH DOUBLE ACUTE
+    ___ @
+   /_/_/@
+  / _ \\ @
+ | |_| |@
+  \\___/ @
+        @@
+0x0152  LATIN CAPITAL LIGATURE OE
+   ___  ___ @
+  / _ \\| __|@
+ | | | |  | @
+ | |_| | |__@
+  \\___/|____@
+            @@
+0x0153  LATIN SMALL LIGATURE OE
+             @
+   ___   ___ @
+  / _ \\ / _ \\@
+ | (_) |  __/@
+  \\___/ \\___|@
+             @@
+0x0154  LATIN CAPITAL LETTER R WITH ACUTE
+  _/_/  @
+ |  _ \\ @
+ | |_) |@
+ |  _ < @
+ |_| \\_\\@
+        @@
+0x0155  LATIN SMALL LETTER R WITH ACUTE
+     __@
+  _ /_/@
+ | '__|@
+ | |   @
+ |_|   @
+       @@
+0x0156  LATIN CAPITAL LETTER R WITH CEDILLA
+  ____  @
+ |  _ \\ @
+ | |_) |@
+ |  _ < @
+ |_| \\_\\@
+ )_)    @@
+0x0157  LATIN SMALL LETTER R WITH CEDILLA
+       @
+  _ __ @
+ | '__|@
+ | |   @
+ |_|   @
+   )_) @@
+0x0158  LATIN CAPITAL LETTER R WITH CARON
+  _\\_/  @
+ |  _ \\ @
+ | |_) |@
+ |  _ < @
+ |_| \\_\\@
+        @@
+0x0159  LATIN SMALL LETTER R WITH CARON
+  \\\\// @
+  _\\/_ @
+ | '__|@
+ | |   @
+ |_|   @
+       @@
+0x015A  LATIN CAPITAL LETTER S WITH ACUTE
+  _/_/  @
+ / ___| @
+ \\___ \\ @
+  ___) |@
+ |____/ @
+        @@
+0x015B  LATIN SMALL LETTER S WITH ACUTE
+    __@
+  _/_/@
+ / __|@
+ \\__ \\@
+ |___/@
+      @@
+0x015C  LATIN CAPITAL LETTER S WITH CIRCUMFLEX
+  _/\\_  @
+ / ___| @
+ \\___ \\ @
+  ___) |@
+ |____/ @
+        @@
+0x015D  LATIN SMALL LETTER S WITH CIRCUMFLEX
+      @
+  /_\\_@
+ / __|@
+ \\__ \\@
+ |___/@
+      @@
+0x015E  LATIN CAPITAL LETTER S WITH CEDILLA
+  ____  @
+ / ___| @
+ \\___ \\ @
+  ___) |@
+ |____/ @
+    )__)@@
+0x015F  LATIN SMALL LETTER S WITH CEDILLA
+      @
+  ___ @
+ / __|@
+ \\__ \\@
+ |___/@
+   )_)@@
+0x0160  LATIN CAPITAL LETTER S WITH CARON
+  _\\_/  @
+ / ___| @
+ \\___ \\ @
+  ___) |@
+ |____/ @
+        @@
+0x0161  LATIN SMALL LETTER S WITH CARON
+  \\\\//@
+  _\\/ @
+ / __|@
+ \\__ \\@
+ |___/@
+      @@
+0x0162  LATIN CAPITAL LETTER T WITH CEDILLA
+  _____ @
+ |_   _|@
+   | |  @
+   | |  @
+   |_|  @
+    )__)@@
+0x0163  LATIN SMALL LETTER T WITH CEDILLA
+  _   @
+ | |_ @
+ | __|@
+ | |_ @
+  \\__|@
+   )_)@@
+0x0164  LATIN CAPITAL LETTER T WITH CARON
+  _____ @
+ |_   _|@
+   | |  @
+   | |  @
+   |_|  @
+        @@
+0x0165  LATIN SMALL LETTER T WITH CARON
+  \\/  @
+ | |_ @
+ | __|@
+ | |_ @
+  \\__|@
+      @@
+0x0166  LATIN CAPITAL LETTER T WITH STROKE
+  _____ @
+ |_   _|@
+   | |  @
+  -|-|- @
+   |_|  @
+        @@
+0x0167  LATIN SMALL LETTER T WITH STROKE
+  _   @
+ | |_ @
+ | __|@
+ |-|_ @
+  \\__|@
+      @@
+0x0168  LATIN CAPITAL LETTER U WITH TILDE
+        @
+  _/\\/_ @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+0x0169  LATIN SMALL LETTER U WITH TILDE
+        @
+  _/\\/_ @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+0x016A  LATIN CAPITAL LETTER U WITH MACRON
+   ____ @
+  /__ _/@
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+0x016B  LATIN SMALL LETTER U WITH MACRON
+   ____ @
+  / _  /@
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+0x016C  LATIN CAPITAL LETTER U WITH BREVE
+        @
+   \\_/_ @
+ | | | |@
+ | |_| |@
+  \\____|@
+        @@
+0x016D  LATIN SMALL LETTER U WITH BREVE
+        @
+   \\_/_ @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+0x016E  LATIN CAPITAL LETTER U WITH RING ABOVE
+    O   @
+  __  _ @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+0x016F  LATIN SMALL LETTER U WITH RING ABOVE
+    O   @
+  __ __ @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+0x0170  LATIN CAPITAL LETTER U WITH DOUBLE ACUTE
+   -- --@
+  /_//_/@
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+0x0171  LATIN SMALL LETTER U WITH DOUBLE ACUTE
+    ____@
+  _/_/_/@
+ | | | |@
+ | |_| |@
+  \\__,_|@
+        @@
+0x0172  LATIN CAPITAL LETTER U WITH OGONEK
+  _   _ @
+ | | | |@
+ | | | |@
+ | |_| |@
+  \\___/ @
+    (__(@@
+0x0173  LATIN SMALL LETTER U WITH OGONEK
+        @
+  _   _ @
+ | | | |@
+ | |_| |@
+  \\__,_|@
+     (_(@@
+0x0174  LATIN CAPITAL LETTER W WITH CIRCUMFLEX
+ __    /\\  __@
+ \\ \\  //\\\\/ /@
+  \\ \\ /\\ / / @
+   \\ V  V /  @
+    \\_/\\_/   @
+             @@
+0x0175  LATIN SMALL LETTER W WITH CIRCUMFLEX
+      /\\   @
+ __  //\\\\__@
+ \\ \\ /\\ / /@
+  \\ V  V / @
+   \\_/\\_/  @
+           @@
+0x0176  LATIN CAPITAL LETTER Y WITH CIRCUMFLEX
+    /\\  @
+ __//\\\\ @
+ \\ \\ / /@
+  \\ V / @
+   |_|  @
+        @@
+0x0177  LATIN SMALL LETTER Y WITH CIRCUMFLEX
+    /\\  @
+   //\\\\ @
+ | | | |@
+ | |_| |@
+  \\__, |@
+  |___/ @@
+0x0178  LATIN CAPITAL LETTER Y WITH DIAERESIS
+  []  []@
+ __    _@
+ \\ \\ / /@
+  \\ V / @
+   |_|  @
+        @@
+0x0179  LATIN CAPITAL LETTER Z WITH ACUTE
+  __/_/@
+ |__  /@
+   / / @
+  / /_ @
+ /____|@
+       @@
+0x017A  LATIN SMALL LETTER Z WITH ACUTE
+    _ @
+  _/_/@
+ |_  /@
+  / / @
+ /___|@
+      @@
+0x017B  LATIN CAPITAL LETTER Z WITH DOT ABOVE
+  __[]_@
+ |__  /@
+   / / @
+  / /_ @
+ /____|@
+       @@
+0x017C  LATIN SMALL LETTER Z WITH DOT ABOVE
+   [] @
+  ____@
+ |_  /@
+  / / @
+ /___|@
+      @@
+0x017D  LATIN CAPITAL LETTER Z WITH CARON
+  _\\_/_@
+ |__  /@
+   / / @
+  / /_ @
+ /____|@
+       @@
+0x017E  LATIN SMALL LETTER Z WITH CARON
+  \\\\//@
+  _\\/_@
+ |_  /@
+  / / @
+ /___|@
+      @@
+0x017F  LATIN SMALL LETTER LONG S
+     __ @
+    / _|@
+ |-| |  @
+ |-| |  @
+   |_|  @
+        @@
+0x02C7  CARON
+ \\\\//@
+  \\/ @
+    $@
+    $@
+    $@
+    $@@
+0x02D8  BREVE
+ \\\\_//@
+  \\_/ @
+     $@
+     $@
+     $@
+     $@@
+0x02D9  DOT ABOVE
+ []@
+  $@
+  $@
+  $@
+  $@
+  $@@
+0x02DB  OGONEK
+    $@
+    $@
+    $@
+    $@
+    $@
+ )_) @@
+0x02DD  DOUBLE ACUTE ACCENT
+  _ _ @
+ /_/_/@
+     $@
+     $@
+     $@
+     $@@
+0xCA0  KANNADA LETTER TTHA
+   _____)@
+  /_ ___/@
+  / _ \\  @
+ | (_) | @
+ $\\___/$ @
+         @@
+         `;var S_=`flf2a$ 5 4 13 15 10 0 22415
+Small by Glenn Chappell 4/93 -- based on Standard
+Includes ISO Latin-1
+figlet release 2.1 -- 12 Aug 1994
+Permission is hereby given to modify this font, as long as the
+modifier's name is placed on a comment line.
+
+Modified by Paul Burton <solution@earthlink.net> 12/96 to include new parameter
+supported by FIGlet and FIGWin.  May also be slightly modified for better use
+of new full-width/kern/smush alternatives, but default output is NOT changed.
+
+ $@
+ $@
+ $@
+ $@
+ $@@
+  _ @
+ | |@
+ |_|@
+ (_)@
+    @@
+  _ _ @
+ ( | )@
+  V V @
+   $  @
+      @@
+    _ _   @
+  _| | |_ @
+ |_  .  _|@
+ |_     _|@
+   |_|_|  @@
+     @
+  ||_@
+ (_-<@
+ / _/@
+  || @@
+  _  __ @
+ (_)/ / @
+   / /_ @
+  /_/(_)@
+        @@
+  __     @
+ / _|___ @
+ > _|_ _|@
+ \\_____| @
+         @@
+  _ @
+ ( )@
+ |/ @
+  $ @
+    @@
+   __@
+  / /@
+ | | @
+ | | @
+  \\_\\@@
+ __  @
+ \\ \\ @
+  | |@
+  | |@
+ /_/ @@
+     @
+ _/\\_@
+ >  <@
+  \\/ @
+     @@
+    _   @
+  _| |_ @
+ |_   _|@
+   |_|  @
+        @@
+    @
+    @
+  _ @
+ ( )@
+ |/ @@
+      @
+  ___ @
+ |___|@
+   $  @
+      @@
+    @
+    @
+  _ @
+ (_)@
+    @@
+    __@
+   / /@
+  / / @
+ /_/  @
+      @@
+   __  @
+  /  \\ @
+ | () |@
+  \\__/ @
+       @@
+  _ @
+ / |@
+ | |@
+ |_|@
+    @@
+  ___ @
+ |_  )@
+  / / @
+ /___|@
+      @@
+  ____@
+ |__ /@
+  |_ \\@
+ |___/@
+      @@
+  _ _  @
+ | | | @
+ |_  _|@
+   |_| @
+       @@
+  ___ @
+ | __|@
+ |__ \\@
+ |___/@
+      @@
+   __ @
+  / / @
+ / _ \\@
+ \\___/@
+      @@
+  ____ @
+ |__  |@
+   / / @
+  /_/  @
+       @@
+  ___ @
+ ( _ )@
+ / _ \\@
+ \\___/@
+      @@
+  ___ @
+ / _ \\@
+ \\_, /@
+  /_/ @
+      @@
+  _ @
+ (_)@
+  _ @
+ (_)@
+    @@
+  _ @
+ (_)@
+  _ @
+ ( )@
+ |/ @@
+   __@
+  / /@
+ < < @
+  \\_\\@
+     @@
+      @
+  ___ @
+ |___|@
+ |___|@
+      @@
+ __  @
+ \\ \\ @
+  > >@
+ /_/ @
+     @@
+  ___ @
+ |__ \\@
+   /_/@
+  (_) @
+      @@
+   ____  @
+  / __ \\ @
+ / / _\` |@
+ \\ \\__,_|@
+  \\____/ @@
+    _   @
+   /_\\  @
+  / _ \\ @
+ /_/ \\_\\@
+        @@
+  ___ @
+ | _ )@
+ | _ \\@
+ |___/@
+      @@
+   ___ @
+  / __|@
+ | (__ @
+  \\___|@
+       @@
+  ___  @
+ |   \\ @
+ | |) |@
+ |___/ @
+       @@
+  ___ @
+ | __|@
+ | _| @
+ |___|@
+      @@
+  ___ @
+ | __|@
+ | _| @
+ |_|  @
+      @@
+   ___ @
+  / __|@
+ | (_ |@
+  \\___|@
+       @@
+  _  _ @
+ | || |@
+ | __ |@
+ |_||_|@
+       @@
+  ___ @
+ |_ _|@
+  | | @
+ |___|@
+      @@
+     _ @
+  _ | |@
+ | || |@
+  \\__/ @
+       @@
+  _  __@
+ | |/ /@
+ | ' < @
+ |_|\\_\\@
+       @@
+  _    @
+ | |   @
+ | |__ @
+ |____|@
+       @@
+  __  __ @
+ |  \\/  |@
+ | |\\/| |@
+ |_|  |_|@
+         @@
+  _  _ @
+ | \\| |@
+ | .\` |@
+ |_|\\_|@
+       @@
+   ___  @
+  / _ \\ @
+ | (_) |@
+  \\___/ @
+        @@
+  ___ @
+ | _ \\@
+ |  _/@
+ |_|  @
+      @@
+   ___  @
+  / _ \\ @
+ | (_) |@
+  \\__\\_\\@
+        @@
+  ___ @
+ | _ \\@
+ |   /@
+ |_|_\\@
+      @@
+  ___ @
+ / __|@
+ \\__ \\@
+ |___/@
+      @@
+  _____ @
+ |_   _|@
+   | |  @
+   |_|  @
+        @@
+  _   _ @
+ | | | |@
+ | |_| |@
+  \\___/ @
+        @@
+ __   __@
+ \\ \\ / /@
+  \\ V / @
+   \\_/  @
+        @@
+ __      __@
+ \\ \\    / /@
+  \\ \\/\\/ / @
+   \\_/\\_/  @
+           @@
+ __  __@
+ \\ \\/ /@
+  >  < @
+ /_/\\_\\@
+       @@
+ __   __@
+ \\ \\ / /@
+  \\ V / @
+   |_|  @
+        @@
+  ____@
+ |_  /@
+  / / @
+ /___|@
+      @@
+  __ @
+ | _|@
+ | | @
+ | | @
+ |__|@@
+ __   @
+ \\ \\  @
+  \\ \\ @
+   \\_\\@
+      @@
+  __ @
+ |_ |@
+  | |@
+  | |@
+ |__|@@
+  /\\ @
+ |/\\|@
+   $ @
+   $ @
+     @@
+      @
+      @
+      @
+  ___ @
+ |___|@@
+  _ @
+ ( )@
+  \\|@
+  $ @
+    @@
+       @
+  __ _ @
+ / _\` |@
+ \\__,_|@
+       @@
+  _    @
+ | |__ @
+ | '_ \\@
+ |_.__/@
+       @@
+     @
+  __ @
+ / _|@
+ \\__|@
+     @@
+     _ @
+  __| |@
+ / _\` |@
+ \\__,_|@
+       @@
+      @
+  ___ @
+ / -_)@
+ \\___|@
+      @@
+   __ @
+  / _|@
+ |  _|@
+ |_|  @
+      @@
+       @
+  __ _ @
+ / _\` |@
+ \\__, |@
+ |___/ @@
+  _    @
+ | |_  @
+ | ' \\ @
+ |_||_|@
+       @@
+  _ @
+ (_)@
+ | |@
+ |_|@
+    @@
+    _ @
+   (_)@
+   | |@
+  _/ |@
+ |__/ @@
+  _   @
+ | |__@
+ | / /@
+ |_\\_\\@
+      @@
+  _ @
+ | |@
+ | |@
+ |_|@
+    @@
+        @
+  _ __  @
+ | '  \\ @
+ |_|_|_|@
+        @@
+       @
+  _ _  @
+ | ' \\ @
+ |_||_|@
+       @@
+      @
+  ___ @
+ / _ \\@
+ \\___/@
+      @@
+       @
+  _ __ @
+ | '_ \\@
+ | .__/@
+ |_|   @@
+       @
+  __ _ @
+ / _\` |@
+ \\__, |@
+    |_|@@
+      @
+  _ _ @
+ | '_|@
+ |_|  @
+      @@
+     @
+  ___@
+ (_-<@
+ /__/@
+     @@
+  _   @
+ | |_ @
+ |  _|@
+  \\__|@
+      @@
+       @
+  _  _ @
+ | || |@
+  \\_,_|@
+       @@
+      @
+ __ __@
+ \\ V /@
+  \\_/ @
+      @@
+         @
+ __ __ __@
+ \\ V  V /@
+  \\_/\\_/ @
+         @@
+      @
+ __ __@
+ \\ \\ /@
+ /_\\_\\@
+      @@
+       @
+  _  _ @
+ | || |@
+  \\_, |@
+  |__/ @@
+     @
+  ___@
+ |_ /@
+ /__|@
+     @@
+    __@
+   / /@
+ _| | @
+  | | @
+   \\_\\@@
+  _ @
+ | |@
+ | |@
+ | |@
+ |_|@@
+ __   @
+ \\ \\  @
+  | |_@
+  | | @
+ /_/  @@
+  /\\/|@
+ |/\\/ @
+   $  @
+   $  @
+      @@
+  _  _ @
+ (_)(_)@
+  /--\\ @
+ /_/\\_\\@
+       @@
+  _  _ @
+ (_)(_)@
+ / __ \\@
+ \\____/@
+       @@
+  _   _ @
+ (_) (_)@
+ | |_| |@
+  \\___/ @
+        @@
+  _  _ @
+ (_)(_)@
+ / _\` |@
+ \\__,_|@
+       @@
+  _   _ @
+ (_)_(_)@
+  / _ \\ @
+  \\___/ @
+        @@
+  _  _ @
+ (_)(_)@
+ | || |@
+  \\_,_|@
+       @@
+   ___ @
+  / _ \\@
+ | |< <@
+ | ||_/@
+ |_|   @@
+160  NO-BREAK SPACE
+ $@
+ $@
+ $@
+ $@
+ $@@
+161  INVERTED EXCLAMATION MARK
+  _ @
+ (_)@
+ | |@
+ |_|@
+    @@
+162  CENT SIGN
+     @
+  || @
+ / _)@
+ \\ _)@
+  || @@
+163  POUND SIGN
+    __  @
+  _/ _\\ @
+ |_ _|_ @
+ (_,___|@
+        @@
+164  CURRENCY SIGN
+ /\\_/\\@
+ \\ . /@
+ / _ \\@
+ \\/ \\/@
+      @@
+165  YEN SIGN
+  __ __ @
+  \\ V / @
+ |__ __|@
+ |__ __|@
+   |_|  @@
+166  BROKEN BAR
+  _ @
+ | |@
+ |_|@
+ | |@
+ |_|@@
+167  SECTION SIGN
+    __ @
+   / _)@
+  /\\ \\ @
+  \\ \\/ @
+ (__/  @@
+168  DIAERESIS
+  _  _ @
+ (_)(_)@
+  $  $ @
+  $  $ @
+       @@
+169  COPYRIGHT SIGN
+   ____  @
+  / __ \\ @
+ / / _| \\@
+ \\ \\__| /@
+  \\____/ @@
+170  FEMININE ORDINAL INDICATOR
+  __ _ @
+ / _\` |@
+ \\__,_|@
+ |____|@
+       @@
+171  LEFT-POINTING DOUBLE ANGLE QUOTATION MARK
+   ____@
+  / / /@
+ < < < @
+  \\_\\_\\@
+       @@
+172  NOT SIGN
+  ____ @
+ |__  |@
+    |_|@
+   $   @
+       @@
+173  SOFT HYPHEN
+     @
+  __ @
+ |__|@
+   $ @
+     @@
+174  REGISTERED SIGN
+   ____  @
+  / __ \\ @
+ / | -) \\@
+ \\ ||\\\\ /@
+  \\____/ @@
+175  MACRON
+  ___ @
+ |___|@
+   $  @
+   $  @
+      @@
+176  DEGREE SIGN
+  _ @
+ /.\\@
+ \\_/@
+  $ @
+    @@
+177  PLUS-MINUS SIGN
+    _   @
+  _| |_ @
+ |_   _|@
+  _|_|_ @
+ |_____|@@
+178  SUPERSCRIPT TWO
+  __ @
+ |_ )@
+ /__|@
+   $ @
+     @@
+179  SUPERSCRIPT THREE
+  ___@
+ |_ /@
+ |__)@
+   $ @
+     @@
+180  ACUTE ACCENT
+  __@
+ /_/@
+  $ @
+  $ @
+    @@
+181  MICRO SIGN
+       @
+  _  _ @
+ | || |@
+ | .,_|@
+ |_|   @@
+182  PILCROW SIGN
+  ____ @
+ /    |@
+ \\_ | |@
+  |_|_|@
+       @@
+183  MIDDLE DOT
+    @
+  _ @
+ (_)@
+  $ @
+    @@
+184  CEDILLA
+    @
+    @
+    @
+  _ @
+ )_)@@
+185  SUPERSCRIPT ONE
+  _ @
+ / |@
+ |_|@
+  $ @
+    @@
+186  MASCULINE ORDINAL INDICATOR
+  ___ @
+ / _ \\@
+ \\___/@
+ |___|@
+      @@
+187  RIGHT-POINTING DOUBLE ANGLE QUOTATION MARK
+ ____  @
+ \\ \\ \\ @
+  > > >@
+ /_/_/ @
+       @@
+188  VULGAR FRACTION ONE QUARTER
+  _  __   @
+ / |/ /__ @
+ |_/ /_' |@
+  /_/  |_|@
+          @@
+189  VULGAR FRACTION ONE HALF
+  _  __  @
+ / |/ /_ @
+ |_/ /_ )@
+  /_//__|@
+         @@
+190  VULGAR FRACTION THREE QUARTERS
+  ___ __   @
+ |_ // /__ @
+ |__) /_' |@
+   /_/  |_|@
+           @@
+191  INVERTED QUESTION MARK
+   _  @
+  (_) @
+ / /_ @
+ \\___|@
+      @@
+192  LATIN CAPITAL LETTER A WITH GRAVE
+  __   @
+  \\_\\  @
+  /--\\ @
+ /_/\\_\\@
+       @@
+193  LATIN CAPITAL LETTER A WITH ACUTE
+    __ @
+   /_/ @
+  /--\\ @
+ /_/\\_\\@
+       @@
+194  LATIN CAPITAL LETTER A WITH CIRCUMFLEX
+   /\\  @
+  |/\\| @
+  /--\\ @
+ /_/\\_\\@
+       @@
+195  LATIN CAPITAL LETTER A WITH TILDE
+   /\\/|@
+  |/\\/ @
+  /--\\ @
+ /_/\\_\\@
+       @@
+196  LATIN CAPITAL LETTER A WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+  /--\\ @
+ /_/\\_\\@
+       @@
+197  LATIN CAPITAL LETTER A WITH RING ABOVE
+   __  @
+  (()) @
+  /--\\ @
+ /_/\\_\\@
+       @@
+198  LATIN CAPITAL LETTER AE
+    ____ @
+   /, __|@
+  / _ _| @
+ /_/|___|@
+         @@
+199  LATIN CAPITAL LETTER C WITH CEDILLA
+   ___ @
+  / __|@
+ | (__ @
+  \\___|@
+   )_) @@
+200  LATIN CAPITAL LETTER E WITH GRAVE
+  __ @
+  \\_\\@
+ | -<@
+ |__<@
+     @@
+201  LATIN CAPITAL LETTER E WITH ACUTE
+   __@
+  /_/@
+ | -<@
+ |__<@
+     @@
+202  LATIN CAPITAL LETTER E WITH CIRCUMFLEX
+  /\\ @
+ |/\\|@
+ | -<@
+ |__<@
+     @@
+203  LATIN CAPITAL LETTER E WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+  | -< @
+  |__< @
+       @@
+204  LATIN CAPITAL LETTER I WITH GRAVE
+  __  @
+  \\_\\ @
+ |_ _|@
+ |___|@
+      @@
+205  LATIN CAPITAL LETTER I WITH ACUTE
+   __ @
+  /_/ @
+ |_ _|@
+ |___|@
+      @@
+206  LATIN CAPITAL LETTER I WITH CIRCUMFLEX
+  //\\ @
+ |/_\\|@
+ |_ _|@
+ |___|@
+      @@
+207  LATIN CAPITAL LETTER I WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  |_ _| @
+  |___| @
+        @@
+208  LATIN CAPITAL LETTER ETH
+   ____  @
+  | __ \\ @
+ |_ _|) |@
+  |____/ @
+         @@
+209  LATIN CAPITAL LETTER N WITH TILDE
+   /\\/|@
+  |/\\/ @
+ | \\| |@
+ |_|\\_|@
+       @@
+210  LATIN CAPITAL LETTER O WITH GRAVE
+  __   @
+  \\_\\_ @
+ / __ \\@
+ \\____/@
+       @@
+211  LATIN CAPITAL LETTER O WITH ACUTE
+    __ @
+  _/_/ @
+ / __ \\@
+ \\____/@
+       @@
+212  LATIN CAPITAL LETTER O WITH CIRCUMFLEX
+   /\\  @
+  |/\\| @
+ / __ \\@
+ \\____/@
+       @@
+213  LATIN CAPITAL LETTER O WITH TILDE
+   /\\/|@
+  |/\\/ @
+ / __ \\@
+ \\____/@
+       @@
+214  LATIN CAPITAL LETTER O WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+ / __ \\@
+ \\____/@
+       @@
+215  MULTIPLICATION SIGN
+     @
+ /\\/\\@
+ >  <@
+ \\/\\/@
+     @@
+216  LATIN CAPITAL LETTER O WITH STROKE
+   ____  @
+  / _//\\ @
+ | (//) |@
+  \\//__/ @
+         @@
+217  LATIN CAPITAL LETTER U WITH GRAVE
+   __   @
+  _\\_\\_ @
+ | |_| |@
+  \\___/ @
+        @@
+218  LATIN CAPITAL LETTER U WITH ACUTE
+    __  @
+  _/_/_ @
+ | |_| |@
+  \\___/ @
+        @@
+219  LATIN CAPITAL LETTER U WITH CIRCUMFLEX
+   //\\  @
+  |/ \\| @
+ | |_| |@
+  \\___/ @
+        @@
+220  LATIN CAPITAL LETTER U WITH DIAERESIS
+  _   _ @
+ (_) (_)@
+ | |_| |@
+  \\___/ @
+        @@
+221  LATIN CAPITAL LETTER Y WITH ACUTE
+   __ @
+ _/_/_@
+ \\ V /@
+  |_| @
+      @@
+222  LATIN CAPITAL LETTER THORN
+  _   @
+ | |_ @
+ | -_)@
+ |_|  @
+      @@
+223  LATIN SMALL LETTER SHARP S
+   ___ @
+  / _ \\@
+ | |< <@
+ | ||_/@
+ |_|   @@
+224  LATIN SMALL LETTER A WITH GRAVE
+  __   @
+  \\_\\_ @
+ / _\` |@
+ \\__,_|@
+       @@
+225  LATIN SMALL LETTER A WITH ACUTE
+    __ @
+  _/_/ @
+ / _\` |@
+ \\__,_|@
+       @@
+226  LATIN SMALL LETTER A WITH CIRCUMFLEX
+   /\\  @
+  |/\\| @
+ / _\` |@
+ \\__,_|@
+       @@
+227  LATIN SMALL LETTER A WITH TILDE
+   /\\/|@
+  |/\\/ @
+ / _\` |@
+ \\__,_|@
+       @@
+228  LATIN SMALL LETTER A WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+ / _\` |@
+ \\__,_|@
+       @@
+229  LATIN SMALL LETTER A WITH RING ABOVE
+   __  @
+  (()) @
+ / _\` |@
+ \\__,_|@
+       @@
+230  LATIN SMALL LETTER AE
+         @
+  __ ___ @
+ / _\` -_)@
+ \\__,___|@
+         @@
+231  LATIN SMALL LETTER C WITH CEDILLA
+     @
+  __ @
+ / _|@
+ \\__|@
+  )_)@@
+232  LATIN SMALL LETTER E WITH GRAVE
+  __  @
+  \\_\\ @
+ / -_)@
+ \\___|@
+      @@
+233  LATIN SMALL LETTER E WITH ACUTE
+   __ @
+  /_/ @
+ / -_)@
+ \\___|@
+      @@
+234  LATIN SMALL LETTER E WITH CIRCUMFLEX
+  //\\ @
+ |/_\\|@
+ / -_)@
+ \\___|@
+      @@
+235  LATIN SMALL LETTER E WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  / -_) @
+  \\___| @
+        @@
+236  LATIN SMALL LETTER I WITH GRAVE
+ __ @
+ \\_\\@
+ | |@
+ |_|@
+    @@
+237  LATIN SMALL LETTER I WITH ACUTE
+  __@
+ /_/@
+ | |@
+ |_|@
+    @@
+238  LATIN SMALL LETTER I WITH CIRCUMFLEX
+  //\\ @
+ |/_\\|@
+  | | @
+  |_| @
+      @@
+239  LATIN SMALL LETTER I WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+   | |  @
+   |_|  @
+        @@
+240  LATIN SMALL LETTER ETH
+  \\\\/\\ @
+  \\/\\\\ @
+ / _\` |@
+ \\___/ @
+       @@
+241  LATIN SMALL LETTER N WITH TILDE
+  /\\/| @
+ |/\\/  @
+ | ' \\ @
+ |_||_|@
+       @@
+242  LATIN SMALL LETTER O WITH GRAVE
+  __  @
+  \\_\\ @
+ / _ \\@
+ \\___/@
+      @@
+243  LATIN SMALL LETTER O WITH ACUTE
+   __ @
+  /_/ @
+ / _ \\@
+ \\___/@
+      @@
+244  LATIN SMALL LETTER O WITH CIRCUMFLEX
+  //\\ @
+ |/_\\|@
+ / _ \\@
+ \\___/@
+      @@
+245  LATIN SMALL LETTER O WITH TILDE
+  /\\/|@
+ |/\\/ @
+ / _ \\@
+ \\___/@
+      @@
+246  LATIN SMALL LETTER O WITH DIAERESIS
+  _   _ @
+ (_)_(_)@
+  / _ \\ @
+  \\___/ @
+        @@
+247  DIVISION SIGN
+   _  @
+  (_) @
+ |___|@
+  (_) @
+      @@
+248  LATIN SMALL LETTER O WITH STROKE
+      @
+  ___ @
+ / //\\@
+ \\//_/@
+      @@
+249  LATIN SMALL LETTER U WITH GRAVE
+  __   @
+  \\_\\_ @
+ | || |@
+  \\_,_|@
+       @@
+250  LATIN SMALL LETTER U WITH ACUTE
+    __ @
+  _/_/ @
+ | || |@
+  \\_,_|@
+       @@
+251  LATIN SMALL LETTER U WITH CIRCUMFLEX
+   /\\  @
+  |/\\| @
+ | || |@
+  \\_,_|@
+       @@
+252  LATIN SMALL LETTER U WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+ | || |@
+  \\_,_|@
+       @@
+253  LATIN SMALL LETTER Y WITH ACUTE
+    __ @
+  _/_/ @
+ | || |@
+  \\_, |@
+  |__/ @@
+254  LATIN SMALL LETTER THORN
+  _    @
+ | |__ @
+ | '_ \\@
+ | .__/@
+ |_|   @@
+255  LATIN SMALL LETTER Y WITH DIAERESIS
+  _  _ @
+ (_)(_)@
+ | || |@
+  \\_, |@
+  |__/ @@
+`;var Q_={"ANSI Shadow":f_,"Small Slant":m_,Mini:$_,Standard:N_,Small:S_},C_=new Set;function q_(r){C_.has(r)||(Q.parseFont(r,Q_[r]),C_.add(r))}function _e(r){return r.replace(/\s+/g," ").trim()}function ee(r,L={}){let E=_e(r);if(!E)return"";let u=L.font??"ANSI Shadow";q_(u);try{return Q.textSync(E,{font:u,horizontalLayout:L.horizontalLayout??"fitted",verticalLayout:L.verticalLayout??"fitted",width:L.width??80,whitespaceBreak:!0}).replace(/\s+$/,"")}catch{return E.toUpperCase()}}function a_(r,L,E="daily",u="",c){let l=r.toUpperCase(),R=E.toUpperCase(),I=u?`${R} \u2022 ${u}`:R,f=ee(l,{font:"ANSI Shadow",width:84}),$=f?`\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7\xB7
+${f}`:"",D=I||"",C=["[HEADER_START]"];$&&C.push($),D?C.push(D):I&&C.push(I),C.push("[HEADER_END]");let p=C.join(`
+`),y=L.split(" "),M=[],b="";for(let W of y)(b+W).length>66?(M.push(b.trim()),b=W+" "):b+=W+" ";b.trim()&&M.push(b.trim());let U=M.join(`
+`);return`${p}
+
+${U}
+`}function z(r){return r.generated?`${r.label} \u2022 OFFLINE ORACLE`:r.label}var w=r=>r.replace(/&/g,"&amp;").replace(/</g,"&lt;").replace(/>/g,"&gt;").replace(/"/g,"&quot;").replace(/'/g,"&#039;");function te(r){let L=r.split(`
+`),E=[],u=[],c=[],l=!1,R=0;for(let I of L){if(I.includes("[HEADER_START]")){l=!0,R=0;continue}if(I.includes("[HEADER_END]")){l=!1,R=0;continue}if(l){R++;let f=R===1,g="color: #FFD700; display: block; font-family: 'JetBrains Mono', 'SF Mono', 'Courier New', monospace;",$=f?`<span style="${g} font-weight: 900; letter-spacing: 0.18em; font-size: clamp(18px, 4vw, 32px); text-transform: uppercase;">${w(I)}</span>`:`<span style="${g} font-weight: 700; letter-spacing: 0.04em; font-size: clamp(14px, 3vw, 24px); text-transform: none; white-space: pre; line-height: 1.15;">${w(I)}</span>`;E.push($),u.push($)}else if(I.trim()){let f=`<span style="color: #00FF41;">${w(I)}</span>`;E.push(f),c.push(f)}else E.push(I),c.push(I)}return{fullHtml:E.join(`
+`),headerHtml:u.join(`
+`),bodyHtml:c.join(`
+`)}}function ne(r){let L="[HEADER_START]",E="[HEADER_END]",u=r.indexOf(L),c=r.indexOf(E);if(u===-1||c===-1)return{header:"",body:r.trim()};let l=r.slice(u+L.length,c).trim(),R=r.slice(c+E.length).trimStart();return{header:l,body:R}}function g_(r,L,E){let u=n_(r),c=a_(r,L.text,L.period,z(L),u),l=ne(c),R=E!=="none"?h_(c,E):te(c);return{ascii:c,headerText:l.header,bodyText:l.body,...R}}var s_="lolcat";var p_="https://stargram.app";function M_(r,L,E){let u=[r];return L!=="daily"&&u.push(L),E&&u.push(E),`/${u.join("/")}`}var q=[{name:"TURQUOISE",vibe:"cyan pop",base:"#F8FFFF",secondary:"#B2EBF2",accent:"#00BCD4",text:"#006978",border:"#00838F"},{name:"CORAL",vibe:"coral punch",base:"#FFF5F0",secondary:"#FFCCBC",accent:"#FF5722",text:"#BF360C",border:"#E64A19"},{name:"PURPLE",vibe:"electric purple",base:"#FAF7FF",secondary:"#E1BEE7",accent:"#9C27B0",text:"#4A148C",border:"#6A1B9A"},{name:"CYBER",vibe:"cyber blue",base:"#F8FAFF",secondary:"#C5CAE9",accent:"#3F51B5",text:"#1A237E",border:"#283593"},{name:"MAGENTA",vibe:"magenta burst",base:"#FFF9FA",secondary:"#F8BBD0",accent:"#E91E63",text:"#880E4F",border:"#AD1457"},{name:"TEAL",vibe:"teal wave",base:"#F0FFFF",secondary:"#B2DFDB",accent:"#009688",text:"#004D40",border:"#00695C"},{name:"RISO",vibe:"risograph clash",base:"#FFFEF7",secondary:"#FFF59D",accent:"#FF1493",text:"#C2185B",border:"#D81B60"},{name:"MIDNIGHT",vibe:"midnight oracle",base:"#0a0a1f",secondary:"#1a1a3a",accent:"#9C27B0",text:"#e0e7ff",border:"#6A1B9A"},{name:"NEON_ORACLE",vibe:"neon oracle",base:"#0d0d1a",secondary:"#1a1a2e",accent:"#FF1493",text:"#00D9FF",border:"#FF1493"},{name:"STARDUST",vibe:"stardust shimmer",base:"#F8F7FF",secondary:"#E8E3FF",accent:"#D4B5F7",text:"#6A4C93",border:"#9D84B7"},{name:"CHERRY",vibe:"cherry red",base:"#FFF5F7",secondary:"#FFCDD2",accent:"#F44336",text:"#B71C1C",border:"#C62828"},{name:"TERMINAL",vibe:"hacker mode",base:"#1a1a1a",secondary:"#2a2a2a",accent:"#00ff41",text:"#00ff41",border:"#00ff41"}];var qe=Math.floor(Math.random()*q.length);var re="TERMINAL";function H_(r){let L=(r??"").toUpperCase();return q.find(E=>E.name===L)??q.find(E=>E.name===re)}function y_(r){return`
+.stargram-embed {
+  --embed-border: ${r.border};
+  --embed-accent: ${r.accent};
+  box-sizing: border-box;
+  margin: 0;
+  border: 3px solid var(--embed-border);
+  border-radius: 14px;
+  overflow: hidden;
+  background:
+    linear-gradient(135deg, rgb(255 106 0 / 0.12), rgb(255 0 132 / 0.1) 38%,
+      rgb(178 0 209 / 0.11) 68%, rgb(128 0 150 / 0.14)),
+    rgb(2 4 12 / 0.98);
+  color: #00FF41;
+  font-family: 'JetBrains Mono', 'SF Mono', 'Fira Code', 'Courier New', monospace;
+}
+.stargram-embed * { box-sizing: border-box; }
+.stargram-embed .embed-bar {
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 12px;
+  background: #000;
+  border-bottom: 2px solid var(--embed-border);
+  font-size: 12px;
+  color: var(--embed-accent);
+}
+.stargram-embed .embed-dot {
+  width: 10px;
+  height: 10px;
+  border-radius: 50%;
+  background: var(--embed-accent);
+  opacity: 0.8;
+}
+.stargram-embed .embed-path { margin-left: 6px; opacity: 0.9; }
+.stargram-embed .embed-art {
+  margin: 0;
+  padding: 14px 16px;
+  font-size: 12px;
+  line-height: 1.35;
+  white-space: pre;
+  overflow-x: auto;
+  text-shadow: 0 0 2px rgba(0, 0, 0, 0.3), 0 0 4px currentColor;
+}
+/* Header spans are blocks sized for the full page; the newlines in the pre already break lines */
+.stargram-embed .embed-art span {
+  display: inline !important;
+  font-size: inherit !important;
+}
+.stargram-embed .embed-footer {
+  display: flex;
+  justify-content: space-between;
+  gap: 8px;
+  padding: 8px 12px;
+  border-top: 1px solid var(--embed-border);
+  font-size: 11px;
+}
+.stargram-embed .embed-footer a {
+  color: var(--embed-accent);
+  text-decoration: none;
+}
+.stargram-embed .embed-footer a:hover { text-decoration: underline; }
+.stargram-embed .embed-message { padding: 16px; font-size: 13px; }
+`}function O_(r,L,E){return`<div class="stargram-embed">
+<div class="embed-bar"><span class="embed-dot"></span><span class="embed-dot"></span><span class="embed-dot"></span><span class="embed-path">~/horoscope/${w(r.sign)}-${w(r.period)}.txt</span></div>
+<pre class="embed-art">${L.fullHtml}</pre>
+<div class="embed-footer"><span>${w(z(r))}</span><a href="${w(E)}" target="_blank" rel="noopener">stargram.app \u2197</a></div>
+</div>`}function Y(r){return`<div class="stargram-embed"><div class="embed-message">${w(r)}</div><div class="embed-footer"><span></span><a href="${p_}" target="_blank" rel="noopener">stargram.app \u2197</a></div></div>`}var b_=new URL(import.meta.url).origin,Te=u_({baseUrl:b_}),i_=class extends HTMLElement{static observedAttributes=["sign","period","effect","theme","api-key"];root=this.attachShadow({mode:"open"});requestId=0;connectedCallback(){this.load()}attributeChangedCallback(L,E,u){this.isConnected&&E!==u&&this.load()}render(L){let E=H_(this.getAttribute("theme"));this.root.innerHTML=`<style>:host { display: block; }${y_(E)}</style>${L}`}async load(){let L=(this.getAttribute("sign")??"").toLowerCase(),E=this.getAttribute("period")||"daily",u=this.getAttribute("effect"),c=u&&e_.some(R=>R.value===u)?u:s_;if(!I_(L)||!r_(E)){this.render(Y(`\u2716 Unknown sign or period: ${L}`));return}let l=++this.requestId;this.render(Y("\u2728 Consulting the stars..."));try{let R=this.getAttribute("api-key"),I=await Te.getReading({sign:L,period:E,tz:Intl.DateTimeFormat().resolvedOptions().timeZone},{headers:R?{"X-Api-Key":R}:void 0});if(l!==this.requestId)return;if(!I.ok){let{message:g}=R_(I.error.code,I.retryAfter);this.render(Y(g));return}let f=I.data.data;this.render(O_(f,g_(L,f,c),`${b_}${M_(L,f.period,f.date)}`))}catch(R){if(l!==this.requestId)return;console.error("stargram-horoscope:",R),this.render(Y("\u2716 The stars are unreachable right now"))}}};customElements.get("stargram-horoscope")||customElements.define("stargram-horoscope",i_);
@@ -2,6 +2,9 @@
 // Enables offline functionality and PWA features
 
 const CACHE_NAME = "cosmic-horoscope-v1";
+// Readings, kept with their ETag and revalidated on every request
+const READINGS_CACHE_NAME = "cosmic-horoscope-readings-v1";
+const MAX_CACHED_READINGS = 60;
 const urlsToCache = [
   "/",
   "/styles.css",
@@ -32,6 +35,7 @@ self.addEventListener("activate", (event) => {
         cacheNames.map((cacheName) => {
           if (
             cacheName !== CACHE_NAME &&
+            cacheName !== READINGS_CACHE_NAME &&
             cacheName.startsWith("cosmic-horoscope-")
           ) {
             console.log("🗑️ Removing old cache:", cacheName);
@@ -43,11 +47,54 @@ self.addEventListener("activate", (event) => {
   );
 });
 
+// Readings: always ask the network, with the cached copy's ETag so an
+// unchanged reading comes back as an empty 304. Offline, the cached
+// copy is better than nothing.
+async function revalidateReading(request) {
+  const cache = await caches.open(READINGS_CACHE_NAME);
+  const cachedResponse = await cache.match(request);
+  const etag = cachedResponse?.headers.get("ETag");
+
+  // The page sent its own validator: let its 304 through untouched
+  const pageHasCopy = request.headers.has("If-None-Match");
+  const headers = new Headers(request.headers);
+  if (etag && !pageHasCopy) headers.set("If-None-Match", etag);
+
+  let response;
+  try {
+    response = await fetch(new Request(request, { headers }));
+  } catch (error) {
+    if (cachedResponse) return cachedResponse;
+    throw error;
+  }
+
+  if (response.status === 304 && cachedResponse && !pageHasCopy) {
+    return cachedResponse;
+  }
+  if (response.status === 200 && response.headers.has("ETag")) {
+    await cache.put(request, response.clone());
+    const keys = await cache.keys();
+    // Oldest first
+    for (const key of keys.slice(0, keys.length - MAX_CACHED_READINGS)) {
+      await cache.delete(key);
+    }
+  }
+  return response;
+}
+
 // Fetch event - serve from cache when possible
 self.addEventListener("fetch", (event) => {
   // Skip non-GET requests
   if (event.request.method !== "GET") return;
 
+  const url = new URL(event.request.url);
+  if (
+    url.origin === self.location.origin && url.pathname === "/api/horoscope"
+  ) {
+    event.respondWith(revalidateReading(event.request));
+    return;
+  }
+
   // Skip external API requests (horoscope API, PostHog)
   if (
     event.request.url.includes("/api/horoscope") ||
@@ -55,7 +102,7 @@ self.addEventListener("fetch", (event) => {
     event.request.url.includes("posthog.com") ||
     event.request.url.includes("ko-fi.com")
   ) {
-    // Network-only for API calls - don't cache horoscope data
+    // Network-only for other API calls
     return;
   }
 
@@ -0,0 +1,299 @@
+// ===================================================================
+// API KEYS - Partner keys with daily quotas and allowed origins
+// ===================================================================
+// Partners send their key in the X-Api-Key header. A key carries:
+//   - a daily quota (requests per UTC day) instead of the per-IP buckets
+//   - the origins browsers may call with it (exact, "https://*.example.com"
+//     for subdomains, or "*"); requests without an Origin header
+//     (servers) and same-origin requests are always fine
+//   - usage counters per day and per route
+//
+// Keys are stored in KV by the SHA-256 of the secret, so a KV dump
+// doesn't leak usable keys. Manage them with scripts/apiKeys.ts.
+// Without KV there are no keys: keyed requests are treated as anonymous.
+//
+// Keys are optional for our own islands and the embed element: those
+// are limited per IP and, from other sites, per origin. Other sites
+// need a key for anything but single readings.
+
+import { getKv } from "./kv.ts";
+import { toIsoDate } from "./horoscope/dates.ts";
+import { errorResponse, HoroscopeApiError } from "./horoscope/errors.ts";
+import { rateLimitHeaders, type RateLimitResult } from "./rateLimit.ts";
+import { log } from "./log.ts";
+
+export const API_KEY_HEADER = "X-Api-Key";
+
+const KEY_PREFIX = "sg_";
+const DAY_MS = 86_400_000;
+// Usage counters stay around for the monthly report, then expire
+const USAGE_RETENTION_MS = 100 * DAY_MS;
+
+export interface ApiKeyRecord {
+  /** Public identifier, safe to log and share (the secret is never stored) */
+  id: string;
+  name: string;
+  /** Origins browsers may call from; empty means server-side use only */
+  origins: string[];
+  /** Requests per UTC day */
+  dailyQuota: number;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+export interface ApiKeyUsage {
+  day: string;
+  total: number;
+  routes: Record<string, number>;
+}
+
+/**
+ * SHA-256 of a key, hex encoded; the KV lookup key
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * A new random key: sg_ + 32 url-safe characters
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const encoded = btoa(String.fromCharCode(...bytes))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_");
+  return `${KEY_PREFIX}${encoded}`;
+}
+
+/**
+ * Whether a browser on `origin` may use the key
+ */
+export function isOriginAllowed(origin: string, allowed: string[]): boolean {
+  return allowed.some((pattern) => {
+    if (pattern === "*" || pattern === origin) return true;
+    // https://*.example.com matches https://app.example.com, not example.com
+    const wildcard = pattern.match(/^(https?:\/\/)\*\.(.+)$/);
+    return Boolean(wildcard) && origin.startsWith(wildcard![1]) &&
+      origin.endsWith(`.${wildcard![2]}`);
+  });
+}
+
+// Origins live keys allow, reloaded at most once a minute so preflights
+// don't scan every key (a new key's origins can take that long to work)
+const ORIGIN_CACHE_MS = 60_000;
+let keyOrigins: { patterns: Promise<string[]>; expiresAt: number } | null =
+  null;
+
+function getKeyOriginPatterns(now: number): Promise<string[]> {
+  if (!keyOrigins || keyOrigins.expiresAt <= now) {
+    const patterns = getApiKeyStore().then(async (store) => {
+      if (!store) return [];
+      const records = (await store.list()).map(({ record }) => record);
+      return [
+        ...new Set(
+          records.filter((record) => !record.revokedAt)
+            .flatMap((record) => record.origins),
+        ),
+      ];
+    });
+    keyOrigins = { patterns, expiresAt: now + ORIGIN_CACHE_MS };
+    // Let the next preflight try again rather than caching the failure
+    patterns.catch(() => (keyOrigins = null));
+  }
+  return keyOrigins.patterns;
+}
+
+/**
+ * Whether any live key lets browsers on `origin` call the API (for CORS
+ * preflights, which arrive without the key). False when keys can't be
+ * checked.
+ */
+export async function isOriginAllowedByAnyKey(
+  origin: string,
+  now: number = Date.now(),
+): Promise<boolean> {
+  try {
+    return isOriginAllowed(origin, await getKeyOriginPatterns(now));
+  } catch (error) {
+    log.error("API key store unavailable, refusing preflight", { error });
+    return false;
+  }
+}
+
+/**
+ * Count a request against the day's quota
+ */
+export function takeQuota(
+  quota: number,
+  used: number,
+  now: number,
+): RateLimitResult {
+  const allowed = used < quota;
+  const resetMs = DAY_MS - (now % DAY_MS);
+  return {
+    allowed,
+    limit: quota,
+    remaining: Math.max(0, quota - used - (allowed ? 1 : 0)),
+    retryAfterMs: allowed ? 0 : resetMs,
+    resetMs,
+  };
+}
+
+export class KvApiKeyStore {
+  constructor(private kv: Deno.Kv, private maxAttempts = 3) {}
+
+  async get(hash: string): Promise<ApiKeyRecord | null> {
+    return (await this.kv.get<ApiKeyRecord>(["api-keys", hash])).value;
+  }
+
+  async save(hash: string, record: ApiKeyRecord): Promise<void> {
+    await this.kv.set(["api-keys", hash], record);
+  }
+
+  async list(): Promise<{ hash: string; record: ApiKeyRecord }[]> {
+    const keys = [];
+    for await (
+      const entry of this.kv.list<ApiKeyRecord>({ prefix: ["api-keys"] })
+    ) {
+      keys.push({ hash: entry.key[1] as string, record: entry.value });
+    }
+    return keys;
+  }
+
+  /**
+   * Take one request from the key's quota for today and bump the
+   * usage counters
+   */
+  async consume(
+    record: ApiKeyRecord,
+    route: string,
+    now: number,
+  ): Promise<RateLimitResult> {
+    const day = toIsoDate(new Date(now));
+    const totalKey = ["api-usage", record.id, day];
+    const options = { expireIn: USAGE_RETENTION_MS };
+    let last: RateLimitResult | null = null;
+
+    // Optimistic concurrency, like the rate limit buckets
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const entry = await this.kv.get<number>(totalKey);
+      const used = entry.value ?? 0;
+      last = takeQuota(record.dailyQuota, used, now);
+      if (!last.allowed) return last;
+
+      const commit = await this.kv.atomic()
+        .check(entry)
+        .set(totalKey, used + 1, options)
+        .sum(["api-usage-routes", record.id, day, route], 1n)
+        .commit();
+      if (commit.ok) return last;
+    }
+
+    // Heavy contention: let it through uncounted rather than fail
+    return last!;
+  }
+
+  async usage(id: string, days: string[]): Promise<ApiKeyUsage[]> {
+    return await Promise.all(days.map(async (day) => {
+      const total = await this.kv.get<number>(["api-usage", id, day]);
+      const routes: Record<string, number> = {};
+      for await (
+        const entry of this.kv.list<Deno.KvU64>({
+          prefix: ["api-usage-routes", id, day],
+        })
+      ) {
+        routes[entry.key[3] as string] = Number(entry.value.value);
+      }
+      return { day, total: total.value ?? 0, routes };
+    }));
+  }
+}
+
+let storePromise: Promise<KvApiKeyStore | null> | null = null;
+
+/**
+ * The key store, or null when KV isn't available
+ */
+export function getApiKeyStore(): Promise<KvApiKeyStore | null> {
+  if (!storePromise) {
+    storePromise = getKv().then((kv) => kv ? new KvApiKeyStore(kv) : null);
+  }
+  return storePromise;
+}
+
+/**
+ * Check the caller's key, origin and quota, then run `next`.
+ * `anonymous` handles the request when keys can't be checked (no KV,
+ * store errors), so an outage degrades to per-IP limits.
+ */
+export async function withApiKey(
+  req: Request,
+  key: string,
+  route: string,
+  next: () => Promise<Response>,
+  anonymous: () => Promise<Response>,
+): Promise<Response> {
+  let store: KvApiKeyStore | null;
+  let record: ApiKeyRecord | null;
+  try {
+    store = await getApiKeyStore();
+    record = store ? await store.get(await hashApiKey(key)) : null;
+  } catch (error) {
+    log.error("API key store unavailable, serving anonymously", { error });
+    return anonymous();
+  }
+  if (!store) return anonymous();
+
+  if (!record || record.revokedAt) {
+    return errorResponse(
+      new HoroscopeApiError("invalid_api_key", "Unknown or revoked API key"),
+    );
+  }
+
+  const origin = req.headers.get("origin");
+  if (
+    origin && origin !== new URL(req.url).origin &&
+    !isOriginAllowed(origin, record.origins)
+  ) {
+    return errorResponse(
+      new HoroscopeApiError(
+        "origin_not_allowed",
+        `This API key can't be used from ${origin}`,
+      ),
+    );
+  }
+
+  let result: RateLimitResult;
+  try {
+    result = await store.consume(record, route, Date.now());
+  } catch (error) {
+    log.error("API key quota unavailable, letting request through", {
+      keyId: record.id,
+      error,
+    });
+    return next();
+  }
+
+  if (!result.allowed) {
+    return errorResponse(
+      new HoroscopeApiError(
+        "quota_exceeded",
+        `Daily quota of ${record.dailyQuota} requests used up`,
+        { retryAfter: Math.ceil(result.retryAfterMs / 1000) },
+      ),
+      rateLimitHeaders(result),
+    );
+  }
+
+  const response = await next();
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
@@ -0,0 +1,305 @@
+// ===================================================================
+// CALENDAR - iCalendar (.ics) subscription per sign
+// ===================================================================
+// Each daily reading is an all-day event on its date, and sign
+// seasons (from ZODIAC_SIGNS) can be added as yearly all-day events.
+//
+// UIDs are derived from sign + date, so a client refreshing the
+// subscription updates events in place instead of duplicating them.
+// "Today" is the subscriber's today, and the calendar carries a
+// VTIMEZONE for their zone so clients file the all-day dates under
+// the right days.
+
+import { getZodiacSign, ZODIAC_SIGNS } from "./zodiac.ts";
+import { getSignPath, SITE_URL } from "./seo.ts";
+import type { Feed } from "./feeds.ts";
+import { addDays, parseIsoDate } from "./horoscope/dates.ts";
+
+export const CALENDAR_CONTENT_TYPE = "text/calendar; charset=utf-8";
+export const DEFAULT_CALENDAR_DAYS = 30;
+export const MAX_CALENDAR_DAYS = 90;
+
+const UID_DOMAIN = "stargram.app";
+// Season events recur yearly from here; a fixed start keeps them
+// byte-identical between refreshes
+const SEASON_BASE_YEAR = 2024;
+const MONTH_INDEX: Record<string, number> = {
+  Jan: 0,
+  Feb: 1,
+  Mar: 2,
+  Apr: 3,
+  May: 4,
+  Jun: 5,
+  Jul: 6,
+  Aug: 7,
+  Sep: 8,
+  Oct: 9,
+  Nov: 10,
+  Dec: 11,
+};
+
+/** Which sign seasons to include */
+export type SeasonOption = "none" | "sign" | "all";
+
+export function isSeasonOption(value: string): value is SeasonOption {
+  return value === "none" || value === "sign" || value === "all";
+}
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** YYYYMMDD for DATE values */
+const formatDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${
+    pad(date.getUTCDate())
+  }`;
+
+/** YYYYMMDDTHHMMSSZ for UTC DATE-TIME values */
+const formatUtc = (date: Date) =>
+  `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${
+    pad(date.getUTCSeconds())
+  }Z`;
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 §3.1), without
+ * splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+  let size = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the 75
+    const max = chunks.length === 0 ? 75 : 74;
+    if (size + bytes > max) {
+      chunks.push(chunk);
+      chunk = "";
+      size = 0;
+    }
+    chunk += char;
+    size += bytes;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+// ===================================================================
+// VTIMEZONE
+// ===================================================================
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * UTC offset of a timezone at an instant, in minutes east of UTC
+ */
+export function getUtcOffset(timeZone: string, at: Date): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      timeZoneName: "longOffset",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const name = formatter.formatToParts(at)
+    .find((part) => part.type === "timeZoneName")?.value;
+  const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0; // "GMT" on its own
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * Local wall-clock time as a floating DATE-TIME (no Z)
+ */
+const formatLocal = (at: Date, offset: number) =>
+  formatUtc(new Date(at.getTime() + offset * 60_000)).slice(0, -1);
+
+/**
+ * Offset changes between two instants, found by scanning daily and
+ * narrowing each change down to the minute
+ */
+function findTransitions(timeZone: string, from: Date, to: Date) {
+  const transitions: { at: Date; from: number; to: number }[] = [];
+  let previous = getUtcOffset(timeZone, from);
+
+  for (let day = from; day < to; day = addDays(day, 1)) {
+    const next = addDays(day, 1);
+    const offset = getUtcOffset(timeZone, next);
+    if (offset === previous) continue;
+
+    let low = day.getTime();
+    let high = next.getTime();
+    while (high - low > 60_000) {
+      const mid = Math.floor((low + high) / 2 / 60_000) * 60_000;
+      if (getUtcOffset(timeZone, new Date(mid)) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: new Date(high), from: previous, to: offset });
+    previous = offset;
+  }
+  return transitions;
+}
+
+// Zone rules only change with tzdata updates, so once a year is plenty
+const vtimezoneCache = new Map<string, string[]>();
+
+/**
+ * VTIMEZONE for an IANA zone, covering last year through next year
+ * (the span a subscription shows). Zones without DST get a single
+ * STANDARD block.
+ */
+export function buildVTimezone(timeZone: string, now: Date): string[] {
+  const year = now.getUTCFullYear();
+  const id = `${timeZone}:${year}`;
+  const cached = vtimezoneCache.get(id);
+  if (cached) return cached;
+
+  const from = new Date(Date.UTC(year - 1, 0, 1));
+  const to = new Date(Date.UTC(year + 2, 0, 1));
+  const transitions = findTransitions(timeZone, from, to);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getUtcOffset(timeZone, now));
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD",
+    );
+  }
+
+  for (const transition of transitions) {
+    // Clocks going forward start daylight time
+    const kind = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      // Transition instant in the wall-clock time it replaces
+      `DTSTART:${formatLocal(transition.at, transition.from)}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      `END:${kind}`,
+    );
+  }
+
+  lines.push("END:VTIMEZONE");
+  vtimezoneCache.set(id, lines);
+  return lines;
+}
+
+// ===================================================================
+// EVENTS
+// ===================================================================
+
+function buildReadingEvents(feed: Feed): string[] {
+  const emoji = getZodiacSign(feed.sign)?.emoji ?? "✨";
+
+  return feed.readings.flatMap((reading) => {
+    const start = parseIsoDate(reading.date);
+    if (!start) return [];
+    const url = `${SITE_URL}${
+      getSignPath(reading.sign, reading.period, reading.date)
+    }`;
+    return [
+      "BEGIN:VEVENT",
+      `UID:${reading.sign}-${reading.period}-${reading.date}@${UID_DOMAIN}`,
+      // Stable, so refreshing doesn't look like an edit
+      `DTSTAMP:${formatUtc(start)}`,
+      `DTSTART;VALUE=DATE:${formatDate(start)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(start, 1))}`,
+      `SUMMARY:${escapeText(`${emoji} ${capitalize(reading.sign)} horoscope`)}`,
+      `DESCRIPTION:${escapeText(`${reading.text}\n\n${url}`)}`,
+      `URL:${url}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+}
+
+/**
+ * Yearly all-day events on the first day of each sign's season
+ * ("Mar 21 - Apr 19" starts Mar 21)
+ */
+function buildSeasonEvents(signs: typeof ZODIAC_SIGNS): string[] {
+  return signs.flatMap((sign) => {
+    const [month, day] = sign.dates.split(" - ")[0].split(" ");
+    const start = new Date(
+      Date.UTC(SEASON_BASE_YEAR, MONTH_INDEX[month], Number(day)),
+    );
+    const name = capitalize(sign.name);
+    return [
+      "BEGIN:VEVENT",
+      `UID:season-${sign.name}@${UID_DOMAIN}`,
+      `DTSTAMP:${formatUtc(new Date(Date.UTC(SEASON_BASE_YEAR, 0, 1)))}`,
+      `DTSTART;VALUE=DATE:${formatDate(start)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDays(start, 1))}`,
+      "RRULE:FREQ=YEARLY",
+      `SUMMARY:${escapeText(`${sign.emoji} ${name} season begins`)}`,
+      `DESCRIPTION:${
+        escapeText(`${name} season runs ${sign.dates}. ${sign.motto}`)
+      }`,
+      `URL:${SITE_URL}${getSignPath(sign.name, "daily")}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+}
+
+/**
+ * Full VCALENDAR document, CRLF line endings and folded lines
+ */
+export function renderCalendar(
+  feed: Feed,
+  options: { timeZone: string; seasons: SeasonOption; now?: Date },
+): string {
+  const now = options.now ?? new Date();
+  const name = capitalize(feed.sign);
+  const seasonSigns = options.seasons === "all"
+    ? ZODIAC_SIGNS
+    : options.seasons === "sign"
+    ? ZODIAC_SIGNS.filter((sign) => sign.name === feed.sign)
+    : [];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Stargram//Horoscope Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${name} Horoscope • Stargram`)}`,
+    `X-WR-CALDESC:${escapeText(feed.description)}`,
+    `X-WR-TIMEZONE:${options.timeZone}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT6H",
+    "X-PUBLISHED-TTL:PT6H",
+    ...buildVTimezone(options.timeZone, now),
+    ...buildReadingEvents(feed),
+    ...buildSeasonEvents(seasonSigns),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
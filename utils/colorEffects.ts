@@ -89,6 +89,28 @@ export function getEffectColor(
   }
 }
 
+// Header colors for each effect (brighter than body)
+export const HEADER_COLORS: Record<string, string> = {
+  unicorn: "hsl(280, 100%, 75%)", // Bright purple
+  fire: "hsl(40, 100%, 65%)", // Bright orange-yellow
+  cyberpunk: "hsl(320, 100%, 70%)", // Hot pink
+  sunrise: "hsl(30, 100%, 70%)", // Golden
+  vaporwave: "hsl(310, 95%, 75%)", // Pink-purple
+  chrome: "hsl(200, 60%, 85%)", // Light cyan
+  ocean: "hsl(180, 85%, 65%)", // Bright cyan
+  neon: "hsl(100, 100%, 70%)", // Lime green
+  poison: "hsl(100, 100%, 55%)", // Toxic green
+  lolcat: "hsl(320, 95%, 75%)", // Vibrant magenta
+  trinity: "#ffdb8a", // Warm gold for triad mix
+};
+
+/**
+ * Header color for an effect, gold when the effect has none
+ */
+export function getHeaderColor(effect: string): string {
+  return HEADER_COLORS[effect] || "#FFD700";
+}
+
 export interface ColorizedArtSegments {
   fullHtml: string;
   headerHtml: string;
@@ -122,22 +144,7 @@ export function applyColorToArt(
   let inHeader = false;
   let headerLineIndex = 0;
 
-  // Define header colors for each effect (brighter than body)
-  const headerColors: Record<string, string> = {
-    unicorn: "hsl(280, 100%, 75%)", // Bright purple
-    fire: "hsl(40, 100%, 65%)", // Bright orange-yellow
-    cyberpunk: "hsl(320, 100%, 70%)", // Hot pink
-    sunrise: "hsl(30, 100%, 70%)", // Golden
-    vaporwave: "hsl(310, 95%, 75%)", // Pink-purple
-    chrome: "hsl(200, 60%, 85%)", // Light cyan
-    ocean: "hsl(180, 85%, 65%)", // Bright cyan
-    neon: "hsl(100, 100%, 70%)", // Lime green
-    poison: "hsl(100, 100%, 55%)", // Toxic green
-    lolcat: "hsl(320, 95%, 75%)", // Vibrant magenta
-    trinity: "#ffdb8a", // Warm gold for triad mix
-  };
-
-  const headerColor = headerColors[effect] || "#FFD700"; // Gold fallback
+  const headerColor = getHeaderColor(effect);
 
   for (let y = 0; y < lines.length; y++) {
     const line = lines[y];
@@ -201,3 +208,91 @@ export function applyColorToArt(
     bodyHtml: bodyLines.join("\n"),
   };
 }
+
+/**
+ * Turn a getEffectColor() result ("hsl(h, s%, l%)" or "#rrggbb") into RGB
+ */
+export function cssColorToRgb(color: string): [number, number, number] {
+  const hex = color.match(/^#([0-9a-f]{6})$/i);
+  if (hex) {
+    const value = parseInt(hex[1], 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  }
+
+  const hsl = color.match(/^hsl\(\s*([-\d.]+),\s*([\d.]+)%,\s*([\d.]+)%\s*\)$/);
+  if (!hsl) return [0, 255, 65]; // Matrix green
+
+  const h = ((Number(hsl[1]) % 360) + 360) % 360;
+  const s = Math.min(100, Number(hsl[2])) / 100;
+  const l = Math.min(100, Number(hsl[3])) / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(
+      255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))),
+    );
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+const ANSI_RESET = "\x1b[0m";
+
+function ansiColor(color: string, bold = false): string {
+  const [r, g, b] = cssColorToRgb(color);
+  return `\x1b[${bold ? "1;" : ""}38;2;${r};${g};${b}m`;
+}
+
+/**
+ * Drop the [HEADER_START]/[HEADER_END] marker lines
+ */
+export function stripArtMarkers(art: string): string {
+  return art
+    .split("\n")
+    .filter((line) =>
+      !line.includes("[HEADER_START]") && !line.includes("[HEADER_END]")
+    )
+    .join("\n");
+}
+
+/**
+ * Terminal version of applyColorToArt: same header color and per-line
+ * gradient, as ANSI 24-bit escapes. "none" gives plain text.
+ */
+export function applyAnsiColorToArt(art: string, effect: string): string {
+  if (effect === "none" || !art) return stripArtMarkers(art);
+
+  const lines = art.split("\n");
+  const output: string[] = [];
+  const headerColor = getHeaderColor(effect);
+  let inHeader = false;
+
+  for (let y = 0; y < lines.length; y++) {
+    const line = lines[y];
+
+    if (line.includes("[HEADER_START]")) {
+      inHeader = true;
+      continue;
+    }
+    if (line.includes("[HEADER_END]")) {
+      inHeader = false;
+      continue;
+    }
+
+    if (!line.trim()) {
+      output.push(line);
+    } else if (inHeader) {
+      output.push(`${ansiColor(headerColor, true)}${line}${ANSI_RESET}`);
+    } else {
+      const color = getEffectColor(
+        effect,
+        Math.floor(line.length / 2),
+        y,
+        line.length,
+        lines.length,
+      );
+      output.push(`${ansiColor(color)}${line}${ANSI_RESET}`);
+    }
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,125 @@
+// ===================================================================
+// CONDITIONAL REQUESTS - ETag / Last-Modified validators and 304s
+// ===================================================================
+// A reading changes at most once per period, so clients that already
+// have it can revalidate instead of downloading it again:
+//   ETag           strong, a SHA-1 of the normalized reading (keys in a
+//                  fixed order) plus the representation, so JSON and
+//                  each terminal effect get their own tag
+//   Last-Modified  00:00 UTC on the reading's date, or now if that's
+//                  still to come
+//
+// Provisional readings (upstream fallback, generated) get neither: the
+// real reading for the same date replaces them, and a client holding
+// one must not be told it's current.
+
+import type { HoroscopeReading } from "./horoscope/reading.ts";
+import type { CacheStatus } from "./horoscope/service.ts";
+import { parseIsoDate } from "./horoscope/dates.ts";
+
+export interface Validators {
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * Strong ETag for a response body: a quoted SHA-1 hex digest
+ */
+export async function computeEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(body),
+  );
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `"${hex}"`;
+}
+
+/**
+ * Validators for one representation of a reading ("json",
+ * "text:fire" ...), or null for provisional readings
+ */
+export async function getReadingValidators(
+  reading: HoroscopeReading,
+  cacheStatus: CacheStatus,
+  representation: string,
+): Promise<Validators | null> {
+  if (cacheStatus === "fallback" || cacheStatus === "generated") return null;
+
+  const normalized = Object.fromEntries(
+    Object.entries(reading).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  return {
+    etag: await computeEtag(
+      `${representation}\n${JSON.stringify(normalized)}`,
+    ),
+    lastModified: parseIsoDate(reading.date) ?? new Date(0),
+  };
+}
+
+/**
+ * ETag and Last-Modified headers, empty when there are no validators
+ */
+function validatorHeaders(
+  validators: Validators | null,
+): Record<string, string> {
+  if (!validators) return {};
+  return {
+    "ETag": validators.etag,
+    "Last-Modified": validators.lastModified.toUTCString(),
+  };
+}
+
+/**
+ * Whether the client's copy is still current (If-None-Match wins over
+ * If-Modified-Since, per RFC 9110)
+ */
+export function isNotModified(
+  req: Request,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  const ifNoneMatch = req.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return ifNoneMatch.trim() === "*" ||
+      ifNoneMatch.split(",").some((tag) =>
+        tag.trim().replace(/^W\//, "") === etag
+      );
+  }
+
+  const ifModifiedSince = req.headers.get("if-modified-since");
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates are whole seconds
+    return !Number.isNaN(since) &&
+      Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+/**
+ * 304 when the request's validators match, otherwise 200 with `body`.
+ * Headers go on both, so caches keep the validators.
+ */
+export function conditionalResponse(
+  req: Request,
+  validators: Validators | null,
+  headers: Record<string, string>,
+  body: BodyInit,
+  now: Date = new Date(),
+): Response {
+  // Tomorrow's reading (or today's, ahead of UTC) would otherwise claim
+  // a Last-Modified in the future, which RFC 9110 forbids
+  if (validators && validators.lastModified > now) {
+    validators = { ...validators, lastModified: now };
+  }
+  const allHeaders = { ...headers, ...validatorHeaders(validators) };
+  if (
+    validators &&
+    isNotModified(req, validators.etag, validators.lastModified)
+  ) {
+    return new Response(null, { status: 304, headers: allHeaders });
+  }
+  return new Response(body, { status: 200, headers: allHeaders });
+}
@@ -0,0 +1,512 @@
+// ===================================================================
+// CONFIG - Typed, validated runtime settings
+// ===================================================================
+// Every setting comes from an environment variable or, failing that,
+// from an optional JSON file, then a default:
+//
+//   env var  >  stargram.config.json (or STARGRAM_CONFIG=path)  >  default
+//
+// The file uses the same shape as AppConfig, e.g.
+//   { "provider": { "name": "fixture" }, "features": { "prewarmCron": false } }
+//
+// Everything is checked once at startup (fresh.config.ts) and all problems are
+// reported together, so a bad deploy fails loudly instead of on the
+// first request that happens to read the broken value.
+//
+// Tokens (PREWARM_TOKEN, METRICS_TOKEN) only come from env vars. Only
+// getPublicConfig() is ever sent to the browser (window.ENV).
+
+import {
+  PROVIDER_NAMES,
+  type ProviderName,
+} from "./horoscope/providers/mod.ts";
+import {
+  REPLAY_MODES,
+  REPLAY_SCENARIOS,
+  type ReplayMode,
+  type ReplayScenario,
+} from "./horoscope/providers/replay.ts";
+import type { HoroscopePeriod } from "./horoscope/types.ts";
+import type { RateLimitRule } from "./rateLimit.ts";
+
+const DEFAULT_CONFIG_FILE = "stargram.config.json";
+
+export interface AppConfig {
+  server: {
+    hostname: string;
+    port: number;
+  };
+  provider: {
+    name: ProviderName;
+    /** Overrides the vercel provider's endpoint */
+    apiBase?: string;
+    /** Where the file provider looks */
+    fileDir?: string;
+    /** Record upstream responses to fixture files, or replay them */
+    replay: ReplayMode;
+    replayDir?: string;
+    /** Fake upstream trouble (local development only) */
+    scenario?: ReplayScenario;
+    /** Only the first N fetches of each reading hit the scenario */
+    scenarioTimes?: number;
+  };
+  cache: {
+    /** Browser/CDN max-age for a real reading, in seconds */
+    readingMaxAge: number;
+    /** Max-age for fallback and generated stand-ins, in seconds */
+    fallbackMaxAge: number;
+    /** How long the last good reading per sign is kept, in days */
+    latestReadingDays: number;
+    /** How long a stale cache entry is kept after its period ends, in days */
+    staleGraceDays: Record<HoroscopePeriod, number>;
+  };
+  rateLimits: {
+    /** Per route prefix, merged over DEFAULT_RATE_LIMITS */
+    overrides: Record<string, RateLimitRule>;
+    allowlist: string[];
+    /** Bucket by X-Forwarded-For; only behind a proxy you control */
+    trustProxy: boolean;
+  };
+  analytics: {
+    posthogKey?: string;
+    posthogHost?: string;
+  };
+  features: {
+    prewarmCron: boolean;
+    /** Generate offline readings when the upstream is down */
+    generatedFallback: boolean;
+  };
+  secrets: {
+    prewarmToken?: string;
+    metricsToken?: string;
+  };
+  og: {
+    /** Where share cards fetch the resvg wasm and fonts (npm layout) */
+    assetBaseUrl?: string;
+  };
+  security: {
+    /** Report CSP violations without blocking anything */
+    cspReportOnly: boolean;
+    cspReportUri?: string;
+    /** Extra CSP sources by directive, on top of the built-in allowances */
+    cspExtraSources: Record<string, string[]>;
+    /** Who may frame /embed pages ("*" for any site) */
+    embedFrameAncestors: string[];
+    /** Strict-Transport-Security max-age, in seconds (HTTPS only) */
+    hstsMaxAge: number;
+  };
+}
+
+/**
+ * The part of the config the browser gets. Add fields here on purpose;
+ * nothing else from AppConfig is serialized.
+ */
+export interface PublicConfig {
+  POSTHOG_KEY?: string;
+  POSTHOG_HOST?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(
+      `Invalid configuration:\n${
+        problems.map((problem) => `  - ${problem}`).join("\n")
+      }`,
+    );
+    this.name = "ConfigError";
+  }
+}
+
+type Parser<T> = (raw: unknown) => T | { error: string };
+
+function isParseError(value: unknown): value is { error: string } {
+  return typeof value === "object" && value !== null && "error" in value &&
+    Object.keys(value).length === 1;
+}
+
+const text: Parser<string> = (raw) =>
+  typeof raw === "string" && raw.trim()
+    ? raw.trim()
+    : { error: "expected a non-empty string" };
+
+const url: Parser<string> = (raw) => {
+  const value = text(raw);
+  if (isParseError(value)) return value;
+  return URL.canParse(value) && /^https?:/.test(value)
+    ? value
+    : { error: `expected an http(s) URL, got "${value}"` };
+};
+
+const bool: Parser<boolean> = (raw) => {
+  if (typeof raw === "boolean") return raw;
+  if (raw === "true" || raw === "1") return true;
+  if (raw === "false" || raw === "0") return false;
+  return { error: `expected true or false, got "${raw}"` };
+};
+
+function positiveInt(max?: number): Parser<number> {
+  return (raw) => {
+    const value = typeof raw === "string" ? Number(raw) : raw;
+    if (
+      typeof value === "number" && Number.isInteger(value) && value > 0 &&
+      value <= (max ?? Number.MAX_SAFE_INTEGER)
+    ) {
+      return value;
+    }
+    const range = max ? `from 1 to ${max}` : "above 0";
+    return { error: `expected a whole number ${range}, got "${raw}"` };
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Parser<T> {
+  return (raw) =>
+    (values as readonly unknown[]).includes(raw)
+      ? raw as T
+      : { error: `expected one of ${values.join(", ")}, got "${raw}"` };
+}
+
+// Comma separated in env, an array in the file
+const list: Parser<string[]> = (raw) => {
+  const items = typeof raw === "string" ? raw.split(",") : raw;
+  return Array.isArray(items) && items.every((item) => typeof item === "string")
+    ? items.map((item) => item.trim()).filter(Boolean)
+    : { error: "expected a comma separated list" };
+};
+
+// JSON in env, an object in the file
+const rateLimitRules: Parser<Record<string, RateLimitRule>> = (raw) => {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { error: "expected JSON" };
+    }
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { error: "expected an object of route prefix → rule" };
+  }
+  for (const [route, rule] of Object.entries(value)) {
+    if (
+      !(typeof rule?.capacity === "number" && rule.capacity > 0 &&
+        typeof rule.refillPerMinute === "number" && rule.refillPerMinute > 0)
+    ) {
+      return {
+        error:
+          `"${route}" needs { capacity, refillPerMinute } with positive numbers`,
+      };
+    }
+  }
+  return value as Record<string, RateLimitRule>;
+};
+
+// JSON in env, an object in the file: { "connect-src": ["https://..."] }
+const cspSources: Parser<Record<string, string[]>> = (raw) => {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { error: "expected JSON" };
+    }
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { error: "expected an object of directive → sources" };
+  }
+  for (const [directive, sources] of Object.entries(value)) {
+    if (!/^[a-z]+(-[a-z]+)*$/.test(directive)) {
+      return { error: `"${directive}" isn't a CSP directive name` };
+    }
+    if (
+      !Array.isArray(sources) ||
+      !sources.every((source) =>
+        typeof source === "string" && /^[^\s;,]+$/.test(source)
+      )
+    ) {
+      return { error: `"${directive}" needs an array of sources` };
+    }
+  }
+  return value as Record<string, string[]>;
+};
+
+/**
+ * Read the config file: STARGRAM_CONFIG if set (must exist), otherwise
+ * stargram.config.json if there is one
+ */
+function readConfigFile(
+  env: Record<string, string | undefined>,
+  problems: string[],
+): { name: string; values: Record<string, unknown> } | null {
+  const explicit = env.STARGRAM_CONFIG;
+  const name = explicit || DEFAULT_CONFIG_FILE;
+  let contents: string;
+  try {
+    contents = Deno.readTextFileSync(name);
+  } catch (error) {
+    if (explicit || !(error instanceof Deno.errors.NotFound)) {
+      problems.push(`STARGRAM_CONFIG: can't read ${name} (${error})`);
+    }
+    return null;
+  }
+  try {
+    const values = JSON.parse(contents);
+    if (
+      typeof values !== "object" || values === null || Array.isArray(values)
+    ) {
+      throw new Error("top level must be an object");
+    }
+    return { name, values };
+  } catch (error) {
+    problems.push(
+      `${name}: not a valid config file (${
+        error instanceof Error ? error.message : error
+      })`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Build and validate the config from env vars and the optional file.
+ * Throws a ConfigError listing every problem found.
+ */
+export function loadConfig(
+  env: Record<string, string | undefined> = Deno.env.toObject(),
+): AppConfig {
+  const problems: string[] = [];
+  const file = readConfigFile(env, problems);
+
+  // One setting: the env var (if it has one) first, then the file path
+  // ("cache.readingMaxAge", if it may come from the file)
+  function read<T>(
+    name: string | null,
+    path: string | null,
+    parse: Parser<T>,
+  ): T | undefined;
+  function read<T>(
+    name: string | null,
+    path: string | null,
+    parse: Parser<T>,
+    fallback: T,
+  ): T;
+  function read<T>(
+    name: string | null,
+    path: string | null,
+    parse: Parser<T>,
+    fallback?: T,
+  ): T | undefined {
+    const fromEnv = name ? env[name] : undefined;
+    const fromFile = path?.split(".").reduce<unknown>(
+      (node, part) => (node as Record<string, unknown> | undefined)?.[part],
+      file?.values,
+    );
+    const [raw, source] = fromEnv !== undefined && fromEnv !== ""
+      ? [fromEnv, name]
+      : [fromFile, `${path} in ${file?.name}`];
+    if (raw === undefined || raw === null) return fallback;
+
+    const value = parse(raw);
+    if (isParseError(value)) {
+      problems.push(`${source}: ${value.error}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  const config: AppConfig = {
+    server: {
+      // Not from env: HOSTNAME is usually the machine's name
+      hostname: read(null, "server.hostname", text, "0.0.0.0"),
+      port: read("PORT", "server.port", positiveInt(65535), 8002),
+    },
+    provider: {
+      name: read(
+        "HOROSCOPE_PROVIDER",
+        "provider.name",
+        oneOf(PROVIDER_NAMES),
+        "vercel",
+      ),
+      apiBase: read("HOROSCOPE_API_BASE", "provider.apiBase", url),
+      fileDir: read("HOROSCOPE_FILE_DIR", "provider.fileDir", text),
+      replay: read(
+        "HOROSCOPE_REPLAY",
+        "provider.replay",
+        oneOf(REPLAY_MODES),
+        "off",
+      ),
+      replayDir: read("HOROSCOPE_REPLAY_DIR", "provider.replayDir", text),
+      scenario: read(
+        "HOROSCOPE_SCENARIO",
+        "provider.scenario",
+        oneOf(REPLAY_SCENARIOS),
+      ),
+      scenarioTimes: read(
+        "HOROSCOPE_SCENARIO_TIMES",
+        "provider.scenarioTimes",
+        positiveInt(),
+      ),
+    },
+    cache: {
+      readingMaxAge: read(
+        "READING_MAX_AGE",
+        "cache.readingMaxAge",
+        positiveInt(),
+        3600,
+      ),
+      fallbackMaxAge: read(
+        "FALLBACK_MAX_AGE",
+        "cache.fallbackMaxAge",
+        positiveInt(),
+        60,
+      ),
+      latestReadingDays: read(
+        "LATEST_READING_DAYS",
+        "cache.latestReadingDays",
+        positiveInt(365),
+        45,
+      ),
+      staleGraceDays: {
+        daily: read(
+          "STALE_GRACE_DAILY_DAYS",
+          "cache.staleGraceDays.daily",
+          positiveInt(365),
+          2,
+        ),
+        weekly: read(
+          "STALE_GRACE_WEEKLY_DAYS",
+          "cache.staleGraceDays.weekly",
+          positiveInt(365),
+          7,
+        ),
+        monthly: read(
+          "STALE_GRACE_MONTHLY_DAYS",
+          "cache.staleGraceDays.monthly",
+          positiveInt(365),
+          31,
+        ),
+      },
+    },
+    rateLimits: {
+      overrides: read(
+        "RATE_LIMITS",
+        "rateLimits.overrides",
+        rateLimitRules,
+        {},
+      ),
+      allowlist: read(
+        "RATE_LIMIT_ALLOWLIST",
+        "rateLimits.allowlist",
+        list,
+        [],
+      ),
+      trustProxy: read(
+        "RATE_LIMIT_TRUST_PROXY",
+        "rateLimits.trustProxy",
+        bool,
+        false,
+      ),
+    },
+    analytics: {
+      posthogKey: read("POSTHOG_KEY", "analytics.posthogKey", text),
+      posthogHost: read("POSTHOG_HOST", "analytics.posthogHost", url),
+    },
+    features: {
+      prewarmCron: read("PREWARM_CRON", "features.prewarmCron", bool, true),
+      generatedFallback: read(
+        "HOROSCOPE_GENERATED_FALLBACK",
+        "features.generatedFallback",
+        bool,
+        true,
+      ),
+    },
+    // Env only: a config file is one `git add` away from leaking them
+    secrets: {
+      prewarmToken: read("PREWARM_TOKEN", null, text),
+      metricsToken: read("METRICS_TOKEN", null, text),
+    },
+    og: {
+      assetBaseUrl: read("OG_ASSET_BASE_URL", "og.assetBaseUrl", url),
+    },
+    security: {
+      cspReportOnly: read(
+        "CSP_REPORT_ONLY",
+        "security.cspReportOnly",
+        bool,
+        false,
+      ),
+      cspReportUri: read("CSP_REPORT_URI", "security.cspReportUri", url),
+      cspExtraSources: read(
+        "CSP_EXTRA_SOURCES",
+        "security.cspExtraSources",
+        cspSources,
+        {},
+      ),
+      embedFrameAncestors: read(
+        "EMBED_FRAME_ANCESTORS",
+        "security.embedFrameAncestors",
+        list,
+        ["*"],
+      ),
+      hstsMaxAge: read(
+        "HSTS_MAX_AGE",
+        "security.hstsMaxAge",
+        positiveInt(),
+        63_072_000,
+      ),
+    },
+  };
+
+  // Deploy can't write recordings, and a scenario there breaks real users
+  if (
+    env.DENO_DEPLOYMENT_ID &&
+    (config.provider.replay !== "off" || config.provider.scenario)
+  ) {
+    problems.push(
+      "HOROSCOPE_REPLAY and HOROSCOPE_SCENARIO are for local development only",
+    );
+  }
+
+  if (problems.length) throw new ConfigError(problems);
+  return config;
+}
+
+let activeConfig: AppConfig | null = null;
+
+/**
+ * The process-wide config, loaded on first use
+ */
+export function getConfig(): AppConfig {
+  if (!activeConfig) activeConfig = loadConfig();
+  return activeConfig;
+}
+
+/**
+ * Load the config at startup: on a ConfigError, print the problems and
+ * exit instead of dumping a stack trace
+ */
+export function loadStartupConfig(): AppConfig {
+  try {
+    return getConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(error.message);
+    Deno.exit(1);
+  }
+}
+
+/**
+ * Swap the config (handy for scripts and local experiments)
+ */
+export function setConfig(config: AppConfig | null): void {
+  activeConfig = config;
+}
+
+/**
+ * What the browser may see
+ */
+export function getPublicConfig(config: AppConfig = getConfig()): PublicConfig {
+  return {
+    POSTHOG_KEY: config.analytics.posthogKey,
+    POSTHOG_HOST: config.analytics.posthogHost,
+  };
+}
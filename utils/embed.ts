@@ -0,0 +1,130 @@
+// ===================================================================
+// EMBED - Compact terminal card for other people's pages
+// ===================================================================
+// One markup + stylesheet for both ways of embedding a reading:
+//   <iframe src="https://stargram.app/embed/leo?period=weekly">
+//     server-rendered by routes/embed/[sign].tsx
+//   <stargram-horoscope sign="leo"> from /stargram-horoscope.js
+//     rendered client-side by utils/embedElement.ts into a shadow root
+// Theme picks the chrome colors (asciifierThemes); the art itself is
+// always on the dark terminal background, like TerminalDisplay.
+
+import { asciifierThemes, type Theme } from "./themes.ts";
+import { SITE_URL } from "./seo.ts";
+import { escapeHtml, type ReadingArt } from "./horoscope/art.ts";
+import { getDisplayLabel, type HoroscopeReading } from "./horoscope/reading.ts";
+
+export const DEFAULT_EMBED_THEME = "TERMINAL";
+
+/** postMessage type the iframe sends its height with */
+export const EMBED_RESIZE_MESSAGE = "stargram:resize";
+
+/**
+ * Theme by name (any case), the terminal theme for unknown names
+ */
+export function getEmbedTheme(name: string | null | undefined): Theme {
+  const wanted = (name ?? "").toUpperCase();
+  return asciifierThemes.find((theme) => theme.name === wanted) ??
+    asciifierThemes.find((theme) => theme.name === DEFAULT_EMBED_THEME)!;
+}
+
+/**
+ * Stylesheet for the card, scoped under .stargram-embed
+ */
+export function getEmbedCss(theme: Theme): string {
+  return `
+.stargram-embed {
+  --embed-border: ${theme.border};
+  --embed-accent: ${theme.accent};
+  box-sizing: border-box;
+  margin: 0;
+  border: 3px solid var(--embed-border);
+  border-radius: 14px;
+  overflow: hidden;
+  background:
+    linear-gradient(135deg, rgb(255 106 0 / 0.12), rgb(255 0 132 / 0.1) 38%,
+      rgb(178 0 209 / 0.11) 68%, rgb(128 0 150 / 0.14)),
+    rgb(2 4 12 / 0.98);
+  color: #00FF41;
+  font-family: 'JetBrains Mono', 'SF Mono', 'Fira Code', 'Courier New', monospace;
+}
+.stargram-embed * { box-sizing: border-box; }
+.stargram-embed .embed-bar {
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 8px 12px;
+  background: #000;
+  border-bottom: 2px solid var(--embed-border);
+  font-size: 12px;
+  color: var(--embed-accent);
+}
+.stargram-embed .embed-dot {
+  width: 10px;
+  height: 10px;
+  border-radius: 50%;
+  background: var(--embed-accent);
+  opacity: 0.8;
+}
+.stargram-embed .embed-path { margin-left: 6px; opacity: 0.9; }
+.stargram-embed .embed-art {
+  margin: 0;
+  padding: 14px 16px;
+  font-size: 12px;
+  line-height: 1.35;
+  white-space: pre;
+  overflow-x: auto;
+  text-shadow: 0 0 2px rgba(0, 0, 0, 0.3), 0 0 4px currentColor;
+}
+/* Header spans are blocks sized for the full page; the newlines in the pre already break lines */
+.stargram-embed .embed-art span {
+  display: inline !important;
+  font-size: inherit !important;
+}
+.stargram-embed .embed-footer {
+  display: flex;
+  justify-content: space-between;
+  gap: 8px;
+  padding: 8px 12px;
+  border-top: 1px solid var(--embed-border);
+  font-size: 11px;
+}
+.stargram-embed .embed-footer a {
+  color: var(--embed-accent);
+  text-decoration: none;
+}
+.stargram-embed .embed-footer a:hover { text-decoration: underline; }
+.stargram-embed .embed-message { padding: 16px; font-size: 13px; }
+`;
+}
+
+/**
+ * Card HTML for a reading's art
+ * Links open in a new tab so the embedding page stays put
+ */
+export function renderEmbedHtml(
+  reading: HoroscopeReading,
+  art: ReadingArt,
+  readingUrl: string,
+): string {
+  return `<div class="stargram-embed">
+<div class="embed-bar"><span class="embed-dot"></span><span class="embed-dot"></span><span class="embed-dot"></span><span class="embed-path">~/horoscope/${
+    escapeHtml(reading.sign)
+  }-${escapeHtml(reading.period)}.txt</span></div>
+<pre class="embed-art">${art.fullHtml}</pre>
+<div class="embed-footer"><span>${
+    escapeHtml(getDisplayLabel(reading))
+  }</span><a href="${
+    escapeHtml(readingUrl)
+  }" target="_blank" rel="noopener">stargram.app ↗</a></div>
+</div>`;
+}
+
+/**
+ * Card with a message instead of a reading (loading, errors)
+ */
+export function renderEmbedMessage(message: string): string {
+  return `<div class="stargram-embed"><div class="embed-message">${
+    escapeHtml(message)
+  }</div><div class="embed-footer"><span></span><a href="${SITE_URL}" target="_blank" rel="noopener">stargram.app ↗</a></div></div>`;
+}
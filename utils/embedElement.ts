@@ -0,0 +1,112 @@
+// ===================================================================
+// <stargram-horoscope> - Standalone custom element
+// ===================================================================
+// Bundled to static/stargram-horoscope.js (deno task build:embed).
+//
+//   <script type="module" src="https://stargram.app/stargram-horoscope.js"></script>
+//   <stargram-horoscope sign="leo" period="weekly" effect="fire" theme="midnight">
+//   </stargram-horoscope>
+//
+// api-key is optional: partners can pass theirs to use its quota.
+//
+// Fetches the reading from the API on the script's own origin with the
+// typed client (utils/horoscope/client.ts) and renders it with
+// renderReadingArt (utils/horoscope/art.ts) inside a shadow root, so
+// the host page's CSS can't reach in or out.
+
+import { COLOR_EFFECTS } from "./constants.ts";
+import { isHoroscopePeriod, isValidSign } from "./horoscope/types.ts";
+import { createHoroscopeClient } from "./horoscope/client.ts";
+import { describeHoroscopeError } from "./horoscope/errorCopy.ts";
+import { renderReadingArt } from "./horoscope/art.ts";
+import { DEFAULT_TERMINAL_EFFECT } from "./horoscope/terminal.ts";
+import { getSignPath } from "./seo.ts";
+import {
+  getEmbedCss,
+  getEmbedTheme,
+  renderEmbedHtml,
+  renderEmbedMessage,
+} from "./embed.ts";
+
+// Wherever the script was loaded from serves the API too
+const ORIGIN = new URL(import.meta.url).origin;
+const client = createHoroscopeClient({ baseUrl: ORIGIN });
+
+class StargramHoroscopeElement extends HTMLElement {
+  static observedAttributes = ["sign", "period", "effect", "theme", "api-key"];
+
+  private root = this.attachShadow({ mode: "open" });
+  private requestId = 0;
+
+  connectedCallback() {
+    this.load();
+  }
+
+  attributeChangedCallback(_name: string, previous: string, next: string) {
+    if (this.isConnected && previous !== next) this.load();
+  }
+
+  private render(html: string) {
+    const theme = getEmbedTheme(this.getAttribute("theme"));
+    this.root.innerHTML = `<style>:host { display: block; }${
+      getEmbedCss(theme)
+    }</style>${html}`;
+  }
+
+  private async load() {
+    const sign = (this.getAttribute("sign") ?? "").toLowerCase();
+    const period = this.getAttribute("period") || "daily";
+    const effectAttr = this.getAttribute("effect");
+    const effect =
+      effectAttr && COLOR_EFFECTS.some((item) => item.value === effectAttr)
+        ? effectAttr
+        : DEFAULT_TERMINAL_EFFECT;
+
+    if (!isValidSign(sign) || !isHoroscopePeriod(period)) {
+      this.render(renderEmbedMessage(`✖ Unknown sign or period: ${sign}`));
+      return;
+    }
+
+    const requestId = ++this.requestId;
+    this.render(renderEmbedMessage("✨ Consulting the stars..."));
+
+    try {
+      const apiKey = this.getAttribute("api-key");
+      const result = await client.getReading(
+        {
+          sign,
+          period,
+          tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        },
+        { headers: apiKey ? { "X-Api-Key": apiKey } : undefined },
+      );
+      // A newer attribute change already took over
+      if (requestId !== this.requestId) return;
+
+      if (!result.ok) {
+        const { message } = describeHoroscopeError(
+          result.error.code,
+          result.retryAfter,
+        );
+        this.render(renderEmbedMessage(message));
+        return;
+      }
+      const reading = result.data.data;
+      this.render(
+        renderEmbedHtml(
+          reading,
+          renderReadingArt(sign, reading, effect),
+          `${ORIGIN}${getSignPath(sign, reading.period, reading.date)}`,
+        ),
+      );
+    } catch (error) {
+      if (requestId !== this.requestId) return;
+      console.error("stargram-horoscope:", error);
+      this.render(renderEmbedMessage("✖ The stars are unreachable right now"));
+    }
+  }
+}
+
+if (!customElements.get("stargram-horoscope")) {
+  customElements.define("stargram-horoscope", StargramHoroscopeElement);
+}
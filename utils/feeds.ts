@@ -0,0 +1,243 @@
+// ===================================================================
+// FEEDS - RSS 2.0, Atom and JSON Feed 1.1 for each sign and period
+// ===================================================================
+// One entry per reading: the current one plus whatever the archive
+// holds. Every entry's id/guid is its pinned sign page
+// (/leo/2026-10-19), which never changes, so readers don't show the
+// same reading twice. Published at 00:00 UTC on the reading's date.
+
+import { getZodiacSign } from "./zodiac.ts";
+import { type FeedLink, getSignPath, SITE_URL } from "./seo.ts";
+import { escapeXml } from "./xml.ts";
+import type { HoroscopePeriod } from "./horoscope/types.ts";
+import type { HoroscopeReading } from "./horoscope/reading.ts";
+import { getReadingArchive } from "./horoscope/archive.ts";
+import { getReading } from "./horoscope/service.ts";
+import { mapWithConcurrency } from "./concurrency.ts";
+import { log } from "./log.ts";
+
+export const FEED_FORMATS = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+} as const;
+
+export type FeedFormat = keyof typeof FEED_FORMATS;
+
+export const DEFAULT_FEED_LENGTH = 30;
+
+export interface Feed {
+  sign: string;
+  period: HoroscopePeriod;
+  title: string;
+  description: string;
+  /** The sign page the feed follows */
+  homeUrl: string;
+  readings: HoroscopeReading[];
+  /** Newest reading's publish time; epoch when the feed is empty */
+  updated: Date;
+}
+
+export function isFeedFormat(value: string): value is FeedFormat {
+  return value in FEED_FORMATS;
+}
+
+/**
+ * Path for a feed: /feeds/leo/daily.rss, /feeds/leo/weekly.json ...
+ */
+export function getFeedPath(
+  sign: string,
+  period: HoroscopePeriod,
+  format: FeedFormat,
+): string {
+  return `/feeds/${sign}/${period}.${format}`;
+}
+
+const FEED_NAMES: Record<FeedFormat, string> = {
+  rss: "RSS",
+  atom: "Atom",
+  json: "JSON Feed",
+};
+
+/**
+ * Autodiscovery links for a sign page, one per format
+ */
+export function getFeedLinks(
+  sign: string,
+  period: HoroscopePeriod,
+): FeedLink[] {
+  return (Object.keys(FEED_FORMATS) as FeedFormat[]).map((format) => ({
+    title: `${capitalize(sign)} ${period} horoscope (${FEED_NAMES[format]})`,
+    type: FEED_FORMATS[format].split(";")[0],
+    href: `${SITE_URL}${getFeedPath(sign, period, format)}`,
+  }));
+}
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+const getPublished = (reading: HoroscopeReading) =>
+  new Date(`${reading.date}T00:00:00Z`);
+
+const getPermalink = (reading: HoroscopeReading) =>
+  `${SITE_URL}${getSignPath(reading.sign, reading.period, reading.date)}`;
+
+const getItemTitle = (reading: HoroscopeReading) =>
+  `${capitalize(reading.sign)} • ${reading.label}`;
+
+/**
+ * Recent readings for a sign, newest first
+ * The current reading is fetched (and so archived) if we don't have it
+ * yet; pass day (YYYY-MM-DD) when "current" is someone's local day
+ */
+export async function buildFeed(
+  sign: string,
+  period: HoroscopePeriod,
+  limit = DEFAULT_FEED_LENGTH,
+  day?: string,
+): Promise<Feed> {
+  const archive = await getReadingArchive();
+  const byDate = new Map<string, HoroscopeReading>();
+
+  try {
+    const { reading, cacheStatus } = await getReading({ sign, period, day });
+    // Stand-in readings get replaced once the upstream is back, and an
+    // entry shouldn't change after a reader has seen it
+    if (cacheStatus !== "generated") byDate.set(reading.date, reading);
+  } catch (error) {
+    log.error("Feed current reading error", { sign, period, error });
+  }
+
+  const dates = await archive.listDates(sign, period, limit);
+  const archived = await mapWithConcurrency(
+    dates.filter((date) => !byDate.has(date)),
+    4,
+    (date) => archive.get(sign, period, date),
+  );
+  for (const reading of archived) {
+    if (reading) byDate.set(reading.date, reading);
+  }
+
+  const readings = [...byDate.values()]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit);
+  const zodiac = getZodiacSign(sign);
+  const heading = `${capitalize(sign)} ${capitalize(period)} Horoscope`;
+
+  return {
+    sign,
+    period,
+    title: `${heading} • Stargram`,
+    description: `Your ${period} ${capitalize(sign)} horoscope${
+      zodiac ? ` (${zodiac.dates})` : ""
+    } from Stargram.`,
+    homeUrl: `${SITE_URL}${getSignPath(sign, period)}`,
+    readings,
+    updated: readings[0] ? getPublished(readings[0]) : new Date(0),
+  };
+}
+
+function renderRss(feed: Feed): string {
+  const self = `${SITE_URL}${getFeedPath(feed.sign, feed.period, "rss")}`;
+  const items = feed.readings.map((reading) => {
+    const link = escapeXml(getPermalink(reading));
+    return [
+      "    <item>",
+      `      <title>${escapeXml(getItemTitle(reading))}</title>`,
+      `      <link>${link}</link>`,
+      `      <guid isPermaLink="true">${link}</guid>`,
+      `      <pubDate>${getPublished(reading).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(reading.text)}</description>`,
+      "    </item>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    "    <language>en</language>",
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${
+      escapeXml(self)
+    }" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+function renderAtom(feed: Feed): string {
+  const self = `${SITE_URL}${getFeedPath(feed.sign, feed.period, "atom")}`;
+  const entries = feed.readings.map((reading) => {
+    const link = escapeXml(getPermalink(reading));
+    const published = getPublished(reading).toISOString();
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(getItemTitle(reading))}</title>`,
+      `    <link rel="alternate" type="text/html" href="${link}"/>`,
+      `    <id>${link}</id>`,
+      `    <published>${published}</published>`,
+      `    <updated>${published}</updated>`,
+      `    <content type="text">${escapeXml(reading.text)}</content>`,
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${
+      escapeXml(feed.homeUrl)
+    }"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${
+      escapeXml(self)
+    }"/>`,
+    `  <id>${escapeXml(self)}</id>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    "  <author><name>Stargram</name></author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
+
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: `${SITE_URL}${getFeedPath(feed.sign, feed.period, "json")}`,
+    description: feed.description,
+    language: "en",
+    authors: [{ name: "Stargram", url: SITE_URL }],
+    items: feed.readings.map((reading) => ({
+      id: getPermalink(reading),
+      url: getPermalink(reading),
+      title: getItemTitle(reading),
+      content_text: reading.text,
+      date_published: getPublished(reading).toISOString(),
+      tags: [reading.sign, reading.period],
+    })),
+  });
+}
+
+/**
+ * Serialize a feed in the requested format
+ */
+export function renderFeed(feed: Feed, format: FeedFormat): string {
+  switch (format) {
+    case "rss":
+      return renderRss(feed);
+    case "atom":
+      return renderAtom(feed);
+    case "json":
+      return renderJsonFeed(feed);
+  }
+}
@@ -0,0 +1,105 @@
+// ===================================================================
+// READING ARCHIVE - Every reading we fetch, kept for good
+// ===================================================================
+// Unlike the cache, archive entries never expire. Keyed by sign,
+// period and date (first day of the period), so users can scroll back
+// through old readings. Backed by Deno KV, in-memory otherwise.
+
+import { getKv } from "../kv.ts";
+import type { HoroscopePeriod } from "./types.ts";
+import type { HoroscopeReading } from "./reading.ts";
+
+const KEY_PREFIX = "horoscope-archive";
+
+// Dates per listing from /api/horoscope/archive
+export const ARCHIVE_DEFAULT_LIMIT = 60;
+export const ARCHIVE_MAX_LIMIT = 366;
+
+export interface ReadingArchiveStore {
+  put(reading: HoroscopeReading): Promise<void>;
+  get(
+    sign: string,
+    period: HoroscopePeriod,
+    date: string,
+  ): Promise<HoroscopeReading | null>;
+  /** Archived dates, newest first */
+  listDates(
+    sign: string,
+    period: HoroscopePeriod,
+    limit: number,
+  ): Promise<string[]>;
+}
+
+export class KvReadingArchiveStore implements ReadingArchiveStore {
+  constructor(private kv: Deno.Kv) {}
+
+  async put(reading: HoroscopeReading) {
+    await this.kv.set(
+      [KEY_PREFIX, reading.sign, reading.period, reading.date],
+      reading,
+    );
+  }
+
+  async get(sign: string, period: HoroscopePeriod, date: string) {
+    const entry = await this.kv.get<HoroscopeReading>([
+      KEY_PREFIX,
+      sign,
+      period,
+      date,
+    ]);
+    return entry.value;
+  }
+
+  async listDates(sign: string, period: HoroscopePeriod, limit: number) {
+    const dates: string[] = [];
+    const entries = this.kv.list<HoroscopeReading>(
+      { prefix: [KEY_PREFIX, sign, period] },
+      { reverse: true, limit },
+    );
+    for await (const entry of entries) {
+      dates.push(String(entry.key[entry.key.length - 1]));
+    }
+    return dates;
+  }
+}
+
+export class MemoryReadingArchiveStore implements ReadingArchiveStore {
+  private readings = new Map<string, HoroscopeReading>();
+
+  put(reading: HoroscopeReading): Promise<void> {
+    this.readings.set(
+      [reading.sign, reading.period, reading.date].join(":"),
+      reading,
+    );
+    return Promise.resolve();
+  }
+
+  get(sign: string, period: HoroscopePeriod, date: string) {
+    return Promise.resolve(
+      this.readings.get([sign, period, date].join(":")) ?? null,
+    );
+  }
+
+  listDates(sign: string, period: HoroscopePeriod, limit: number) {
+    const dates = [...this.readings.values()]
+      .filter((reading) => reading.sign === sign && reading.period === period)
+      .map((reading) => reading.date)
+      .sort()
+      .reverse();
+    return Promise.resolve(dates.slice(0, limit));
+  }
+}
+
+let storePromise: Promise<ReadingArchiveStore> | null = null;
+
+/**
+ * Get the process-wide archive (KV if it opens, memory otherwise)
+ */
+export function getReadingArchive(): Promise<ReadingArchiveStore> {
+  if (!storePromise) {
+    storePromise = getKv().then((kv) =>
+      kv ? new KvReadingArchiveStore(kv) : new MemoryReadingArchiveStore()
+    );
+  }
+  return storePromise;
+}
@@ -0,0 +1,130 @@
+// ===================================================================
+// READING ART - A reading as colorized ASCII art HTML
+// ===================================================================
+// generateHoroscopeAscii + applyColorToArt, split into header/body for
+// TerminalDisplay. Shared by the display island, the /embed route and
+// the <stargram-horoscope> element so they all draw the same thing.
+
+import { getZodiacEmoji } from "../zodiac.ts";
+import { applyColorToArt } from "../colorEffects.ts";
+import { generateHoroscopeAscii } from "../asciiArtGenerator.ts";
+import { getDisplayLabel, type HoroscopeReading } from "./reading.ts";
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+
+/**
+ * Golden header and terminal-green body, for the "none" effect
+ */
+function applyHeaderHighlight(art: string) {
+  const lines = art.split("\n");
+  const colorizedLines: string[] = [];
+  const headerLines: string[] = [];
+  const bodyLines: string[] = [];
+  let inHeader = false;
+  let headerLineIndex = 0;
+
+  for (const line of lines) {
+    if (line.includes("[HEADER_START]")) {
+      inHeader = true;
+      headerLineIndex = 0;
+      continue;
+    }
+    if (line.includes("[HEADER_END]")) {
+      inHeader = false;
+      headerLineIndex = 0;
+      continue;
+    }
+
+    if (inHeader) {
+      headerLineIndex++;
+      const isTitleLine = headerLineIndex === 1;
+      const baseStyle =
+        "color: #FFD700; display: block; font-family: 'JetBrains Mono', 'SF Mono', 'Courier New', monospace;";
+
+      const span = isTitleLine
+        ? `<span style="${baseStyle} font-weight: 900; letter-spacing: 0.18em; font-size: clamp(18px, 4vw, 32px); text-transform: uppercase;">${
+          escapeHtml(line)
+        }</span>`
+        : `<span style="${baseStyle} font-weight: 700; letter-spacing: 0.04em; font-size: clamp(14px, 3vw, 24px); text-transform: none; white-space: pre; line-height: 1.15;">${
+          escapeHtml(line)
+        }</span>`;
+      colorizedLines.push(span);
+      headerLines.push(span);
+    } else if (line.trim()) {
+      // Body in terminal green
+      const span = `<span style="color: #00FF41;">${escapeHtml(line)}</span>`;
+      colorizedLines.push(span);
+      bodyLines.push(span);
+    } else {
+      colorizedLines.push(line);
+      bodyLines.push(line);
+    }
+  }
+
+  return {
+    fullHtml: colorizedLines.join("\n"),
+    headerHtml: headerLines.join("\n"),
+    bodyHtml: bodyLines.join("\n"),
+  };
+}
+
+function splitAsciiSections(art: string) {
+  const startMarker = "[HEADER_START]";
+  const endMarker = "[HEADER_END]";
+  const startIndex = art.indexOf(startMarker);
+  const endIndex = art.indexOf(endMarker);
+  if (startIndex === -1 || endIndex === -1) {
+    return { header: "", body: art.trim() };
+  }
+  const header = art.slice(startIndex + startMarker.length, endIndex).trim();
+  const body = art.slice(endIndex + endMarker.length).trimStart();
+  return { header, body };
+}
+
+export interface ReadingArt {
+  ascii: string;
+  headerText: string;
+  bodyText: string;
+  fullHtml: string;
+  headerHtml: string;
+  bodyHtml: string;
+}
+
+/**
+ * ASCII art for a reading, split and colorized for the terminal
+ */
+export function renderReadingArt(
+  sign: string,
+  reading: HoroscopeReading,
+  effect: string,
+): ReadingArt {
+  // Generate ASCII art with sign name, period, and date
+  const emoji = getZodiacEmoji(sign);
+  const ascii = generateHoroscopeAscii(
+    sign,
+    reading.text,
+    reading.period,
+    getDisplayLabel(reading),
+    emoji,
+  );
+  const sections = splitAsciiSections(ascii);
+
+  // Always apply special header formatting
+  // Even with no color effect, header gets golden color
+  const colorized = effect !== "none"
+    ? applyColorToArt(ascii, effect)
+    : applyHeaderHighlight(ascii);
+
+  return {
+    ascii,
+    headerText: sections.header,
+    bodyText: sections.body,
+    ...colorized,
+  };
+}
@@ -0,0 +1,136 @@
+// ===================================================================
+// READING CACHE - Server-side cache for normalized readings
+// ===================================================================
+// Keyed by sign, period and the first day of the period. Backed by
+// Deno KV when available, in-memory otherwise.
+//
+// Freshness per period, until the period is over in UTC-12:
+//   daily   - for as long as it's cached (a date's reading never changes)
+//   weekly  - until the week ends (Sunday night)
+//   monthly - until the month ends
+// After that an entry is stale: still served while we revalidate,
+// and kept around for a grace window in case the upstream is down
+// (cache.staleGraceDays: 2 days daily, 7 weekly, 31 monthly by default).
+
+import { getKv } from "../kv.ts";
+import { getConfig } from "../config.ts";
+import type { HoroscopePeriod } from "./types.ts";
+import type { HoroscopeReading } from "./reading.ts";
+
+export interface CachedReading {
+  reading: HoroscopeReading;
+  storedAt: number;
+  freshUntil: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const KEY_PREFIX = "horoscope-cache";
+const LATEST_PREFIX = "horoscope-latest";
+
+export interface ReadingCacheStore {
+  get(key: string[]): Promise<CachedReading | null>;
+  set(key: string[], value: CachedReading, ttlMs: number): Promise<void>;
+}
+
+export class KvReadingCacheStore implements ReadingCacheStore {
+  constructor(private kv: Deno.Kv) {}
+
+  async get(key: string[]): Promise<CachedReading | null> {
+    const entry = await this.kv.get<CachedReading>(key);
+    return entry.value;
+  }
+
+  async set(key: string[], value: CachedReading, ttlMs: number) {
+    await this.kv.set(key, value, { expireIn: ttlMs });
+  }
+}
+
+export class MemoryReadingCacheStore implements ReadingCacheStore {
+  private entries = new Map<
+    string,
+    { value: CachedReading; expiresAt: number }
+  >();
+
+  constructor(private maxEntries = 1000) {}
+
+  get(key: string[]): Promise<CachedReading | null> {
+    const id = key.join(":");
+    const entry = this.entries.get(id);
+    if (!entry) return Promise.resolve(null);
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(id);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string[], value: CachedReading, ttlMs: number): Promise<void> {
+    const id = key.join(":");
+    // Map keeps insertion order, so re-inserting moves the key to the end
+    this.entries.delete(id);
+    this.entries.set(id, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+}
+
+let storePromise: Promise<ReadingCacheStore> | null = null;
+
+/**
+ * Get the process-wide cache store (KV if it opens, memory otherwise)
+ */
+export function getReadingCacheStore(): Promise<ReadingCacheStore> {
+  if (!storePromise) {
+    storePromise = getKv().then((kv) =>
+      kv ? new KvReadingCacheStore(kv) : new MemoryReadingCacheStore()
+    );
+  }
+  return storePromise;
+}
+
+export function readingCacheKey(
+  sign: string,
+  period: HoroscopePeriod,
+  periodStart: string,
+): string[] {
+  return [KEY_PREFIX, sign, period, periodStart];
+}
+
+export function latestReadingKey(
+  sign: string,
+  period: HoroscopePeriod,
+): string[] {
+  return [LATEST_PREFIX, sign, period];
+}
+
+/**
+ * Store a fresh reading, and remember it as the latest good one
+ */
+export async function storeReading(
+  store: ReadingCacheStore,
+  key: string[],
+  reading: HoroscopeReading,
+  freshUntil: number,
+): Promise<void> {
+  const now = Date.now();
+  const value: CachedReading = { reading, storedAt: now, freshUntil };
+  const { latestReadingDays, staleGraceDays } = getConfig().cache;
+  const ttl = Math.max(0, freshUntil - now) +
+    staleGraceDays[reading.period] * DAY_MS;
+  await Promise.all([
+    store.set(key, value, ttl),
+    store.set(
+      latestReadingKey(reading.sign, reading.period),
+      value,
+      // The last good reading per sign + period is kept for
+      // cache.latestReadingDays (45 by default), so we have something to
+      // show when the upstream is down on a brand new day
+      latestReadingDays * DAY_MS,
+    ),
+  ]);
+}
@@ -0,0 +1,222 @@
+// ===================================================================
+// HOROSCOPE CLIENT - Typed client for the public API
+// ===================================================================
+// Used by the display island and the <stargram-horoscope> element,
+// and safe to copy into other projects: it only needs fetch.
+//
+//   const client = createHoroscopeClient({ baseUrl: "https://stargram.app" });
+//   const result = await client.getReading({ sign: "leo", period: "weekly" });
+//   if (result.ok) show(result.data.data);
+//   else console.warn(result.error.code, result.retryAfter);
+//
+// API failures resolve to { ok: false } with the error body (see
+// utils/horoscope/errors.ts for the codes). Network failures and
+// aborts throw, like fetch.
+//
+// Successful responses are remembered with their ETag; asking again
+// sends If-None-Match, and a 304 resolves to the remembered data
+// (status 304), so unchanged readings aren't downloaded twice.
+//
+// The paths and parameters here are what the OpenAPI document
+// (utils/horoscope/openapi.ts, served at /api/openapi.json) describes.
+
+import type { HoroscopePeriod } from "./types.ts";
+import type { HoroscopeErrorBody } from "./errors.ts";
+import type {
+  HoroscopeApiResponse,
+  HoroscopeArchiveApiResponse,
+  HoroscopeBulkApiResponse,
+} from "./reading.ts";
+
+export const API_PATHS = {
+  reading: "/api/horoscope",
+  bulk: "/api/horoscope/all",
+  archive: "/api/horoscope/archive",
+} as const;
+
+/** Query for /api/horoscope */
+export interface ReadingRequest {
+  sign: string;
+  period?: HoroscopePeriod;
+  /** "today" | "tomorrow" | "yesterday" | YYYY-MM-DD */
+  day?: string;
+  /** IANA timezone that "today" is resolved in (default UTC) */
+  tz?: string;
+}
+
+/** Query for /api/horoscope/all */
+export type BulkRequest = Omit<ReadingRequest, "sign">;
+
+/** Query for the /api/horoscope/archive listing */
+export interface ArchiveListRequest {
+  sign: string;
+  period?: HoroscopePeriod;
+  /** Max dates to return (default 60, max 366) */
+  limit?: number;
+}
+
+/** Query for one archived reading */
+export interface ArchivedReadingRequest {
+  sign: string;
+  period?: HoroscopePeriod;
+  /** Period start date, YYYY-MM-DD */
+  date: string;
+}
+
+export type ApiResult<T> =
+  | {
+    ok: true;
+    status: number;
+    data: T;
+    /** X-Cache: HIT, MISS, STALE, ARCHIVE ... */
+    cacheStatus: string | null;
+  }
+  | {
+    ok: false;
+    status: number;
+    error: HoroscopeErrorBody;
+    /** Seconds, from the body or the Retry-After header */
+    retryAfter?: number;
+  };
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  headers?: HeadersInit;
+}
+
+export interface HoroscopeClient {
+  getReading(
+    query: ReadingRequest,
+    options?: RequestOptions,
+  ): Promise<ApiResult<HoroscopeApiResponse>>;
+  /**
+   * All twelve signs; ok even when signs failed (check data.success and
+   * each result)
+   */
+  getAllReadings(
+    query?: BulkRequest,
+    options?: RequestOptions,
+  ): Promise<ApiResult<HoroscopeBulkApiResponse>>;
+  listArchive(
+    query: ArchiveListRequest,
+    options?: RequestOptions,
+  ): Promise<ApiResult<HoroscopeArchiveApiResponse>>;
+  getArchivedReading(
+    query: ArchivedReadingRequest,
+    options?: RequestOptions,
+  ): Promise<ApiResult<HoroscopeApiResponse>>;
+}
+
+export interface HoroscopeClientOptions {
+  /** Origin to call; same-origin relative URLs when empty */
+  baseUrl?: string;
+  /** Partner key, sent as X-Api-Key; anonymous when unset */
+  apiKey?: string;
+  /** Sent with every request */
+  headers?: HeadersInit;
+  fetch?: typeof fetch;
+  /** Responses kept for revalidation (default 50, 0 turns it off) */
+  maxCachedResponses?: number;
+}
+
+type CachedResult = { etag: string; result: ApiResult<unknown> & { ok: true } };
+
+/**
+ * Query string from the set fields, skipping undefined ones
+ */
+function toQuery(query: object): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) params.set(key, String(value));
+  }
+  return params.toString();
+}
+
+export function createHoroscopeClient(
+  options: HoroscopeClientOptions = {},
+): HoroscopeClient {
+  const baseUrl = (options.baseUrl ?? "").replace(/\/$/, "");
+  const fetchFn = options.fetch ?? ((...args) => fetch(...args));
+  const maxCached = options.maxCachedResponses ?? 50;
+  // By URL; Map order doubles as least-recently-used order
+  const cached = new Map<string, CachedResult>();
+
+  function remember(url: string, entry: CachedResult) {
+    cached.delete(url);
+    if (maxCached <= 0) return;
+    cached.set(url, entry);
+    while (cached.size > maxCached) {
+      cached.delete(cached.keys().next().value!);
+    }
+  }
+
+  async function request<T>(
+    path: string,
+    query: object,
+    requestOptions: RequestOptions = {},
+  ): Promise<ApiResult<T>> {
+    const headers = new Headers(options.headers);
+    if (options.apiKey) headers.set("X-Api-Key", options.apiKey);
+    new Headers(requestOptions.headers).forEach((value, key) =>
+      headers.set(key, value)
+    );
+
+    const search = toQuery(query);
+    const url = `${baseUrl}${path}${search ? `?${search}` : ""}`;
+    const previous = cached.get(url);
+    if (previous && !headers.has("if-none-match")) {
+      headers.set("If-None-Match", previous.etag);
+    }
+
+    const response = await fetchFn(url, {
+      headers,
+      signal: requestOptions.signal,
+    });
+    if (response.status === 304 && previous) {
+      remember(url, previous);
+      return { ...previous.result, status: 304 } as ApiResult<T>;
+    }
+    // Error bodies are JSON too; anything unparseable is treated as malformed
+    const body = await response.json().catch(() => null) as
+      | (T & { success: boolean })
+      | HoroscopeErrorBody
+      | null;
+
+    // A bulk board where every sign failed still has success: false
+    if (body && (body.success || "results" in body)) {
+      const result = {
+        ok: true as const,
+        status: response.status,
+        data: body as T,
+        cacheStatus: response.headers.get("x-cache"),
+      };
+      const etag = response.headers.get("etag");
+      if (etag) remember(url, { etag, result });
+      return result;
+    }
+
+    const error: HoroscopeErrorBody = body && "code" in body ? body : {
+      success: false,
+      code: "malformed_upstream",
+      error: `Unexpected ${response.status} response from ${path}`,
+    };
+    return {
+      ok: false,
+      status: response.status,
+      error,
+      retryAfter: error.retryAfter ??
+        (Number(response.headers.get("retry-after")) || undefined),
+    };
+  }
+
+  return {
+    getReading: (query, requestOptions) =>
+      request(API_PATHS.reading, query, requestOptions),
+    getAllReadings: (query = {}, requestOptions) =>
+      request(API_PATHS.bulk, query, requestOptions),
+    listArchive: (query, requestOptions) =>
+      request(API_PATHS.archive, query, requestOptions),
+    getArchivedReading: (query, requestOptions) =>
+      request(API_PATHS.archive, query, requestOptions),
+  };
+}
@@ -0,0 +1,225 @@
+// ===================================================================
+// HOROSCOPE DATES - Day resolution and upstream-style date labels
+// ===================================================================
+// All dates are calendar days, handled as UTC midnights so the
+// server's own timezone never leaks into a reading
+
+import type { HoroscopePeriod } from "./types.ts";
+
+const MONTHS_SHORT = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const MONTHS_LONG = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a YYYY-MM-DD string into a UTC midnight
+ * Returns null for anything that isn't a real calendar date
+ */
+export function parseIsoDate(value: string): Date | null {
+  if (!ISO_DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return null;
+  return toIsoDate(date) === value ? date : null;
+}
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export const RELATIVE_DAYS = ["today", "tomorrow", "yesterday"];
+
+/**
+ * Check a day parameter ("today" | "tomorrow" | "yesterday" | "YYYY-MM-DD")
+ */
+export function isValidDayParam(day: string): boolean {
+  return RELATIVE_DAYS.includes(day) || parseIsoDate(day) !== null;
+}
+
+/**
+ * Resolve a day parameter ("today" | "tomorrow" | "yesterday" | "YYYY-MM-DD")
+ * to a calendar date, relative to the given date
+ */
+export function resolveDay(day: string | undefined, today: Date): Date {
+  const base = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()),
+  );
+  switch (day) {
+    case undefined:
+    case "today":
+      return base;
+    case "tomorrow":
+      return addDays(base, 1);
+    case "yesterday":
+      return addDays(base, -1);
+    default:
+      return parseIsoDate(day) ?? base;
+  }
+}
+
+/**
+ * Check an IANA timezone name ("Australia/Melbourne", "America/New_York")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar date it currently is in a timezone, as a UTC midnight
+ */
+export function getLocalDate(timeZone: string, now: Date = new Date()): Date {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return new Date(Date.UTC(part("year"), part("month") - 1, part("day")));
+}
+
+/**
+ * Monday of the week containing the date
+ */
+export function startOfWeek(date: Date): Date {
+  const offset = (date.getUTCDay() + 6) % 7;
+  return addDays(date, -offset);
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * "Oct 19, 2026" - matches the upstream daily label
+ */
+export function formatDayLabel(date: Date): string {
+  return `${
+    MONTHS_SHORT[date.getUTCMonth()]
+  } ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
+
+/**
+ * "Oct 19 - Oct 25, 2026" - matches the upstream weekly label
+ */
+export function formatWeekLabel(date: Date): string {
+  const start = startOfWeek(date);
+  const end = addDays(start, 6);
+  return `${MONTHS_SHORT[start.getUTCMonth()]} ${start.getUTCDate()} - ${
+    MONTHS_SHORT[end.getUTCMonth()]
+  } ${end.getUTCDate()}, ${end.getUTCFullYear()}`;
+}
+
+/**
+ * "October 2026" - matches the upstream monthly label
+ */
+export function formatMonthLabel(date: Date): string {
+  return `${MONTHS_LONG[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Does a label name the period starting on this date?
+ * Loose about the format ("Oct 19, 2026", "Oct 19 - Oct 25, 2026",
+ * "October 2026"), strict about which day, week or month
+ */
+export function isLabelForPeriod(
+  period: HoroscopePeriod,
+  start: Date,
+  label: string,
+): boolean {
+  const month = MONTHS_SHORT[start.getUTCMonth()];
+  const year = String(start.getUTCFullYear());
+  const day = new RegExp(
+    `\\b${month}[a-z]*\\.? 0?${start.getUTCDate()}\\b`,
+    "i",
+  );
+  if (period === "weekly") return day.test(label);
+  if (period === "monthly") {
+    return new RegExp(`\\b${month}[a-z]*\\b`, "i").test(label) &&
+      label.includes(year);
+  }
+  // Daily labels may leave out the year, but mustn't name another one
+  return label.includes(toIsoDate(start)) ||
+    (day.test(label) && (!/\b\d{4}\b/.test(label) || label.includes(year)));
+}
+
+/**
+ * First day of the period that contains the date
+ */
+export function getPeriodStart(period: HoroscopePeriod, date: Date): Date {
+  if (period === "weekly") return startOfWeek(date);
+  if (period === "monthly") return startOfMonth(date);
+  return resolveDay(undefined, date);
+}
+
+/**
+ * First day after the period that starts on the given date
+ */
+export function getPeriodEnd(period: HoroscopePeriod, start: Date): Date {
+  if (period === "weekly") return addDays(start, 7);
+  if (period === "monthly") {
+    return new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1),
+    );
+  }
+  return addDays(start, 1);
+}
+
+/**
+ * Start of the period `steps` periods away from the one starting on `start`
+ * (negative steps go back in time)
+ */
+export function shiftPeriodStart(
+  period: HoroscopePeriod,
+  start: Date,
+  steps: number,
+): Date {
+  if (period === "weekly") return addDays(start, steps * 7);
+  if (period === "monthly") {
+    return new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + steps, 1),
+    );
+  }
+  return addDays(start, steps);
+}
@@ -0,0 +1,150 @@
+// ===================================================================
+// ERROR COPY - On-brand error messages + retry strategy per error code
+// ===================================================================
+// Used by HoroscopeDisplay to turn an API error code into something
+// worth reading and a sensible next move
+
+import type { HoroscopeErrorCode } from "./errors.ts";
+
+/**
+ * What the error panel should do about retrying
+ *   none   - retrying won't help, offer a different sign instead
+ *   manual - show the retry button
+ *   auto   - retry by itself after a delay, then fall back to the button
+ *   wait   - button unlocks once the delay has passed
+ */
+export type RetryStrategy =
+  | { kind: "none" }
+  | { kind: "manual" }
+  | { kind: "auto"; delayMs: number }
+  | { kind: "wait"; delayMs: number };
+
+/** A failure the client saw before the API could give it a code */
+export type ClientErrorCode = HoroscopeErrorCode | "network";
+
+interface ErrorCopy {
+  messages: string[];
+  retry: (retryAfterSeconds?: number) => RetryStrategy;
+}
+
+const seconds = (value: number | undefined, fallback: number) =>
+  (value ?? fallback) * 1000;
+
+const ERROR_COPY: Record<ClientErrorCode, ErrorCopy> = {
+  invalid_sign: {
+    messages: [
+      "🔭 UNKNOWN CONSTELLATION — That sign isn't on our star charts. Pick another?",
+    ],
+    retry: () => ({ kind: "none" }),
+  },
+  invalid_period: {
+    messages: [
+      "📆 TIMELINE ERROR — The stars only speak daily, weekly, or monthly.",
+    ],
+    retry: () => ({ kind: "none" }),
+  },
+  invalid_day: {
+    messages: [
+      "🗓️ DATE OUT OF ORBIT — That day isn't in the star logs. Try another?",
+    ],
+    retry: () => ({ kind: "none" }),
+  },
+  invalid_timezone: {
+    messages: [
+      "🌐 CLOCK DRIFT — Your timezone confused the cosmos. Check your device clock?",
+    ],
+    retry: () => ({ kind: "manual" }),
+  },
+  not_archived: {
+    messages: [
+      "📼 TAPE NOT FOUND — No reading was recorded for that date. Try another?",
+    ],
+    retry: () => ({ kind: "none" }),
+  },
+  upstream_timeout: {
+    messages: [
+      "🛰️ SIGNAL DELAY — The astral plane is lagging. Re-dialing...",
+      "⏳ STARS BUFFERING — The transmission stalled mid-orbit. Re-dialing...",
+    ],
+    retry: (retryAfter) => ({ kind: "auto", delayMs: seconds(retryAfter, 3) }),
+  },
+  upstream_unavailable: {
+    messages: [
+      "⚡ MAINFRAME OFFLINE — The celestial servers are napping. Reconnecting soon...",
+      "🌌 VOID DETECTED — Nothing but cosmic silence out there. Reconnecting soon...",
+    ],
+    retry: (retryAfter) => ({ kind: "auto", delayMs: seconds(retryAfter, 30) }),
+  },
+  upstream_rejected: {
+    messages: [
+      "❌ LINK SEVERED — Cosmic firewall blocked the vibes. Try again?",
+    ],
+    retry: () => ({ kind: "manual" }),
+  },
+  malformed_upstream: {
+    messages: [
+      "⚠️ TRANSMISSION CORRUPTED — The stars sent back static. Retry?",
+      "❌ DECRYPT FAILED — Star data scrambled beyond recognition. Try again?",
+    ],
+    retry: () => ({ kind: "manual" }),
+  },
+  rate_limited: {
+    messages: [
+      "🚦 COSMIC TRAFFIC JAM — Too many readings at once. Breathe, then retry.",
+    ],
+    retry: (retryAfter) => ({ kind: "wait", delayMs: seconds(retryAfter, 60) }),
+  },
+  invalid_api_key: {
+    messages: [
+      "🔑 UNKNOWN KEY — The observatory doesn't recognize this API key.",
+    ],
+    retry: () => ({ kind: "none" }),
+  },
+  origin_not_allowed: {
+    messages: [
+      "🚧 WRONG OBSERVATORY — This API key isn't cleared for this site.",
+    ],
+    retry: () => ({ kind: "none" }),
+  },
+  quota_exceeded: {
+    messages: [
+      "🌙 OUT OF STARDUST — Today's readings are used up. Back after midnight UTC.",
+    ],
+    retry: (retryAfter) => ({
+      kind: "wait",
+      delayMs: seconds(retryAfter, 3600),
+    }),
+  },
+  internal_error: {
+    messages: [
+      "🔮 DIVINATION FAILED — The universe hung up on us. One more time?",
+    ],
+    retry: () => ({ kind: "manual" }),
+  },
+  network: {
+    messages: [
+      "🛰️ CONNECTION TIMEOUT — Can't reach the astral plane. Check your link?",
+      "⚡ SIGNAL LOST — Mothership went dark. Reconnect?",
+    ],
+    retry: () => ({ kind: "manual" }),
+  },
+};
+
+/**
+ * Pick a message and retry strategy for an error code
+ * Unknown codes (say, from a newer server) get the generic treatment
+ */
+export function describeHoroscopeError(
+  code: string | undefined,
+  retryAfterSeconds?: number,
+): { code: ClientErrorCode; message: string; retry: RetryStrategy } {
+  const known = code && Object.hasOwn(ERROR_COPY, code)
+    ? code as ClientErrorCode
+    : "internal_error";
+  const copy = ERROR_COPY[known];
+  return {
+    code: known,
+    message: copy.messages[Math.floor(Math.random() * copy.messages.length)],
+    retry: copy.retry(retryAfterSeconds),
+  };
+}
@@ -0,0 +1,167 @@
+// ===================================================================
+// HOROSCOPE ERRORS - Error codes shared by the API and the client
+// ===================================================================
+// Every API failure carries a code, an HTTP status and, where waiting
+// helps, a Retry-After. Body shape:
+//   { success: false, code: "upstream_timeout", error: "...", retryAfter: 10 }
+
+import { MalformedReadingError } from "./reading.ts";
+import {
+  CircuitOpenError,
+  UpstreamHttpError,
+  UpstreamTimeoutError,
+} from "./resilience.ts";
+
+export const HOROSCOPE_ERROR_CODES = [
+  "invalid_sign",
+  "invalid_period",
+  "invalid_day",
+  "invalid_timezone",
+  "not_archived",
+  "upstream_timeout",
+  "upstream_unavailable",
+  "upstream_rejected",
+  "malformed_upstream",
+  "rate_limited",
+  "invalid_api_key",
+  "origin_not_allowed",
+  "quota_exceeded",
+  "internal_error",
+] as const;
+
+export type HoroscopeErrorCode = typeof HOROSCOPE_ERROR_CODES[number];
+
+export const ERROR_STATUS: Record<HoroscopeErrorCode, number> = {
+  invalid_sign: 400,
+  invalid_period: 400,
+  invalid_day: 400,
+  invalid_timezone: 400,
+  not_archived: 404,
+  upstream_timeout: 504,
+  upstream_unavailable: 503,
+  upstream_rejected: 502,
+  malformed_upstream: 502,
+  rate_limited: 429,
+  invalid_api_key: 401,
+  origin_not_allowed: 403,
+  quota_exceeded: 429,
+  internal_error: 500,
+};
+
+// Retry-After (seconds) when nothing more specific is known
+const DEFAULT_RETRY_AFTER: Partial<Record<HoroscopeErrorCode, number>> = {
+  upstream_timeout: 10,
+  upstream_unavailable: 30,
+  rate_limited: 60,
+};
+
+/**
+ * Body of a failed API response
+ */
+export interface HoroscopeErrorBody {
+  success: false;
+  code: HoroscopeErrorCode;
+  error: string;
+  /** Seconds to wait before retrying, mirrors the Retry-After header */
+  retryAfter?: number;
+  details?: Record<string, unknown>;
+}
+
+export class HoroscopeApiError extends Error {
+  readonly retryAfter?: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    public readonly code: HoroscopeErrorCode,
+    message: string,
+    options: { retryAfter?: number; details?: Record<string, unknown> } = {},
+  ) {
+    super(message);
+    this.name = "HoroscopeApiError";
+    this.retryAfter = options.retryAfter ?? DEFAULT_RETRY_AFTER[code];
+    this.details = options.details;
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toBody(): HoroscopeErrorBody {
+    return {
+      success: false,
+      code: this.code,
+      error: this.message,
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+      ...(this.details && { details: this.details }),
+    };
+  }
+}
+
+/**
+ * Map anything thrown while getting a reading onto an API error
+ */
+export function toHoroscopeApiError(error: unknown): HoroscopeApiError {
+  if (error instanceof HoroscopeApiError) return error;
+
+  if (error instanceof CircuitOpenError) {
+    return new HoroscopeApiError(
+      "upstream_unavailable",
+      "Horoscope upstream is down, try again shortly",
+      { retryAfter: Math.max(1, Math.ceil(error.retryAfterMs / 1000)) },
+    );
+  }
+  if (error instanceof UpstreamTimeoutError) {
+    return new HoroscopeApiError("upstream_timeout", error.message);
+  }
+  if (error instanceof UpstreamHttpError) {
+    if (error.status === 429) {
+      return new HoroscopeApiError(
+        "rate_limited",
+        "Horoscope upstream is rate limiting us",
+        { retryAfter: error.retryAfter },
+      );
+    }
+    return error.status >= 500
+      ? new HoroscopeApiError("upstream_unavailable", error.message, {
+        retryAfter: error.retryAfter,
+      })
+      : new HoroscopeApiError("upstream_rejected", error.message);
+  }
+  if (error instanceof MalformedReadingError || error instanceof SyntaxError) {
+    return new HoroscopeApiError("malformed_upstream", error.message);
+  }
+  // fetch() throws TypeError for network failures
+  if (error instanceof TypeError) {
+    return new HoroscopeApiError(
+      "upstream_unavailable",
+      `Horoscope upstream unreachable: ${error.message}`,
+    );
+  }
+
+  return new HoroscopeApiError(
+    "internal_error",
+    error instanceof Error ? error.message : "Unknown error",
+  );
+}
+
+/**
+ * JSON error response with the right status and Retry-After
+ */
+export function errorResponse(
+  error: HoroscopeApiError,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(
+    JSON.stringify(error.toBody()),
+    {
+      status: error.status,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+        ...(error.retryAfter !== undefined &&
+          { "Retry-After": String(error.retryAfter) }),
+        ...headers,
+      },
+    },
+  );
+}
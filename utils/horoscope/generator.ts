@@ -0,0 +1,240 @@
+// ===================================================================
+// HOROSCOPE GENERATOR - Deterministic offline readings
+// ===================================================================
+// A tiny grammar engine fed by ZODIAC_SIGNS. The same sign, period and
+// date always produce the same reading, so a generated reading doesn't
+// change on refresh and can be cached like a real one.
+//
+// Grammar: templates contain {symbol} slots. Each symbol expands to one
+// of its options (which may contain more slots). {Symbol} capitalizes
+// the first letter of the expansion.
+
+import type { ZodiacSign } from "../zodiac.ts";
+import type { HoroscopePeriod } from "./types.ts";
+
+type Grammar = Record<string, string[]>;
+
+const MAX_DEPTH = 8;
+
+/**
+ * FNV-1a hash, used to turn the seed string into a number
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 - small, fast, good enough for picking sentences
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(options: readonly T[], random: () => number): T {
+  return options[Math.floor(random() * options.length)];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * "Launch-first gambits, fearless sprints." → "launch-first gambits, fearless sprints"
+ */
+function asPhrase(text: string): string {
+  return (text.charAt(0).toLowerCase() + text.slice(1)).replace(/[.!]+$/, "");
+}
+
+/**
+ * Expand every {symbol} slot in a template
+ */
+export function expandTemplate(
+  template: string,
+  grammar: Grammar,
+  random: () => number,
+  depth = 0,
+): string {
+  return template.replace(/\{(\w+)\}/g, (slot, symbol: string) => {
+    const key = symbol.toLowerCase();
+    const options = grammar[key];
+    if (!options?.length || depth >= MAX_DEPTH) return slot;
+    const expanded = expandTemplate(
+      pick(options, random),
+      grammar,
+      random,
+      depth + 1,
+    );
+    return symbol === key ? expanded : capitalize(expanded);
+  });
+}
+
+const ELEMENT_WORDS: Record<ZodiacSign["element"], string[]> = {
+  fire: ["spark", "heat", "flare", "wildfire energy"],
+  earth: ["ground game", "roots", "steady hands", "bedrock"],
+  air: ["signal", "static", "crosswinds", "bandwidth"],
+  water: ["undertow", "tide", "deep end", "current"],
+};
+
+const MODALITY_MOVES: Record<ZodiacSign["modality"], string[]> = {
+  cardinal: ["start the thing", "make the first call", "set the agenda"],
+  fixed: ["hold the line", "finish what you started", "stay on your orbit"],
+  mutable: ["pivot on your terms", "remix the plan", "change lanes early"],
+};
+
+// Shared vocabulary, whatever the sign
+const BASE_GRAMMAR: Grammar = {
+  area: [
+    "group chat",
+    "inbox",
+    "bank balance",
+    "creative queue",
+    "love life",
+    "sleep schedule",
+    "side quest",
+    "camera roll",
+  ],
+  someone: [
+    "a friend who owes you a favor",
+    "someone from an old group chat",
+    "a rival with surprisingly good taste",
+    "the person who always texts back fast",
+  ],
+  feeling: ["restless", "magnetic", "weirdly calm", "plugged in", "unbothered"],
+  weekday: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
+};
+
+const TEMPLATES: Record<HoroscopePeriod, string[][]> = {
+  daily: [
+    [
+      "{Planet} is pulling focus today, {Sign}, and your {element} is wide awake.",
+      "Signal check, {Sign}: {planet} has its eye on your {area}.",
+      "Today runs on {element}, {Sign}, and you're feeling {feeling} about it.",
+    ],
+    [
+      "Lean into your {keyword} side and {move}.",
+      "Your {keyword} instincts are right on time, so {move}.",
+      "Expect a nudge from {someone}. It's worth answering.",
+    ],
+    [
+      "Signature move energy: {signature}.",
+      "When it gets loud, reset with {recharge}.",
+      "Keep the {area} tidy and the rest sorts itself out.",
+    ],
+    [
+      "Motto of the day: {motto}",
+      "The stars are loading in your favor. {Motto}",
+    ],
+  ],
+  weekly: [
+    [
+      "This week belongs to your {element}, {Sign}.",
+      "{Planet} sets the pace this week, {Sign}, and it's faster than you planned.",
+      "Week ahead, {Sign}: the {keyword} in you gets a real assignment.",
+    ],
+    [
+      "Early days are for groundwork. By {weekday}, it's time to {move}.",
+      "Your {area} needs attention before {weekday}, so {move} while it's easy.",
+      "Around {weekday}, {someone} brings a plot twist worth entertaining.",
+    ],
+    [
+      "Lean on {signature}. It's your best tool this week.",
+      "Block an evening for {recharge}. Non-negotiable.",
+    ],
+    [
+      "Weekend forecast: {feeling}, with a high chance of {keyword} behavior.",
+      "Carry this into Sunday: {motto}",
+    ],
+  ],
+  monthly: [
+    [
+      "A month of rewiring, {Sign}. {Planet} wants your {element} pointed somewhere new.",
+      "This month, {Sign}, your {keyword} era gets an upgrade.",
+      "{Planet} is redrawing your map this month, {Sign}.",
+    ],
+    [
+      "The first stretch is about your {area}: {move} and don't wait for permission.",
+      "Mid-month, {someone} reopens a door you thought was shut.",
+      "Old routines stop fitting. Redesign them around {signature}.",
+    ],
+    [
+      "Protect your energy with {recharge}, especially in the final week.",
+      "Money and momentum line up late in the month. Stay {feeling}.",
+    ],
+    [
+      "Your theme for the month: {motto}",
+      "Close the month the way you mean to continue. {Motto}",
+    ],
+  ],
+};
+
+/**
+ * Sign-specific symbols layered over the shared vocabulary
+ */
+function buildGrammar(sign: ZodiacSign): Grammar {
+  return {
+    ...BASE_GRAMMAR,
+    sign: [capitalize(sign.name)],
+    // "the Sun" / "the Moon", but plain "Mars"
+    planet: [
+      ["Sun", "Moon"].includes(sign.rulingPlanet)
+        ? `the ${sign.rulingPlanet}`
+        : sign.rulingPlanet,
+    ],
+    element: ELEMENT_WORDS[sign.element],
+    move: MODALITY_MOVES[sign.modality],
+    keyword: sign.keywords,
+    signature: [asPhrase(sign.signatureMove)],
+    recharge: [asPhrase(sign.recharge)],
+    motto: [`"${sign.motto}"`],
+  };
+}
+
+/**
+ * Generate the reading text for a sign, period and date (YYYY-MM-DD)
+ */
+export function generateReadingText(
+  sign: ZodiacSign,
+  period: HoroscopePeriod,
+  date: string,
+): string {
+  const random = createSeededRandom(`${sign.name}:${period}:${date}`);
+  const grammar = buildGrammar(sign);
+  return TEMPLATES[period]
+    .map((options) => expandTemplate(pick(options, random), grammar, random))
+    .join(" ");
+}
+
+/**
+ * Standout and challenging days for a generated monthly reading
+ */
+export function generateMonthDays(
+  sign: ZodiacSign,
+  date: string,
+  daysInMonth: number,
+): { standoutDays: string[]; challengingDays: string[] } {
+  const random = createSeededRandom(`${sign.name}:days:${date}`);
+  const days = Array.from({ length: daysInMonth }, (_, i) => i + 1);
+  // Fisher-Yates, then take from the front
+  for (let i = days.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [days[i], days[j]] = [days[j], days[i]];
+  }
+  const sorted = (list: number[]) =>
+    list.sort((a, b) => a - b).map((day) => String(day));
+  return {
+    standoutDays: sorted(days.slice(0, 3)),
+    challengingDays: sorted(days.slice(3, 5)),
+  };
+}
@@ -0,0 +1,385 @@
+// ===================================================================
+// OPENAPI - OpenAPI 3.1 description of the public API
+// ===================================================================
+// Built from the same constants the routes validate against (signs,
+// periods, error codes and statuses, archive limits) and the client's
+// API_PATHS, so the document can't drift from what the code accepts.
+// Served at /api/openapi.json.
+//
+// `deno task check:openapi` compares the documented paths with the
+// /api routes in fresh.gen.ts and fails on any difference.
+
+import { HOROSCOPE_PERIODS, VALID_SIGNS } from "./types.ts";
+import { ERROR_STATUS, HOROSCOPE_ERROR_CODES } from "./errors.ts";
+import { ARCHIVE_DEFAULT_LIMIT, ARCHIVE_MAX_LIMIT } from "./archive.ts";
+import { API_PATHS } from "./client.ts";
+import { SITE_URL } from "../seo.ts";
+import { API_KEY_HEADER } from "../apiKeys.ts";
+
+export const OPENAPI_PATH = "/api/openapi.json";
+
+// /api routes that aren't part of the public API
+const UNDOCUMENTED_PATHS = [OPENAPI_PATH, "/api/prewarm"];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const param = (
+  name: string,
+  description: string,
+  schema: Record<string, unknown>,
+  required = false,
+) => ({ name, in: "query", required, description, schema });
+
+const signParam = param("sign", "Zodiac sign", { enum: VALID_SIGNS }, true);
+const periodParam = param("period", "Reading period", {
+  enum: HOROSCOPE_PERIODS,
+  default: HOROSCOPE_PERIODS[0],
+});
+const dayParam = param(
+  "day",
+  "Reference day: today, tomorrow, yesterday or YYYY-MM-DD. Picks the week/month for longer periods.",
+  { type: "string", default: "today" },
+);
+const tzParam = param(
+  "tz",
+  "IANA timezone that relative days resolve in (the X-Timezone header works too)",
+  { type: "string", default: "UTC", examples: ["Australia/Melbourne"] },
+);
+
+/**
+ * Error responses for a set of codes, grouped by HTTP status
+ */
+function errorResponses(
+  codes: readonly (typeof HOROSCOPE_ERROR_CODES)[number][],
+) {
+  const byStatus = new Map<number, string[]>();
+  for (const code of codes) {
+    const status = ERROR_STATUS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, statusCodes]) => [
+      String(status),
+      {
+        description: `Error: ${statusCodes.join(", ")}`,
+        headers: status === 429 || status >= 503
+          ? {
+            "Retry-After": {
+              description: "Seconds to wait before retrying",
+              schema: { type: "integer" },
+            },
+          }
+          : undefined,
+        content: { "application/json": { schema: ref("Error") } },
+      },
+    ]),
+  );
+}
+
+// Readings are tagged so clients can revalidate (utils/conditional.ts)
+const VALIDATOR_HEADERS = {
+  "ETag": {
+    description: "Strong tag for the reading; send it back in If-None-Match",
+    schema: { type: "string" },
+  },
+  "Last-Modified": {
+    description: "00:00 UTC on the reading's date",
+    schema: { type: "string" },
+  },
+};
+
+const NOT_MODIFIED = {
+  description: "The reading matches If-None-Match / If-Modified-Since",
+  headers: VALIDATOR_HEADERS,
+};
+
+// Rate limits, and API key checks when X-Api-Key is sent
+const ACCESS_ERRORS = [
+  "rate_limited",
+  "invalid_api_key",
+  "origin_not_allowed",
+  "quota_exceeded",
+] as const;
+
+// Any reading can fail upstream
+const UPSTREAM_ERRORS = [
+  "upstream_timeout",
+  "upstream_unavailable",
+  "upstream_rejected",
+  "malformed_upstream",
+  "internal_error",
+] as const;
+
+/**
+ * The OpenAPI document
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Stargram Horoscope API",
+      version: "1.0.0",
+      description:
+        "Daily, weekly and monthly horoscope readings. Readings are public: anonymous requests are rate limited per IP, partners with an API key get a daily quota and their own allowed origins (X-RateLimit-* headers either way).",
+    },
+    servers: [{ url: SITE_URL }],
+    // Anonymous or keyed
+    security: [{}, { apiKey: [] }],
+    paths: {
+      [API_PATHS.reading]: {
+        get: {
+          operationId: "getReading",
+          summary: "Reading for one sign",
+          parameters: [signParam, periodParam, dayParam, tzParam],
+          responses: {
+            "200": {
+              description: "The reading",
+              headers: {
+                ...VALIDATOR_HEADERS,
+                "X-Cache": {
+                  description:
+                    "HIT, MISS, STALE, ARCHIVE, FALLBACK or GENERATED",
+                  schema: { type: "string" },
+                },
+              },
+              content: {
+                "application/json": { schema: ref("ReadingResponse") },
+              },
+            },
+            "304": NOT_MODIFIED,
+            ...errorResponses([
+              "invalid_sign",
+              "invalid_period",
+              "invalid_day",
+              "invalid_timezone",
+              "not_archived",
+              ...ACCESS_ERRORS,
+              ...UPSTREAM_ERRORS,
+            ]),
+          },
+        },
+      },
+      [API_PATHS.bulk]: {
+        get: {
+          operationId: "getAllReadings",
+          summary: "Readings for all twelve signs",
+          description:
+            "Signs that fail come back as error entries. The request only fails when every sign did: with the status their shared error code maps to (404 for not_archived, 503 for upstream_unavailable, ...), or 502 when they differ.",
+          parameters: [periodParam, dayParam, tzParam],
+          responses: {
+            "200": {
+              description: "At least one sign came back",
+              content: { "application/json": { schema: ref("BulkResponse") } },
+            },
+            "404": {
+              description: "Nothing was archived for that day for any sign",
+              content: { "application/json": { schema: ref("BulkResponse") } },
+            },
+            "5XX": {
+              description: "Every sign failed",
+              content: { "application/json": { schema: ref("BulkResponse") } },
+            },
+            ...errorResponses([
+              "invalid_period",
+              "invalid_day",
+              "invalid_timezone",
+              ...ACCESS_ERRORS,
+            ]),
+          },
+        },
+      },
+      [API_PATHS.archive]: {
+        get: {
+          operationId: "getArchive",
+          summary: "Archived dates for a sign, or one archived reading",
+          description:
+            "Without date: archived period start dates, newest first. With date: that reading, or not_archived.",
+          parameters: [
+            signParam,
+            periodParam,
+            param("date", "Period start date (YYYY-MM-DD)", {
+              type: "string",
+              format: "date",
+            }),
+            param("limit", "Max dates to list", {
+              type: "integer",
+              minimum: 1,
+              maximum: ARCHIVE_MAX_LIMIT,
+              default: ARCHIVE_DEFAULT_LIMIT,
+            }),
+          ],
+          responses: {
+            "200": {
+              description:
+                "Date listing, or the archived reading (with ETag and Last-Modified)",
+              content: {
+                "application/json": {
+                  schema: {
+                    oneOf: [ref("ArchiveListResponse"), ref("ReadingResponse")],
+                  },
+                },
+              },
+            },
+            "304": NOT_MODIFIED,
+            ...errorResponses([
+              "invalid_sign",
+              "invalid_period",
+              "invalid_day",
+              "not_archived",
+              ...ACCESS_ERRORS,
+              "internal_error",
+            ]),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: API_KEY_HEADER },
+      },
+      schemas: {
+        Reading: {
+          type: "object",
+          required: ["sign", "period", "date", "text", "label"],
+          properties: {
+            sign: { enum: VALID_SIGNS },
+            period: { enum: HOROSCOPE_PERIODS },
+            date: {
+              type: "string",
+              format: "date",
+              description: "First day of the period",
+            },
+            text: { type: "string" },
+            label: {
+              type: "string",
+              examples: ["Oct 19, 2026", "October 2026"],
+            },
+            generated: {
+              type: "boolean",
+              description: "Written by the offline generator",
+            },
+            standoutDays: {
+              type: "array",
+              items: { type: "string" },
+              description: "Monthly only",
+            },
+            challengingDays: {
+              type: "array",
+              items: { type: "string" },
+              description: "Monthly only",
+            },
+          },
+        },
+        ReadingResponse: {
+          type: "object",
+          required: ["success", "data"],
+          properties: {
+            success: { const: true },
+            data: ref("Reading"),
+          },
+        },
+        BulkResponse: {
+          type: "object",
+          required: ["success", "period", "day", "results"],
+          properties: {
+            success: { type: "boolean" },
+            period: { enum: HOROSCOPE_PERIODS },
+            day: { type: "string", format: "date" },
+            results: {
+              type: "array",
+              items: {
+                oneOf: [
+                  {
+                    type: "object",
+                    required: ["sign", "ok", "reading"],
+                    properties: {
+                      sign: { enum: VALID_SIGNS },
+                      ok: { const: true },
+                      reading: ref("Reading"),
+                    },
+                  },
+                  {
+                    type: "object",
+                    required: ["sign", "ok", "code", "error"],
+                    properties: {
+                      sign: { enum: VALID_SIGNS },
+                      ok: { const: false },
+                      code: ref("ErrorCode"),
+                      error: { type: "string" },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        ArchiveListResponse: {
+          type: "object",
+          required: ["success", "sign", "period", "dates"],
+          properties: {
+            success: { const: true },
+            sign: { enum: VALID_SIGNS },
+            period: { enum: HOROSCOPE_PERIODS },
+            dates: {
+              type: "array",
+              items: { type: "string", format: "date" },
+            },
+          },
+        },
+        ErrorCode: { enum: HOROSCOPE_ERROR_CODES },
+        Error: {
+          type: "object",
+          required: ["success", "code", "error"],
+          properties: {
+            success: { const: false },
+            code: ref("ErrorCode"),
+            error: { type: "string" },
+            retryAfter: {
+              type: "integer",
+              description: "Seconds, mirrors Retry-After",
+            },
+            details: { type: "object" },
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Documented paths missing from the routes, and /api routes missing
+ * from the document
+ */
+export function diffOpenApiPaths(routePaths: string[]) {
+  const documented = Object.keys(
+    buildOpenApiDocument().paths as Record<string, unknown>,
+  );
+  const served = routePaths.filter((path) =>
+    !UNDOCUMENTED_PATHS.includes(path)
+  );
+  return {
+    undocumented: served.filter((path) => !documented.includes(path)),
+    missing: documented.filter((path) => !served.includes(path)),
+  };
+}
+
+if (import.meta.main) {
+  // Read the manifest as text so the check doesn't load the whole app
+  const manifest = await Deno.readTextFile(
+    new URL("../../fresh.gen.ts", import.meta.url),
+  );
+  // "./routes/api/horoscope/all.ts": → /api/horoscope/all
+  const apiRoutes = [...manifest.matchAll(/"\.\/routes(\/api\/[^"]+)\.tsx?":/g)]
+    .map((match) => match[1])
+    .filter((path) => !path.includes("/_"));
+  const { undocumented, missing } = diffOpenApiPaths(apiRoutes);
+
+  if (undocumented.length || missing.length) {
+    console.error("OpenAPI document is out of date:");
+    for (const path of undocumented) console.error(`  not documented: ${path}`);
+    for (const path of missing) console.error(`  no such route:  ${path}`);
+    Deno.exit(1);
+  }
+  console.log(`OpenAPI document covers all ${apiRoutes.length} API routes`);
+}
@@ -0,0 +1,104 @@
+// ===================================================================
+// READING PARAMS - Shared query parsing for the horoscope API routes
+// ===================================================================
+// period, day and timezone mean the same thing on every route:
+//   ?period=daily|weekly|monthly   (default daily)
+//   ?day=today|tomorrow|yesterday|YYYY-MM-DD   (default today)
+//   ?tz=Australia/Melbourne or X-Timezone header   (default UTC)
+
+import {
+  HOROSCOPE_PERIODS,
+  type HoroscopePeriod,
+  isHoroscopePeriod,
+} from "./types.ts";
+import {
+  getLocalDate,
+  isValidDayParam,
+  isValidTimeZone,
+  resolveDay,
+  toIsoDate,
+} from "./dates.ts";
+import { HoroscopeApiError } from "./errors.ts";
+
+// Used when the caller doesn't tell us their timezone
+export const DEFAULT_TIMEZONE = "UTC";
+
+export interface ReadingParams {
+  period: HoroscopePeriod;
+  /** The caller's resolved calendar day, YYYY-MM-DD */
+  day: string;
+  timeZone: string;
+}
+
+export type ReadingParamsResult =
+  | { ok: true; params: ReadingParams }
+  | { ok: false; error: HoroscopeApiError };
+
+/**
+ * Validate period/day/timezone and resolve the caller's day
+ * "today" is the caller's today, worked out from their timezone
+ */
+export function parseReadingParams(
+  req: Request,
+  now: Date = new Date(),
+): ReadingParamsResult {
+  const url = new URL(req.url);
+  return resolveReadingParams({
+    period: url.searchParams.get("period"),
+    day: url.searchParams.get("day"), // Optional override
+    timeZone: url.searchParams.get("tz") || req.headers.get("x-timezone"),
+  }, now);
+}
+
+/**
+ * Same validation for params that didn't come from the query string
+ * (say, path segments like /leo/weekly/2026-10-12)
+ */
+export function resolveReadingParams(
+  raw: {
+    period?: string | null;
+    day?: string | null;
+    timeZone?: string | null;
+  },
+  now: Date = new Date(),
+): ReadingParamsResult {
+  const period = raw.period || "daily";
+  const customDay = raw.day || null;
+  const timeZone = raw.timeZone || DEFAULT_TIMEZONE;
+
+  if (!isHoroscopePeriod(period)) {
+    return {
+      ok: false,
+      error: new HoroscopeApiError(
+        "invalid_period",
+        `Invalid period. Must be: ${HOROSCOPE_PERIODS.join(", ")}`,
+      ),
+    };
+  }
+
+  if (customDay && !isValidDayParam(customDay)) {
+    return {
+      ok: false,
+      error: new HoroscopeApiError(
+        "invalid_day",
+        "Invalid day. Must be: today, tomorrow, yesterday, or YYYY-MM-DD",
+      ),
+    };
+  }
+
+  if (!isValidTimeZone(timeZone)) {
+    return {
+      ok: false,
+      error: new HoroscopeApiError(
+        "invalid_timezone",
+        "Invalid timezone. Use an IANA name like Australia/Melbourne",
+      ),
+    };
+  }
+
+  // Resolve the caller's calendar day, then any relative override
+  const localToday = getLocalDate(timeZone, now);
+  const day = toIsoDate(resolveDay(customDay ?? undefined, localToday));
+
+  return { ok: true, params: { period, day, timeZone } };
+}
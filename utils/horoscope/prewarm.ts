@@ -0,0 +1,222 @@
+// ===================================================================
+// PREWARM - Fetch tomorrow's readings before anyone asks for them
+// ===================================================================
+// Without this, the first visitor after midnight pays the full upstream
+// latency. A Deno.cron job runs at :45 every hour and, for each zone in
+// PREWARM_TIME_ZONES that reaches midnight within the hour, fetches the
+// new day's daily reading for all twelve signs. When that day starts a
+// week or a month, the weekly/monthly readings come along too, but only
+// once the upstream has rolled over to it (midnight UTC): until then it
+// still serves the previous one, so zones east of UTC are skipped.
+//
+// It goes through getReading, so the server cache and the archive both
+// get the reading, and zones that share a date only fetch once (the
+// second zone finds it cached). A stand-in (last good or generated
+// reading, see isProvisional) doesn't count as warmed: the real reading
+// still has to be fetched by whoever asks next.
+//
+// Off with PREWARM_CRON=false (features.prewarmCron). POST /api/prewarm runs it by hand.
+
+import {
+  HOROSCOPE_PERIODS,
+  type HoroscopePeriod,
+  VALID_SIGNS,
+} from "./types.ts";
+import {
+  getLocalDate,
+  parseIsoDate,
+  startOfMonth,
+  startOfWeek,
+  toIsoDate,
+} from "./dates.ts";
+import {
+  BULK_CONCURRENCY,
+  type CacheStatus,
+  getReading,
+  isProvisional,
+  isUpstreamServable,
+} from "./service.ts";
+import { toHoroscopeApiError } from "./errors.ts";
+import { mapWithConcurrency } from "../concurrency.ts";
+import { log } from "../log.ts";
+import { getConfig } from "../config.ts";
+
+// Zones most of our visitors are in, east to west
+export const PREWARM_TIME_ZONES = [
+  "Pacific/Auckland",
+  "Australia/Sydney",
+  "Asia/Tokyo",
+  "Asia/Shanghai",
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Europe/Berlin",
+  "Europe/London",
+  "America/Sao_Paulo",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+];
+
+// Hourly at :45, so whole-hour zones are warmed 15 minutes early
+export const PREWARM_SCHEDULE = "45 * * * *";
+const PREWARM_LOOKAHEAD_MS = 60 * 60 * 1000;
+
+export type PrewarmResult =
+  & { sign: string; period: HoroscopePeriod; date: string; ms: number }
+  & (
+    | { ok: true; cacheStatus: CacheStatus }
+    | { ok: false; provisional: true; cacheStatus: CacheStatus }
+    | { ok: false; provisional?: false; code: string; error: string }
+  );
+
+/**
+ * How many readings were warmed, only got a stand-in, or failed
+ */
+export function summarizePrewarm(
+  results: PrewarmResult[],
+): { ok: number; provisional: number; failed: number } {
+  const ok = results.filter((result) => result.ok).length;
+  const provisional =
+    results.filter((result) => !result.ok && result.provisional).length;
+  return { ok, provisional, failed: results.length - ok - provisional };
+}
+
+/**
+ * Dates (YYYY-MM-DD) that start in some zone within the next hour
+ */
+export function getUpcomingDates(
+  now: Date,
+  timeZones: string[] = PREWARM_TIME_ZONES,
+): string[] {
+  const later = new Date(now.getTime() + PREWARM_LOOKAHEAD_MS);
+  const dates = new Set<string>();
+  for (const timeZone of timeZones) {
+    const upcoming = toIsoDate(getLocalDate(timeZone, later));
+    if (upcoming !== toIsoDate(getLocalDate(timeZone, now))) {
+      dates.add(upcoming);
+    }
+  }
+  return [...dates];
+}
+
+/**
+ * Periods with a new reading on this date: daily always, weekly on
+ * Mondays, monthly on the 1st. Weekly and monthly only once the upstream
+ * serves them.
+ */
+export function getPeriodsStartingOn(
+  date: string,
+  now: Date = new Date(),
+): HoroscopePeriod[] {
+  const day = parseIsoDate(date);
+  if (!day) return [];
+  return HOROSCOPE_PERIODS.filter((period) =>
+    period === "daily" ||
+    (isUpstreamServable(period, day, now) &&
+      ((period === "weekly" && startOfWeek(day).getTime() === day.getTime()) ||
+        (period === "monthly" &&
+          startOfMonth(day).getTime() === day.getTime())))
+  );
+}
+
+/**
+ * Fetch every sign's reading for these periods on a date, logging
+ * each one. Failures and stand-ins are reported, not thrown.
+ */
+export async function prewarmReadings(
+  date: string,
+  periods: readonly HoroscopePeriod[],
+  now: Date = new Date(),
+): Promise<PrewarmResult[]> {
+  const jobs = periods.flatMap((period) =>
+    VALID_SIGNS.map((sign) => ({ sign, period }))
+  );
+
+  return await mapWithConcurrency(
+    jobs,
+    BULK_CONCURRENCY,
+    async ({ sign, period }): Promise<PrewarmResult> => {
+      const started = performance.now();
+      const elapsed = () => Math.round(performance.now() - started);
+      try {
+        const { cacheStatus } = await getReading(
+          { sign, period, day: date },
+          now,
+        );
+        const ms = elapsed();
+        if (isProvisional(cacheStatus)) {
+          log.warn("Prewarm only got a stand-in", {
+            sign,
+            period,
+            date,
+            cacheStatus,
+            ms,
+          });
+          return {
+            sign,
+            period,
+            date,
+            ms,
+            ok: false,
+            provisional: true,
+            cacheStatus,
+          };
+        }
+        log.info("Prewarmed reading", { sign, period, date, cacheStatus, ms });
+        return { sign, period, date, ms, ok: true, cacheStatus };
+      } catch (error) {
+        const apiError = toHoroscopeApiError(error);
+        const ms = elapsed();
+        log.error("Prewarm failed", {
+          sign,
+          period,
+          date,
+          code: apiError.code,
+          ms,
+          error,
+        });
+        return {
+          sign,
+          period,
+          date,
+          ms,
+          ok: false,
+          code: apiError.code,
+          error: apiError.message,
+        };
+      }
+    },
+  );
+}
+
+/**
+ * One cron tick: warm whatever dates are about to start somewhere
+ */
+export async function runScheduledPrewarm(
+  now: Date = new Date(),
+): Promise<PrewarmResult[]> {
+  const results: PrewarmResult[] = [];
+  for (const date of getUpcomingDates(now)) {
+    results.push(
+      ...await prewarmReadings(date, getPeriodsStartingOn(date, now), now),
+    );
+  }
+  if (results.length) log.info("Prewarm done", summarizePrewarm(results));
+  return results;
+}
+
+/**
+ * Schedule the hourly job. Call once at startup (Deno.cron only
+ * registers at the top level of the isolate).
+ */
+export function registerPrewarmCron(): void {
+  if (!getConfig().features.prewarmCron) return;
+  if (typeof Deno.cron !== "function") {
+    log.warn("Deno.cron unavailable, readings won't be prewarmed");
+    return;
+  }
+  Deno.cron("prewarm readings", PREWARM_SCHEDULE, async () => {
+    await runScheduledPrewarm();
+  });
+}
@@ -0,0 +1,46 @@
+// ===================================================================
+// FILE PROVIDER - Readings from JSON files on disk
+// ===================================================================
+// Layout (each file holds an upstream-shaped response):
+//   <dir>/<sign>/daily-2026-10-19.json   daily reading for one date
+//   <dir>/<sign>/weekly.json
+//   <dir>/<sign>/monthly.json
+// Labels have to name the day/week/month being asked for
+// (normalizeReading rejects anything else), so there's no catch-all
+// daily file: it would only ever be right for one date.
+
+import type { HoroscopeProvider, HoroscopeQuery } from "../types.ts";
+
+export const DEFAULT_FILE_PROVIDER_DIR = "./data/horoscopes";
+
+/**
+ * Candidate files for a query, most specific first
+ */
+function candidatePaths(dir: string, query: HoroscopeQuery): string[] {
+  const base = `${dir}/${query.sign}`;
+  if (query.period === "daily" && query.day) {
+    return [`${base}/daily-${query.day}.json`];
+  }
+  return [`${base}/${query.period}.json`];
+}
+
+export function createFileProvider(
+  dir = DEFAULT_FILE_PROVIDER_DIR,
+): HoroscopeProvider {
+  return {
+    name: "file",
+    async fetchHoroscope(query) {
+      const paths = candidatePaths(dir, query);
+
+      for (const path of paths) {
+        try {
+          return JSON.parse(await Deno.readTextFile(path));
+        } catch (error) {
+          if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+      }
+
+      throw new Error(`No reading file found (tried ${paths.join(", ")})`);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+// ===================================================================
+// FIXTURE PROVIDER - Built-in sample readings, no network needed
+// ===================================================================
+// Handy for working on the display pipeline offline. Every sign gets
+// the same copy with its name swapped in.
+
+import type {
+  HoroscopePeriod,
+  HoroscopeProvider,
+  UpstreamHoroscopeData,
+  UpstreamHoroscopeResponse,
+} from "../types.ts";
+import {
+  formatDayLabel,
+  formatMonthLabel,
+  formatWeekLabel,
+  resolveDay,
+} from "../dates.ts";
+
+const FIXTURE_TEXT: Record<HoroscopePeriod, string> = {
+  daily:
+    "The signal is clear today, {sign}. Something you parked weeks ago comes back with fresh momentum, and this time you have the bandwidth for it. Say the quiet part out loud in the group chat. Someone has been waiting for you to go first.",
+  weekly:
+    "This week rewards the long game, {sign}. Early days feel slow while the pieces line up, but by the weekend a plan you almost abandoned starts paying out. Keep one evening free for the invite you don't see coming.",
+  monthly:
+    "A month of rewiring, {sign}. Old routines stop fitting and you get to redesign them on your own terms. Money conversations go better than expected mid-month. Protect your sleep in the final stretch, because the last week asks for your best work.",
+};
+
+export function createFixtureProvider(
+  now: () => Date = () => new Date(),
+): HoroscopeProvider {
+  return {
+    name: "fixture",
+    fetchHoroscope(query) {
+      const date = resolveDay(query.day, now());
+      const signLabel = query.sign.charAt(0).toUpperCase() +
+        query.sign.slice(1);
+      const data: UpstreamHoroscopeData = {
+        horoscope_data: FIXTURE_TEXT[query.period].replace(
+          "{sign}",
+          signLabel,
+        ),
+      };
+
+      if (query.period === "daily") {
+        data.date = formatDayLabel(date);
+      } else if (query.period === "weekly") {
+        data.week = formatWeekLabel(date);
+      } else {
+        data.month = formatMonthLabel(date);
+        data.standout_days = "3, 11, 24";
+        data.challenging_days = "8, 17";
+      }
+
+      const response: UpstreamHoroscopeResponse = {
+        data,
+        status: 200,
+        success: true,
+      };
+      return Promise.resolve(response);
+    },
+  };
+}
@@ -0,0 +1,72 @@
+// ===================================================================
+// GENERATED PROVIDER - Procedural readings, no network needed
+// ===================================================================
+// Deterministic text from utils/horoscope/generator.ts. Also used as
+// the automatic fallback when the real upstream is down.
+// Payloads carry generated: true so the reading gets labelled.
+
+import type {
+  HoroscopeProvider,
+  UpstreamHoroscopeData,
+  UpstreamHoroscopeResponse,
+} from "../types.ts";
+import { getZodiacSign } from "../../zodiac.ts";
+import {
+  formatDayLabel,
+  formatMonthLabel,
+  formatWeekLabel,
+  getPeriodEnd,
+  getPeriodStart,
+  resolveDay,
+  toIsoDate,
+} from "../dates.ts";
+import { generateMonthDays, generateReadingText } from "../generator.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createGeneratedProvider(
+  now: () => Date = () => new Date(),
+): HoroscopeProvider {
+  return {
+    name: "generated",
+    fetchHoroscope(query) {
+      const zodiacSign = getZodiacSign(query.sign);
+      if (!zodiacSign) {
+        return Promise.reject(new Error(`Unknown sign: ${query.sign}`));
+      }
+
+      // Seed by the start of the period so a week reads the same all week
+      const start = getPeriodStart(query.period, resolveDay(query.day, now()));
+      const seedDate = toIsoDate(start);
+      const data: UpstreamHoroscopeData = {
+        horoscope_data: generateReadingText(
+          zodiacSign,
+          query.period,
+          seedDate,
+        ),
+        generated: true,
+      };
+
+      if (query.period === "daily") {
+        data.date = formatDayLabel(start);
+      } else if (query.period === "weekly") {
+        data.week = formatWeekLabel(start);
+      } else {
+        data.month = formatMonthLabel(start);
+        const daysInMonth = Math.round(
+          (getPeriodEnd("monthly", start).getTime() - start.getTime()) / DAY_MS,
+        );
+        const days = generateMonthDays(zodiacSign, seedDate, daysInMonth);
+        data.standout_days = days.standoutDays.join(", ");
+        data.challenging_days = days.challengingDays.join(", ");
+      }
+
+      const response: UpstreamHoroscopeResponse = {
+        data,
+        status: 200,
+        success: true,
+      };
+      return Promise.resolve(response);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// ===================================================================
+// PROVIDER REGISTRY - Picks the horoscope source from config
+// ===================================================================
+// HOROSCOPE_PROVIDER (provider.name in utils/config.ts) selects the source:
+//   vercel    - horoscope-app-api.vercel.app (default)
+//   fixture   - built-in sample readings, no network
+//   file      - JSON files under HOROSCOPE_FILE_DIR
+//   generated - procedural readings from ZODIAC_SIGNS, no network
+//
+// HOROSCOPE_REPLAY / HOROSCOPE_SCENARIO wrap whichever one is picked in
+// the replay provider (record/replay fixtures, fake failures).
+
+import type { HoroscopeProvider } from "../types.ts";
+import { createVercelProvider, DEFAULT_VERCEL_API_BASE } from "./vercel.ts";
+import { createFixtureProvider } from "./fixture.ts";
+import { createFileProvider, DEFAULT_FILE_PROVIDER_DIR } from "./file.ts";
+import { createGeneratedProvider } from "./generated.ts";
+import { createReplayProvider } from "./replay.ts";
+import { getConfig } from "../../config.ts";
+
+export const PROVIDER_NAMES = [
+  "vercel",
+  "fixture",
+  "file",
+  "generated",
+] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+let activeProvider: HoroscopeProvider | null = null;
+
+/**
+ * Create a provider by name
+ */
+export function createHoroscopeProvider(name: ProviderName): HoroscopeProvider {
+  switch (name) {
+    case "fixture":
+      return createFixtureProvider();
+    case "generated":
+      return createGeneratedProvider();
+    case "file":
+      return createFileProvider(
+        getConfig().provider.fileDir ?? DEFAULT_FILE_PROVIDER_DIR,
+      );
+    case "vercel":
+      return createVercelProvider(
+        getConfig().provider.apiBase ?? DEFAULT_VERCEL_API_BASE,
+      );
+  }
+}
+
+/**
+ * Get the configured provider (created once per process)
+ */
+export function getHoroscopeProvider(): HoroscopeProvider {
+  if (!activeProvider) {
+    const { provider } = getConfig();
+    activeProvider = createHoroscopeProvider(provider.name);
+    if (provider.replay !== "off" || provider.scenario) {
+      activeProvider = createReplayProvider(activeProvider, {
+        mode: provider.replay,
+        dir: provider.replayDir,
+        scenario: provider.scenario,
+        times: provider.scenarioTimes,
+      });
+    }
+  }
+  return activeProvider;
+}
+
+/**
+ * Swap the active provider (handy for scripts and local experiments)
+ */
+export function setHoroscopeProvider(provider: HoroscopeProvider | null): void {
+  activeProvider = provider;
+}
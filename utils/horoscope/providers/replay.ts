@@ -0,0 +1,164 @@
+// ===================================================================
+// REPLAY PROVIDER - Record real upstream responses, replay them offline
+// ===================================================================
+// Wraps another provider (normally vercel):
+//   record  - fetch through the wrapped provider and save each payload
+//             to <dir>/<sign>/<period>-<date>.json
+//   replay  - serve those files without touching the network; a date
+//             with no recording fails (serving another date's text would
+//             land in the archive under this one)
+//
+// Scenarios fake upstream trouble on top of either mode (or on top of
+// any provider with mode "off"), so the boot sequence, error panel and
+// retry flow in islands/HoroscopeDisplay.tsx can be exercised on demand:
+//   slow       - answer after SLOW_SCENARIO_MS
+//   500        - the upstream answers 500
+//   timeout    - hang for the per-attempt timeout, then time out
+//   malformed  - the body isn't JSON
+//   empty      - a reading with no text
+// `times` limits a scenario to the first N fetches of each reading, so
+// retrying gets the real thing (e.g. 500 once, then succeed).
+//
+// Note the service falls back to generated readings when the upstream
+// fails; set HOROSCOPE_GENERATED_FALLBACK=false to see the error panel.
+
+import type {
+  HoroscopeProvider,
+  HoroscopeQuery,
+  UpstreamHoroscopeResponse,
+} from "../types.ts";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  UpstreamHttpError,
+  UpstreamTimeoutError,
+} from "../resilience.ts";
+
+export const REPLAY_MODES = ["off", "record", "replay"] as const;
+export type ReplayMode = typeof REPLAY_MODES[number];
+
+export const REPLAY_SCENARIOS = [
+  "slow",
+  "500",
+  "timeout",
+  "malformed",
+  "empty",
+] as const;
+export type ReplayScenario = typeof REPLAY_SCENARIOS[number];
+
+export const DEFAULT_REPLAY_DIR = "./fixtures/upstream";
+const SLOW_SCENARIO_MS = 3000;
+
+export interface ReplayOptions {
+  mode: ReplayMode;
+  dir?: string;
+  scenario?: ReplayScenario;
+  /** Only the first N fetches of each reading get the scenario */
+  times?: number;
+}
+
+/**
+ * What a recording file holds
+ */
+export interface Recording {
+  query: HoroscopeQuery;
+  provider: string;
+  recordedAt: string;
+  payload: unknown;
+}
+
+function recordingKey(query: HoroscopeQuery): string {
+  return `${query.period}-${query.day ?? "current"}`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readRecording(
+  dir: string,
+  query: HoroscopeQuery,
+): Promise<Recording> {
+  const path = `${dir}/${query.sign}/${recordingKey(query)}.json`;
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    throw new Error(
+      `No recording at ${path} (run with HOROSCOPE_REPLAY=record first)`,
+    );
+  }
+}
+
+async function writeRecording(
+  dir: string,
+  recording: Recording,
+): Promise<void> {
+  const signDir = `${dir}/${recording.query.sign}`;
+  await Deno.mkdir(signDir, { recursive: true });
+  await Deno.writeTextFile(
+    `${signDir}/${recordingKey(recording.query)}.json`,
+    `${JSON.stringify(recording, null, 2)}\n`,
+  );
+}
+
+export function createReplayProvider(
+  inner: HoroscopeProvider,
+  { mode, dir = DEFAULT_REPLAY_DIR, scenario, times }: ReplayOptions,
+): HoroscopeProvider {
+  // Fetches per reading so far, for `times`
+  const attempts = new Map<string, number>();
+
+  async function fetchPayload(query: HoroscopeQuery): Promise<unknown> {
+    if (mode === "replay") return (await readRecording(dir, query)).payload;
+
+    const payload = await inner.fetchHoroscope(query);
+    if (mode === "record") {
+      await writeRecording(dir, {
+        query,
+        provider: inner.name,
+        recordedAt: new Date().toISOString(),
+        payload,
+      });
+    }
+    return payload;
+  }
+
+  return {
+    name: mode === "off" ? inner.name : `${inner.name}-${mode}`,
+    circuitState: inner.circuitState && (() => inner.circuitState!()),
+    async fetchHoroscope(query) {
+      const key = `${query.sign}:${recordingKey(query)}`;
+      const attempt = (attempts.get(key) ?? 0) + 1;
+      attempts.set(key, attempt);
+      const active = times === undefined || attempt <= times
+        ? scenario
+        : undefined;
+
+      switch (active) {
+        case "slow":
+          await delay(SLOW_SCENARIO_MS);
+          break;
+        case "500":
+          throw new UpstreamHttpError(500);
+        case "timeout":
+          await delay(DEFAULT_RETRY_OPTIONS.timeoutMs);
+          throw new UpstreamTimeoutError(DEFAULT_RETRY_OPTIONS.timeoutMs);
+        case "malformed":
+          // What response.json() throws on an HTML error page
+          throw new SyntaxError(
+            `Unexpected token '<', "<!DOCTYPE "... is not valid JSON`,
+          );
+        case "empty": {
+          const response: UpstreamHoroscopeResponse = {
+            data: { horoscope_data: "", date: query.day },
+            status: 200,
+            success: true,
+          };
+          return response;
+        }
+      }
+
+      return await fetchPayload(query);
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// ===================================================================
+// VERCEL PROVIDER - horoscope-app-api.vercel.app upstream
+// ===================================================================
+// Calls go through the resilient fetch layer: per-attempt timeouts,
+// retries with backoff, and a circuit breaker shared by all requests
+
+import type { HoroscopeProvider, HoroscopeQuery } from "../types.ts";
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_OPTIONS,
+  fetchWithRetry,
+  type RetryOptions,
+} from "../resilience.ts";
+
+export const DEFAULT_VERCEL_API_BASE =
+  "https://horoscope-app-api.vercel.app/api/v1/get-horoscope";
+
+/**
+ * Build the upstream URL for a query
+ * Only daily readings take a day parameter
+ */
+export function buildVercelUrl(baseUrl: string, query: HoroscopeQuery): string {
+  const params = new URLSearchParams({ sign: query.sign });
+  if (query.period === "daily" && query.day) {
+    params.append("day", query.day);
+  }
+  return `${baseUrl}/${query.period}?${params}`;
+}
+
+export function createVercelProvider(
+  baseUrl = DEFAULT_VERCEL_API_BASE,
+  retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): HoroscopeProvider {
+  const breaker = new CircuitBreaker("vercel");
+
+  return {
+    name: "vercel",
+    circuitState: () => breaker.getState(),
+    fetchHoroscope(query) {
+      return breaker.run(async () => {
+        const response = await fetchWithRetry(
+          buildVercelUrl(baseUrl, query),
+          { headers: { Accept: "application/json" } },
+          retryOptions,
+        );
+        return await response.json();
+      });
+    },
+  };
+}
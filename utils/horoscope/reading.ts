@@ -0,0 +1,193 @@
+// ===================================================================
+// HOROSCOPE READING - Normalized reading shape + upstream validation
+// ===================================================================
+// Providers hand back upstream-shaped JSON. The API validates it and
+// normalizes it into a HoroscopeReading before anything else sees it.
+// The reading text is cleaned up on the way in (utils/horoscope/sanitize.ts).
+
+import type { HoroscopePeriod } from "./types.ts";
+import type { HoroscopeErrorCode } from "./errors.ts";
+import { type SanitizedText, sanitizeReadingText } from "./sanitize.ts";
+import { isLabelForPeriod, parseIsoDate } from "./dates.ts";
+
+interface ReadingBase {
+  sign: string;
+  period: HoroscopePeriod;
+  /** YYYY-MM-DD the reading is for (first day of the week/month for longer periods) */
+  date: string;
+  /** The reading itself */
+  text: string;
+  /** Display label: "Oct 19, 2026", "Oct 19 - Oct 25, 2026", "October 2026" */
+  label: string;
+  /** Written by the offline generator rather than the upstream */
+  generated?: boolean;
+}
+
+export interface DailyReading extends ReadingBase {
+  period: "daily";
+}
+
+export interface WeeklyReading extends ReadingBase {
+  period: "weekly";
+}
+
+export interface MonthlyReading extends ReadingBase {
+  period: "monthly";
+  standoutDays: string[];
+  challengingDays: string[];
+}
+
+export type HoroscopeReading = DailyReading | WeeklyReading | MonthlyReading;
+
+/**
+ * Body of a successful /api/horoscope response
+ */
+export interface HoroscopeApiResponse {
+  success: true;
+  data: HoroscopeReading;
+}
+
+/**
+ * One sign's slot in a bulk response: its reading, or why it failed
+ */
+export type BulkReadingEntry =
+  | { sign: string; ok: true; reading: HoroscopeReading }
+  | { sign: string; ok: false; code: HoroscopeErrorCode; error: string };
+
+/**
+ * Body of a /api/horoscope/all response
+ * success is true when at least one sign came back
+ */
+export interface HoroscopeBulkApiResponse {
+  success: boolean;
+  period: HoroscopePeriod;
+  day: string;
+  results: BulkReadingEntry[];
+}
+
+/**
+ * Body of a /api/horoscope/archive listing (no date given)
+ * dates are period start dates, newest first
+ */
+export interface HoroscopeArchiveApiResponse {
+  success: true;
+  sign: string;
+  period: HoroscopePeriod;
+  dates: string[];
+}
+
+/**
+ * Thrown when a provider hands back something we can't turn into a reading
+ */
+export class MalformedReadingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MalformedReadingError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(
+  record: Record<string, unknown>,
+  key: string,
+): string | undefined {
+  const value = record[key];
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed || undefined;
+}
+
+/**
+ * "3, 11, 24" → ["3", "11", "24"]
+ */
+function splitDayList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(",").map((day) => day.trim()).filter(Boolean);
+}
+
+/**
+ * Validate an upstream payload and normalize it into a HoroscopeReading
+ * Accepts either the full upstream envelope ({ success, data }) or just data
+ * `onSanitized` hears about it when the text needed cleaning up
+ */
+export function normalizeReading(
+  { sign, period, date }: Pick<ReadingBase, "sign" | "period" | "date">,
+  payload: unknown,
+  onSanitized?: (result: SanitizedText) => void,
+): HoroscopeReading {
+  if (!isRecord(payload)) {
+    throw new MalformedReadingError("Upstream payload is not an object");
+  }
+
+  if (payload.success === false) {
+    throw new MalformedReadingError(
+      "Upstream reported an unsuccessful reading",
+    );
+  }
+
+  const data = "data" in payload ? payload.data : payload;
+  if (!isRecord(data)) {
+    throw new MalformedReadingError("Upstream payload has no reading data");
+  }
+
+  const raw = readString(data, "horoscope_data");
+  const sanitized = raw ? sanitizeReadingText(raw) : null;
+  if (sanitized?.changes.length) onSanitized?.(sanitized);
+  // Markup-only or whitespace-only text is as good as none
+  const text = sanitized?.text;
+  if (!text) {
+    throw new MalformedReadingError("Upstream reading has no horoscope_data");
+  }
+
+  // Upstream is inconsistent about which label field it fills,
+  // so fall back to date for weekly/monthly
+  const label = period === "weekly"
+    ? readString(data, "week") ?? readString(data, "date")
+    : period === "monthly"
+    ? readString(data, "month") ?? readString(data, "date")
+    : readString(data, "date");
+  if (!label) {
+    throw new MalformedReadingError(`Upstream ${period} reading has no date`);
+  }
+  // The weekly/monthly endpoints take no date, so this catches the
+  // upstream still serving last week or month; for daily, a reading
+  // for some other day than the one asked for
+  const start = parseIsoDate(date);
+  if (start && !isLabelForPeriod(period, start, label)) {
+    throw new MalformedReadingError(
+      `Upstream ${period} reading is for ${label}, not ${date}`,
+    );
+  }
+
+  const base = {
+    sign,
+    date,
+    text,
+    label,
+    ...(data.generated === true && { generated: true }),
+  };
+
+  if (period === "monthly") {
+    return {
+      ...base,
+      period,
+      standoutDays: splitDayList(readString(data, "standout_days")),
+      challengingDays: splitDayList(readString(data, "challenging_days")),
+    };
+  }
+
+  return { ...base, period };
+}
+
+/**
+ * Label for the art header. Offline generator readings are labelled so
+ * nobody mistakes them for the real thing
+ */
+export function getDisplayLabel(reading: HoroscopeReading): string {
+  return reading.generated
+    ? `${reading.label} • OFFLINE ORACLE`
+    : reading.label;
+}
@@ -0,0 +1,194 @@
+// ===================================================================
+// RESILIENT FETCH - Timeouts, retries and a circuit breaker
+// ===================================================================
+// Used by network providers so a slow or flaky upstream can't hang a
+// request. Each attempt gets its own timeout; 5xx, timeouts and network
+// errors are retried with jittered exponential backoff. After enough
+// failures in a row the breaker opens and we fail fast until a cooldown
+// passes, then let a single trial request through (half-open).
+
+export interface RetryOptions {
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** Retries after the first attempt */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  timeoutMs: 4000,
+  retries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 2000,
+};
+
+/**
+ * Upstream answered, but not with a 2xx
+ */
+export class UpstreamHttpError extends Error {
+  constructor(public status: number, public retryAfter?: number) {
+    super(`API returned ${status}`);
+    this.name = "UpstreamHttpError";
+  }
+}
+
+/**
+ * Upstream didn't answer within the per-attempt timeout
+ */
+export class UpstreamTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Upstream timed out after ${timeoutMs}ms`);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * The breaker is open, so we didn't even try
+ */
+export class CircuitOpenError extends Error {
+  constructor(public retryAfterMs: number) {
+    super("Upstream circuit is open");
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Worth another attempt: 5xx, timeouts and network failures
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof UpstreamHttpError) return error.status >= 500;
+  return error instanceof UpstreamTimeoutError || error instanceof TypeError;
+}
+
+/**
+ * Full-jitter exponential backoff
+ */
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** attempt,
+  );
+  return Math.random() * ceiling;
+}
+
+/**
+ * Seconds from a Retry-After header (delta-seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+async function fetchOnce(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      // Drain the body so the connection can be reused
+      await response.body?.cancel();
+      throw new UpstreamHttpError(
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after")),
+      );
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new UpstreamTimeoutError(timeoutMs);
+    }
+    throw error;
+  }
+}
+
+/**
+ * fetch() with a timeout per attempt and retries for transient failures
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<Response> {
+  for (let attempt = 0;; attempt++) {
+    try {
+      return await fetchOnce(url, init, options.timeoutMs);
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryable(error)) throw error;
+      await new Promise((resolve) =>
+        setTimeout(resolve, backoffDelay(attempt, options))
+      );
+    }
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the breaker opens */
+  failureThreshold: number;
+  /** How long to fail fast before allowing a trial request */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    public readonly name: string,
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_OPTIONS,
+  ) {}
+
+  getState(): CircuitState {
+    if (this.failures < this.options.failureThreshold) return "closed";
+    return Date.now() - this.openedAt >= this.options.cooldownMs
+      ? "half-open"
+      : "open";
+  }
+
+  /**
+   * Run an upstream call through the breaker
+   * Only failures that say something about upstream health count
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (state === "open" || (state === "half-open" && this.trialInFlight)) {
+      throw new CircuitOpenError(
+        Math.max(0, this.openedAt + this.options.cooldownMs - Date.now()),
+      );
+    }
+
+    this.trialInFlight = state === "half-open";
+    try {
+      const result = await fn();
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      if (isRetryable(error)) {
+        this.failures++;
+        if (this.failures >= this.options.failureThreshold) {
+          this.openedAt = Date.now();
+        }
+      }
+      throw error;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+}
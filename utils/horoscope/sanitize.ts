@@ -0,0 +1,157 @@
+// ===================================================================
+// TEXT SANITIZING - Clean upstream reading text before anything uses it
+// ===================================================================
+// The upstream scrapes its readings, so horoscope_data sometimes comes
+// with HTML entities (&#39;, &amp;rsquo;), leftover tags, smart quotes,
+// newlines, double spaces or invisible control characters. The ASCII
+// art wraps at 66 columns by splitting on single spaces, so any of
+// those throw the layout off.
+//
+// Steps, in order (each one is recorded if it changed anything):
+//   entities            decode named and numeric entities (twice, for
+//                       double-encoded text)
+//   markup              drop tags, comments and script/style contents
+//   control_characters  drop C0/C1 controls, zero-width and bidi marks
+//   punctuation         smart quotes → ' ", dashes → -, … → ...
+//   whitespace          collapse runs (newlines, tabs, nbsp) into one
+//                       space, no space before , . ; : ! ?
+//   truncated           cap at MAX_READING_LENGTH on a word boundary
+//
+// Pure string work, no server-only imports: reading.ts runs in islands too.
+
+export const MAX_READING_LENGTH = 2000;
+
+export type TextChange =
+  | "entities"
+  | "markup"
+  | "control_characters"
+  | "punctuation"
+  | "whitespace"
+  | "truncated";
+
+export interface SanitizedText {
+  text: string;
+  /** Steps that changed something, in the order they ran */
+  changes: TextChange[];
+  originalLength: number;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00A0",
+  lsquo: "‘",
+  rsquo: "’",
+  sbquo: "‚",
+  ldquo: "“",
+  rdquo: "”",
+  bdquo: "„",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  bull: "•",
+  middot: "·",
+  prime: "′",
+  deg: "°",
+  shy: "\u00AD",
+  zwj: "\u200D",
+  zwnj: "\u200C",
+};
+
+const ENTITY_PATTERN = /&(?:#(\d{1,7})|#[xX]([\da-fA-F]{1,6})|([a-zA-Z]+));/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(ENTITY_PATTERN, (match, decimal, hex, name) => {
+    if (name) {
+      const key = name.toLowerCase();
+      // Own keys only: "&constructor;" isn't an entity
+      return Object.hasOwn(NAMED_ENTITIES, key) ? NAMED_ENTITIES[key] : match;
+    }
+    const codePoint = decimal ? Number(decimal) : parseInt(hex, 16);
+    // Surrogates and out-of-range values aren't characters
+    if (
+      codePoint > 0x10FFFF || (codePoint >= 0xD800 && codePoint <= 0xDFFF)
+    ) {
+      return "";
+    }
+    return String.fromCodePoint(codePoint);
+  });
+}
+
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    // A "<" followed by a letter, "/" or "!" opens a tag; "love < fear"
+    // is left alone
+    .replace(/<[a-zA-Z/!][^<>]*>/g, " ");
+}
+
+// C0/C1 controls except tab/newline/CR (whitespace handles those), plus
+// soft hyphens, zero-width characters, bidi overrides and the BOM
+const CONTROL_PATTERN =
+  // deno-lint-ignore no-control-regex
+  /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u00AD\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
+const PUNCTUATION: [RegExp, string][] = [
+  [/[\u2018\u2019\u201A\u201B\u2032]/g, "'"],
+  [/[\u201C\u201D\u201E\u201F\u2033]/g, '"'],
+  // Ranges ("2–3 pm") keep a plain hyphen; other dashes are spaced, so
+  // "love—and" doesn't read as one hyphenated word
+  [/(\d)\s*\u2013\s*(\d)/g, "$1-$2"],
+  [/\s*[\u2013\u2014\u2015]\s*/g, " - "],
+  [/[\u2010\u2011\u2012]/g, "-"],
+  [/\u2026/g, "..."],
+  [/[\u2022\u00B7]/g, "-"],
+];
+
+function normalizePunctuation(text: string): string {
+  return PUNCTUATION.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text,
+  );
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/ ([,.;:!?])/g, "$1")
+    .trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 3);
+  const lastSpace = cut.lastIndexOf(" ");
+  // Fall back to a hard cut when there's no sensible word boundary
+  const head = lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${head.replace(/[\s,;:.-]+$/, "")}...`;
+}
+
+/**
+ * Clean a reading's text and say what had to change
+ */
+export function sanitizeReadingText(
+  raw: string,
+  maxLength = MAX_READING_LENGTH,
+): SanitizedText {
+  const changes: TextChange[] = [];
+  let text = raw;
+  const step = (change: TextChange, fn: (value: string) => string) => {
+    const next = fn(text);
+    if (next !== text) changes.push(change);
+    text = next;
+  };
+
+  step("entities", (value) => decodeEntities(decodeEntities(value)));
+  step("markup", stripMarkup);
+  step("control_characters", (value) => value.replace(CONTROL_PATTERN, ""));
+  step("punctuation", normalizePunctuation);
+  step("whitespace", normalizeWhitespace);
+  step("truncated", (value) => truncate(value, maxLength));
+
+  return { text, changes, originalLength: raw.length };
+}
@@ -0,0 +1,343 @@
+// ===================================================================
+// HOROSCOPE SERVICE - Provider + cache, the one way to get a reading
+// ===================================================================
+// Routes call getReading() and never touch providers or the cache
+// directly. Flow:
+//   fresh cache entry → serve it
+//   stale cache entry → serve it, revalidate in the background
+//   archived reading  → serve it (past readings don't change)
+//   no entry          → fetch, normalize, store, archive
+//   fetch fails       → serve the last good reading for the sign
+//   nothing cached    → generate one offline (labelled as generated)
+//
+// The upstream only knows the current week and month (in UTC), so other
+// weeks and months come from the archive or not at all. A week or month
+// that has already begun east of UTC gets a stand-in until then.
+//
+// Fetch failures include the upstream circuit being open, so while the
+// upstream is down we fail fast and lean on the cache.
+
+import {
+  type HoroscopePeriod,
+  type HoroscopeQuery,
+  VALID_SIGNS,
+} from "./types.ts";
+import { getHoroscopeProvider } from "./providers/mod.ts";
+import { createGeneratedProvider } from "./providers/generated.ts";
+import {
+  type BulkReadingEntry,
+  type HoroscopeReading,
+  normalizeReading,
+} from "./reading.ts";
+import {
+  getReadingCacheStore,
+  latestReadingKey,
+  readingCacheKey,
+  storeReading,
+} from "./cache.ts";
+import {
+  getPeriodEnd,
+  getPeriodStart,
+  resolveDay,
+  toIsoDate,
+} from "./dates.ts";
+import { getReadingArchive } from "./archive.ts";
+import { mapWithConcurrency } from "../concurrency.ts";
+import { HoroscopeApiError, toHoroscopeApiError } from "./errors.ts";
+import type { CircuitState } from "./resilience.ts";
+import { addUpstreamTime, log } from "../log.ts";
+import { metrics } from "../metrics.ts";
+import { getConfig } from "../config.ts";
+
+export type CacheStatus =
+  | "hit"
+  | "stale"
+  | "archive"
+  | "miss"
+  | "fallback"
+  | "generated";
+
+export interface ReadingResult {
+  reading: HoroscopeReading;
+  cacheStatus: CacheStatus;
+}
+
+/**
+ * Is this a stand-in (last good reading, generated) that the real
+ * reading for the same date will replace?
+ */
+export function isProvisional(cacheStatus: CacheStatus): boolean {
+  return cacheStatus === "fallback" || cacheStatus === "generated";
+}
+
+/**
+ * Cache-Control for a served reading: an hour by default, or briefly
+ * when it's a stand-in so browsers pick up the real one soon
+ */
+export function getReadingCacheControl(cacheStatus: CacheStatus): string {
+  const { readingMaxAge, fallbackMaxAge } = getConfig().cache;
+  return isProvisional(cacheStatus)
+    ? `public, max-age=${fallbackMaxAge}`
+    : `public, max-age=${readingMaxAge}`;
+}
+
+/**
+ * Upstream circuit state for the active provider, if it has one
+ */
+export function getUpstreamCircuitState(): CircuitState | undefined {
+  return getHoroscopeProvider().circuitState?.();
+}
+
+const generatedFallback = createGeneratedProvider();
+
+/**
+ * Can the upstream serve this period? Daily readings take any date; the
+ * weekly and monthly endpoints take none and answer with the period it
+ * is now in UTC
+ */
+export function isUpstreamServable(
+  period: HoroscopePeriod,
+  periodStart: Date,
+  now: Date,
+): boolean {
+  if (period === "daily") return true;
+  return getPeriodStart(period, resolveDay(undefined, now)).getTime() ===
+    periodStart.getTime();
+}
+
+// The first timezone (UTC+14) starts a day this long before UTC does
+const FIRST_TIMEZONE_LEAD_MS = 14 * 60 * 60 * 1000;
+
+// The last timezone (UTC-12) finishes a day this long after UTC does
+const LAST_TIMEZONE_LAG_MS = 12 * 60 * 60 * 1000;
+
+// How many signs a bulk request fetches at once
+export const BULK_CONCURRENCY = 4;
+
+/**
+ * Upstream latency for the metrics and the current request's log line
+ */
+function recordUpstream(provider: string, started: number, errorCode?: string) {
+  const ms = performance.now() - started;
+  addUpstreamTime(ms);
+  metrics.upstreamDuration.observe(
+    { provider, outcome: errorCode ? "error" : "ok" },
+    ms / 1000,
+  );
+  if (errorCode) metrics.upstreamErrors.inc({ provider, code: errorCode });
+}
+
+// In-flight upstream fetches, so a burst of requests for the same
+// reading only hits the provider once
+const inflight = new Map<string, Promise<HoroscopeReading>>();
+
+/**
+ * Fetch from the provider and store the normalized reading
+ */
+function revalidate(
+  query: HoroscopeQuery,
+  date: string,
+  key: string[],
+  freshUntil: number,
+): Promise<HoroscopeReading> {
+  const id = key.join(":");
+  const pending = inflight.get(id);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    // Always ask the provider for an explicit date, never "today"
+    const provider = getHoroscopeProvider();
+    const started = performance.now();
+    let payload: unknown;
+    try {
+      payload = await provider.fetchHoroscope({ ...query, day: date });
+      recordUpstream(provider.name, started);
+    } catch (error) {
+      recordUpstream(provider.name, started, toHoroscopeApiError(error).code);
+      throw error;
+    }
+    const reading = normalizeReading(
+      { ...query, date },
+      payload,
+      ({ changes, originalLength, text }) => {
+        log.info("Cleaned up upstream text", {
+          ...query,
+          date,
+          provider: provider.name,
+          changes,
+          originalLength,
+          length: text.length,
+        });
+        for (const change of changes) {
+          metrics.textCleanups.inc({ provider: provider.name, change });
+        }
+      },
+    );
+    const store = await getReadingCacheStore();
+    await storeReading(store, key, reading, freshUntil);
+    const archive = await getReadingArchive();
+    await archive.put(reading);
+    return reading;
+  })().finally(() => inflight.delete(id));
+
+  inflight.set(id, promise);
+  return promise;
+}
+
+/**
+ * Get a normalized reading, from cache when we can
+ */
+export async function getReading(
+  query: HoroscopeQuery,
+  now: Date = new Date(),
+): Promise<ReadingResult> {
+  const result = await lookupReading(query, now);
+  metrics.readingCache.inc({
+    period: query.period,
+    status: result.cacheStatus,
+  });
+  return result;
+}
+
+async function lookupReading(
+  query: HoroscopeQuery,
+  now: Date,
+): Promise<ReadingResult> {
+  const periodStart = getPeriodStart(query.period, resolveDay(query.day, now));
+  const date = toIsoDate(periodStart);
+  const key = readingCacheKey(query.sign, query.period, date);
+  // Fresh until the period is over everywhere, not just in UTC
+  const freshUntil = getPeriodEnd(query.period, periodStart).getTime() +
+    LAST_TIMEZONE_LAG_MS;
+  const store = await getReadingCacheStore();
+  const cached = await store.get(key);
+
+  // A daily reading is keyed by its date and its text never changes, so
+  // once we have it there's nothing to revalidate
+  if (
+    cached &&
+    (query.period === "daily" || cached.freshUntil > now.getTime())
+  ) {
+    return { reading: cached.reading, cacheStatus: "hit" };
+  }
+
+  const servable = isUpstreamServable(query.period, periodStart, now);
+
+  if (cached) {
+    if (servable) {
+      revalidate(query, date, key, freshUntil).catch((error) =>
+        log.error("Horoscope revalidation failed", { ...query, date, error })
+      );
+    }
+    return { reading: cached.reading, cacheStatus: "stale" };
+  }
+
+  const archive = await getReadingArchive();
+  const archived = await archive.get(query.sign, query.period, date);
+  if (archived) {
+    return { reading: archived, cacheStatus: "archive" };
+  }
+
+  // Begun east of UTC, but the upstream is still on the previous period
+  const upcoming = !servable && periodStart.getTime() > now.getTime() &&
+    periodStart.getTime() <= now.getTime() + FIRST_TIMEZONE_LEAD_MS;
+
+  if (!servable && !upcoming) {
+    throw new HoroscopeApiError(
+      "not_archived",
+      `No ${query.period} reading archived for ${query.sign} on ${date}`,
+      { details: { sign: query.sign, period: query.period, date } },
+    );
+  }
+
+  try {
+    // Stand in (below) until the upstream rolls over
+    if (upcoming) {
+      throw new HoroscopeApiError(
+        "not_archived",
+        `The upstream hasn't started the ${query.period} reading for ${date} yet`,
+        { details: { sign: query.sign, period: query.period, date } },
+      );
+    }
+    const reading = await revalidate(query, date, key, freshUntil);
+    return { reading, cacheStatus: "miss" };
+  } catch (error) {
+    const lastGood = await store.get(
+      latestReadingKey(query.sign, query.period),
+    );
+    if (lastGood) {
+      log.error("Horoscope fetch failed, serving last good reading", {
+        ...query,
+        date,
+        error,
+      });
+      return { reading: lastGood.reading, cacheStatus: "fallback" };
+    }
+
+    // Unless features.generatedFallback is off (utils/config.ts)
+    if (
+      getConfig().features.generatedFallback &&
+      getHoroscopeProvider().name !== generatedFallback.name
+    ) {
+      log.error("Horoscope fetch failed, generating offline", {
+        ...query,
+        date,
+        error,
+      });
+      // Not cached: the next request should try the real upstream again
+      const payload = await generatedFallback.fetchHoroscope({
+        ...query,
+        day: date,
+      });
+      const reading = normalizeReading({ ...query, date }, payload);
+      return { reading, cacheStatus: "generated" };
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * One sign's entry in a bulk response, plus how it was served
+ */
+export interface BulkReadingResult {
+  entry: BulkReadingEntry;
+  /** Only when the sign came back */
+  cacheStatus?: CacheStatus;
+}
+
+/**
+ * Readings for every sign, fetched a few at a time
+ * A failing sign gets an error entry instead of sinking the whole batch
+ */
+export function getReadingsForAllSigns(
+  period: HoroscopePeriod,
+  day: string,
+  concurrency = BULK_CONCURRENCY,
+): Promise<BulkReadingResult[]> {
+  return mapWithConcurrency(
+    VALID_SIGNS,
+    concurrency,
+    async (sign): Promise<BulkReadingResult> => {
+      try {
+        const { reading, cacheStatus } = await getReading({
+          sign,
+          period,
+          day,
+        });
+        return { entry: { sign, ok: true, reading }, cacheStatus };
+      } catch (error) {
+        log.error("Bulk horoscope fetch failed", { sign, period, day, error });
+        const apiError = toHoroscopeApiError(error);
+        return {
+          entry: {
+            sign,
+            ok: false,
+            code: apiError.code,
+            error: apiError.message,
+          },
+        };
+      }
+    },
+  );
+}
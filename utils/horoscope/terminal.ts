@@ -0,0 +1,112 @@
+// ===================================================================
+// TERMINAL OUTPUT - curl-friendly readings for the /[sign] routes
+// ===================================================================
+// `curl stargram.app/leo` gets the same art the site renders, colored
+// with ANSI 24-bit escapes. Paths:
+//   /leo                      today's daily reading
+//   /leo/weekly               this week
+//   /leo/2026-10-19           a daily reading by date (or yesterday...)
+//   /leo/monthly/2026-09-01   a past month
+// plus ?effect=fire (any COLOR_EFFECTS value, "none" for no color)
+// and ?tz= like the API.
+
+import { COLOR_EFFECTS } from "../constants.ts";
+import { getZodiacEmoji } from "../zodiac.ts";
+import { generateHoroscopeAscii } from "../asciiArtGenerator.ts";
+import { applyAnsiColorToArt } from "../colorEffects.ts";
+import { isHoroscopePeriod } from "./types.ts";
+import { getDisplayLabel, type HoroscopeReading } from "./reading.ts";
+import type { HoroscopeApiError } from "./errors.ts";
+
+export const DEFAULT_TERMINAL_EFFECT = "lolcat";
+
+// Command-line clients that can't render HTML anyway
+const TERMINAL_USER_AGENTS = /^(curl|wget|httpie|xh)\//i;
+
+/**
+ * Plain text for curl/wget, or anyone asking for text/plain over HTML
+ */
+export function wantsPlainText(req: Request): boolean {
+  const userAgent = req.headers.get("user-agent") ?? "";
+  if (TERMINAL_USER_AGENTS.test(userAgent)) return true;
+  const accept = req.headers.get("accept") ?? "";
+  return accept.includes("text/plain") && !accept.includes("text/html");
+}
+
+/**
+ * Split the path after the sign into period and day
+ * Returns null for paths that aren't a reading (too many segments)
+ */
+export function parseSignPath(
+  path: string,
+): { period: string | null; day: string | null } | null {
+  const segments = path.split("/").filter(Boolean);
+  let period: string | null = null;
+  let day: string | null = null;
+
+  for (const segment of segments) {
+    if (!period && !day && isHoroscopePeriod(segment)) {
+      period = segment;
+    } else if (!day) {
+      day = segment;
+    } else {
+      return null;
+    }
+  }
+  return { period, day };
+}
+
+/**
+ * The requested color effect, or the default for unknown values
+ */
+export function getTerminalEffect(value: string | null): string {
+  return value && COLOR_EFFECTS.some((effect) => effect.value === value)
+    ? value
+    : DEFAULT_TERMINAL_EFFECT;
+}
+
+/**
+ * The generateHoroscopeAscii art for a reading, before coloring
+ */
+export function renderReadingAscii(reading: HoroscopeReading): string {
+  return generateHoroscopeAscii(
+    reading.sign,
+    reading.text,
+    reading.period,
+    getDisplayLabel(reading),
+    getZodiacEmoji(reading.sign),
+  );
+}
+
+/**
+ * Colored terminal output for a reading
+ */
+export function renderTerminalReading(
+  reading: HoroscopeReading,
+  effect: string,
+): string {
+  const art = applyAnsiColorToArt(renderReadingAscii(reading), effect);
+  return `${art.trimEnd()}\n`;
+}
+
+/**
+ * Plain-text error with the right status and Retry-After
+ */
+export function terminalErrorResponse(
+  error: HoroscopeApiError,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(
+    `✖ ${error.message} (${error.code})\n`,
+    {
+      status: error.status,
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Cache-Control": "no-store",
+        ...(error.retryAfter !== undefined &&
+          { "Retry-After": String(error.retryAfter) }),
+        ...headers,
+      },
+    },
+  );
+}
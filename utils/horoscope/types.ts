@@ -0,0 +1,65 @@
+// ===================================================================
+// HOROSCOPE TYPES - Shared shapes for the horoscope pipeline
+// ===================================================================
+// Used by the API routes and every horoscope provider
+
+import { ZODIAC_SIGNS } from "../zodiac.ts";
+import type { CircuitState } from "./resilience.ts";
+
+// Zodiac signs (validated)
+export const VALID_SIGNS = ZODIAC_SIGNS.map((sign) => sign.name);
+
+export const HOROSCOPE_PERIODS = ["daily", "weekly", "monthly"] as const;
+
+export type HoroscopePeriod = typeof HOROSCOPE_PERIODS[number];
+
+export interface HoroscopeQuery {
+  sign: string;
+  period: HoroscopePeriod;
+  /**
+   * Reference day as YYYY-MM-DD (or "today" | "tomorrow" | "yesterday").
+   * Picks the week/month for longer periods; upstream only takes it for daily.
+   */
+  day?: string;
+}
+
+/**
+ * Reading fields as the upstream API sends them
+ * Only one of date/week/month is set, depending on the period
+ */
+export interface UpstreamHoroscopeData {
+  date?: string;
+  week?: string;
+  month?: string;
+  horoscope_data: string;
+  standout_days?: string;
+  challenging_days?: string;
+  /** Our own extension: set by the offline generator, never by upstream */
+  generated?: boolean;
+}
+
+export interface UpstreamHoroscopeResponse {
+  data: UpstreamHoroscopeData;
+  status: number;
+  success: boolean;
+}
+
+/**
+ * A source of horoscope readings
+ * Providers return the payload in the upstream response shape, so the
+ * rest of the pipeline doesn't care where a reading came from
+ */
+export interface HoroscopeProvider {
+  readonly name: string;
+  fetchHoroscope(query: HoroscopeQuery): Promise<unknown>;
+  /** Circuit breaker state, for providers that talk to a network upstream */
+  circuitState?(): CircuitState;
+}
+
+export function isValidSign(sign: string): boolean {
+  return VALID_SIGNS.includes(sign);
+}
+
+export function isHoroscopePeriod(period: string): period is HoroscopePeriod {
+  return (HOROSCOPE_PERIODS as readonly string[]).includes(period);
+}
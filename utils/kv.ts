@@ -0,0 +1,28 @@
+// ===================================================================
+// KV - Shared Deno KV handle with graceful fallback
+// ===================================================================
+// Deno Deploy gives us KV for free. Locally it needs --unstable-kv
+// (set in deno.json), and if it still can't open, callers fall back
+// to in-memory storage.
+
+import { log } from "./log.ts";
+
+let kvPromise: Promise<Deno.Kv | null> | null = null;
+
+/**
+ * Open KV once per process. Resolves to null when KV isn't available.
+ */
+export function getKv(): Promise<Deno.Kv | null> {
+  if (!kvPromise) {
+    kvPromise = (async () => {
+      if (typeof Deno.openKv !== "function") return null;
+      try {
+        return await Deno.openKv();
+      } catch (error) {
+        log.warn("Deno KV unavailable, using in-memory storage", { error });
+        return null;
+      }
+    })();
+  }
+  return kvPromise;
+}
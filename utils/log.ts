@@ -0,0 +1,98 @@
+// ===================================================================
+// LOG - Structured JSON logs with per-request context
+// ===================================================================
+// One JSON object per line, so Deno Deploy's log search (or anything
+// reading stdout) can filter on fields:
+//   {"time":"...","level":"error","msg":"Horoscope API error",
+//    "requestId":"5f0c...","route":"/api/horoscope","error":{...}}
+//
+// routes/_middleware.ts runs each request inside a RequestContext.
+// Anything logged while handling it picks up the request ID and route,
+// and routes/services fill in sign, period, cache status and upstream
+// latency with annotateRequest for the request's summary line.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type LogLevel = "info" | "warn" | "error";
+
+export interface RequestContext {
+  requestId: string;
+  /** Route pattern, not the raw path (see getRouteLabel) */
+  route: string;
+  sign?: string;
+  period?: string;
+  cacheStatus?: string;
+  /** Time spent waiting on the provider, summed over fetches */
+  upstreamMs?: number;
+  /** API error code, when the request failed with one */
+  errorCode?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with `context` as the current request
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T,
+): T {
+  return requestContext.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
+
+/**
+ * Add fields to the current request's summary (no-op outside a request,
+ * e.g. in the prewarm cron)
+ */
+export function annotateRequest(
+  fields: Partial<Omit<RequestContext, "requestId" | "route">>,
+): void {
+  const context = requestContext.getStore();
+  if (context) Object.assign(context, fields);
+}
+
+/**
+ * Add to the request's upstream latency
+ */
+export function addUpstreamTime(ms: number): void {
+  const context = requestContext.getStore();
+  if (context) context.upstreamMs = (context.upstreamMs ?? 0) + ms;
+}
+
+function serializeError(error: unknown) {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { message: String(error) };
+}
+
+function write(level: LogLevel, msg: string, fields: Record<string, unknown>) {
+  const context = requestContext.getStore();
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(context && { requestId: context.requestId, route: context.route }),
+    ...fields,
+  };
+  if ("error" in fields) entry.error = serializeError(fields.error);
+
+  const line = JSON.stringify(entry);
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
+
+export const log = {
+  info: (msg: string, fields: Record<string, unknown> = {}) =>
+    write("info", msg, fields),
+  warn: (msg: string, fields: Record<string, unknown> = {}) =>
+    write("warn", msg, fields),
+  /** Pass the thrown value as `error` to get its name, message and stack */
+  error: (msg: string, fields: Record<string, unknown> = {}) =>
+    write("error", msg, fields),
+};
@@ -0,0 +1,209 @@
+// ===================================================================
+// METRICS - Prometheus counters and histograms, served at /metrics
+// ===================================================================
+// In-process and per isolate: each Deno Deploy isolate reports its own
+// numbers since it started, which Prometheus handles fine (counters
+// reset, rate() copes).
+//
+//   stargram_http_requests_total{route,method,status}
+//   stargram_http_request_duration_seconds{route}
+//   stargram_reading_cache_total{period,status}       hit, miss, stale ...
+//   stargram_upstream_duration_seconds{provider,outcome}
+//   stargram_upstream_errors_total{provider,code}
+//   stargram_upstream_text_cleanups_total{provider,change}
+//   stargram_upstream_circuit_state{provider,state}   1 for the current state
+
+import { isValidSign } from "./horoscope/types.ts";
+import type { CircuitState } from "./horoscope/resilience.ts";
+
+type Labels = Record<string, string>;
+
+// Seconds; upstream calls run up to ~12s with retries
+const DEFAULT_BUCKETS = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort()
+    .map((name) => `${name}="${escapeLabel(labels[name])}"`)
+    .join(",");
+}
+
+function escapeLabel(value: string): string {
+  return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"')
+    .replaceAll("\n", "\\n");
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+export class Counter {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => sample(this.name, key, value)),
+    ];
+  }
+}
+
+export class Histogram {
+  private series = new Map<string, { counts: number[]; sum: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private buckets: number[] = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: new Array(this.buckets.length + 1).fill(0), sum: 0 };
+      this.series.set(key, series);
+    }
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index]++;
+    series.sum += value;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const [key, { counts, sum }] of this.series) {
+      const prefix = key ? `${key},` : "";
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += counts[index];
+        lines.push(
+          `${this.name}_bucket{${prefix}le="${bound}"} ${cumulative}`,
+        );
+      });
+      cumulative += counts[this.buckets.length];
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${cumulative}`);
+      lines.push(sample(`${this.name}_sum`, key, sum));
+      lines.push(sample(`${this.name}_count`, key, cumulative));
+    }
+    return lines;
+  }
+}
+
+export const metrics = {
+  httpRequests: new Counter(
+    "stargram_http_requests_total",
+    "HTTP requests by route, method and status",
+  ),
+  httpDuration: new Histogram(
+    "stargram_http_request_duration_seconds",
+    "Time to respond, by route",
+  ),
+  readingCache: new Counter(
+    "stargram_reading_cache_total",
+    "Reading lookups by period and cache status",
+  ),
+  upstreamDuration: new Histogram(
+    "stargram_upstream_duration_seconds",
+    "Provider fetch time, by provider and outcome (ok or error)",
+  ),
+  upstreamErrors: new Counter(
+    "stargram_upstream_errors_total",
+    "Failed provider fetches, by provider and error code",
+  ),
+  textCleanups: new Counter(
+    "stargram_upstream_text_cleanups_total",
+    "Readings whose text needed cleaning, by provider and kind of fix",
+  ),
+};
+
+const CIRCUIT_STATES: CircuitState[] = ["closed", "half-open", "open"];
+
+/**
+ * Everything in Prometheus text format. The circuit state is read at
+ * scrape time rather than tracked.
+ */
+export function renderMetrics(
+  circuit?: { provider: string; state: CircuitState },
+): string {
+  const lines = Object.values(metrics).flatMap((metric) => metric.render());
+  if (circuit) {
+    const name = "stargram_upstream_circuit_state";
+    lines.push(
+      `# HELP ${name} Upstream circuit breaker state (1 = current)`,
+      `# TYPE ${name} gauge`,
+      ...CIRCUIT_STATES.map((state) =>
+        sample(
+          name,
+          labelKey({ provider: circuit.provider, state }),
+          state === circuit.state ? 1 : 0,
+        )
+      ),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// Pages and APIs by pattern; sign pages and 404s are folded together
+// so the label stays small
+const EXACT_ROUTES = [
+  "/",
+  "/thanks",
+  "/sitemap.xml",
+  "/metrics",
+  "/healthz",
+  "/api/horoscope",
+  "/api/horoscope/all",
+  "/api/horoscope/archive",
+  "/api/openapi.json",
+  "/api/prewarm",
+];
+const PREFIX_ROUTES: [string, string][] = [
+  ["/og/", "/og/:sign"],
+  ["/feeds/", "/feeds/:sign/:feed"],
+  ["/calendar/", "/calendar/:sign"],
+  ["/embed/", "/embed/:sign"],
+];
+
+/**
+ * Low-cardinality route label for a path
+ */
+export function getRouteLabel(pathname: string): string {
+  if (EXACT_ROUTES.includes(pathname)) return pathname;
+  const prefixed = PREFIX_ROUTES.find(([prefix]) =>
+    pathname.startsWith(prefix)
+  );
+  if (prefixed) return prefixed[1];
+  const first = pathname.split("/")[1]?.toLowerCase() ?? "";
+  return isValidSign(first) ? "/:sign" : "other";
+}
+
+const METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+/**
+ * Method label: anything a client makes up becomes "other"
+ */
+export function getMethodLabel(method: string): string {
+  return METHODS.includes(method) ? method : "other";
+}
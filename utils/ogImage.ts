@@ -0,0 +1,248 @@
+// ===================================================================
+// OG IMAGE - 1200x630 share cards for sign readings
+// ===================================================================
+// Same art as the terminal: generateHoroscopeAscii builds the figlet
+// title and wrapped excerpt, colored with the header color and
+// getEffectColor gradient that applyColorToArt uses. Laid out as SVG,
+// rasterized to PNG with resvg (WebAssembly, no browser or GPU).
+//
+// resvg can't see system fonts, so the wasm binary and DejaVu fonts are
+// fetched once per process from OG_ASSET_BASE_URL (an npm CDN).
+
+import { initWasm, Resvg } from "@resvg/resvg-wasm";
+import { generateHoroscopeAscii } from "./asciiArtGenerator.ts";
+import { getEffectColor, getHeaderColor } from "./colorEffects.ts";
+import { getZodiacEmoji } from "./zodiac.ts";
+import { excerpt } from "./seo.ts";
+import { escapeXml } from "./xml.ts";
+import { getDisplayLabel, type HoroscopeReading } from "./horoscope/reading.ts";
+import { getConfig } from "./config.ts";
+
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+
+const DEFAULT_ASSET_BASE_URL = "https://cdn.jsdelivr.net/npm/";
+const WASM_PATH = "@resvg/resvg-wasm@2.6.2/index_bg.wasm";
+const FONT_PATHS = [
+  "dejavu-fonts-ttf@2.37.3/ttf/DejaVuSansMono.ttf",
+  "dejavu-fonts-ttf@2.37.3/ttf/DejaVuSansMono-Bold.ttf",
+  // Zodiac symbols aren't in the mono face
+  "dejavu-fonts-ttf@2.37.3/ttf/DejaVuSans.ttf",
+];
+
+const PADDING = 64;
+const EMOJI_BOX = 132;
+// DejaVu Sans Mono advance width, in em
+const CHAR_WIDTH_EM = 0.602;
+const EXCERPT_LENGTH = 240;
+const BODY_FONT_SIZE = 24;
+const BODY_LINE_HEIGHT = 34;
+const MATRIX_GREEN = "#00FF41";
+
+/**
+ * Split generateHoroscopeAscii output into header and body lines,
+ * keeping each line's index in the full art (the gradient depends on it)
+ */
+function splitArt(art: string) {
+  const lines = art.split("\n");
+  const header: string[] = [];
+  const body: { line: string; y: number }[] = [];
+  let inHeader = false;
+
+  lines.forEach((line, y) => {
+    if (line.includes("[HEADER_START]")) inHeader = true;
+    else if (line.includes("[HEADER_END]")) inHeader = false;
+    else if (inHeader) header.push(line);
+    else if (line.trim()) body.push({ line, y });
+  });
+
+  return { header, body, totalLines: lines.length };
+}
+
+/**
+ * Lay the reading out as a 1200x630 SVG
+ */
+export function buildOgSvg(reading: HoroscopeReading, effect: string): string {
+  const art = generateHoroscopeAscii(
+    reading.sign,
+    excerpt(reading.text, EXCERPT_LENGTH),
+    reading.period,
+    getDisplayLabel(reading),
+    getZodiacEmoji(reading.sign),
+  );
+  const { header, body, totalLines } = splitArt(art);
+  const titleLines = header.slice(0, -1);
+  const metaLine = header[header.length - 1] ?? "";
+  const headerColor = effect === "none" ? "#FFD700" : getHeaderColor(effect);
+
+  // Title: as big as fits beside the emoji, and above the excerpt
+  const titleColumns = Math.max(...titleLines.map((line) => line.length), 1);
+  const titleWidth = OG_WIDTH - PADDING * 2 - EMOJI_BOX - 24;
+  const titleSize = Math.min(
+    30,
+    titleWidth / (titleColumns * CHAR_WIDTH_EM),
+    250 / (titleLines.length * 1.1),
+  );
+  const titleLineHeight = titleSize * 1.1;
+
+  const parts: string[] = [];
+  let y = PADDING + titleSize;
+
+  for (const line of titleLines) {
+    parts.push(
+      `<text x="${PADDING}" y="${y.toFixed(1)}" font-size="${
+        titleSize.toFixed(1)
+      }" font-weight="bold" fill="${headerColor}">${escapeXml(line)}</text>`,
+    );
+    y += titleLineHeight;
+  }
+
+  y += 18;
+  parts.push(
+    `<text x="${PADDING}" y="${
+      y.toFixed(1)
+    }" font-size="26" font-weight="bold" fill="${headerColor}">${
+      escapeXml(metaLine)
+    }</text>`,
+  );
+
+  // Excerpt, one gradient color per line like applyColorToArt
+  y += 52;
+  const maxBodyLines = Math.max(
+    1,
+    Math.floor((OG_HEIGHT - 72 - y) / BODY_LINE_HEIGHT) + 1,
+  );
+  for (const { line, y: artY } of body.slice(0, maxBodyLines)) {
+    const color = effect === "none" ? MATRIX_GREEN : getEffectColor(
+      effect,
+      Math.floor(line.length / 2),
+      artY,
+      line.length,
+      totalLines,
+    );
+    parts.push(
+      `<text x="${PADDING}" y="${
+        y.toFixed(1)
+      }" font-size="${BODY_FONT_SIZE}" fill="${color}">${
+        escapeXml(line)
+      }</text>`,
+    );
+    y += BODY_LINE_HEIGHT;
+  }
+
+  // Effect strip along the bottom edge
+  const stops = Array.from({ length: 24 }, (_, i) => {
+    const color = effect === "none"
+      ? MATRIX_GREEN
+      : getEffectColor(effect, i * 3, i, 72, 24);
+    return `<stop offset="${(i / 23).toFixed(3)}" stop-color="${color}"/>`;
+  }).join("");
+
+  const emojiX = OG_WIDTH - PADDING - EMOJI_BOX;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_WIDTH}" height="${OG_HEIGHT}" viewBox="0 0 ${OG_WIDTH} ${OG_HEIGHT}">
+<defs><linearGradient id="strip" x1="0" x2="1" y1="0" y2="0">${stops}</linearGradient></defs>
+<rect width="${OG_WIDTH}" height="${OG_HEIGHT}" fill="#000000"/>
+<rect x="${emojiX}" y="${PADDING}" width="${EMOJI_BOX}" height="${EMOJI_BOX}" rx="24" fill="#111111" stroke="${headerColor}" stroke-width="4"/>
+<text x="${emojiX + EMOJI_BOX / 2}" y="${
+    PADDING + EMOJI_BOX / 2 + 30
+  }" font-family="DejaVu Sans" font-size="84" text-anchor="middle" fill="${headerColor}">${
+    escapeXml(getZodiacEmoji(reading.sign))
+  }</text>
+<g font-family="DejaVu Sans Mono" xml:space="preserve">
+${parts.join("\n")}
+<text x="${PADDING}" y="${
+    OG_HEIGHT - 36
+  }" font-size="20" fill="${MATRIX_GREEN}" fill-opacity="0.7">stargram.app/${
+    escapeXml(reading.sign)
+  }</text>
+</g>
+<rect x="0" y="${
+    OG_HEIGHT - 10
+  }" width="${OG_WIDTH}" height="10" fill="url(#strip)"/>
+</svg>`;
+}
+
+let wasmPromise: Promise<void> | null = null;
+let fontsPromise: Promise<Uint8Array[]> | null = null;
+
+/**
+ * Load the wasm module and fonts once per process. Each retries on its
+ * own after a failure: initWasm throws if it already succeeded once.
+ */
+function loadRenderer(): Promise<Uint8Array[]> {
+  const base = getConfig().og.assetBaseUrl ?? DEFAULT_ASSET_BASE_URL;
+  if (!wasmPromise) {
+    wasmPromise = initWasm(fetch(`${base}${WASM_PATH}`));
+    // Let the next request try again rather than caching the failure
+    wasmPromise.catch(() => (wasmPromise = null));
+  }
+  if (!fontsPromise) {
+    const fetchBytes = async (path: string) => {
+      const response = await fetch(`${base}${path}`);
+      if (!response.ok) {
+        throw new Error(`OG asset ${path} failed: HTTP ${response.status}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    };
+    fontsPromise = Promise.all(FONT_PATHS.map(fetchBytes));
+    fontsPromise.catch(() => (fontsPromise = null));
+  }
+  return Promise.all([wasmPromise, fontsPromise]).then(([, fonts]) => fonts);
+}
+
+/**
+ * Rasterize an OG SVG to PNG bytes
+ */
+export async function renderOgPng(svg: string): Promise<Uint8Array> {
+  const fontBuffers = await loadRenderer();
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: "width", value: OG_WIDTH },
+    font: {
+      fontBuffers,
+      defaultFontFamily: "DejaVu Sans Mono",
+      monospaceFamily: "DejaVu Sans Mono",
+    },
+  });
+  try {
+    return resvg.render().asPng();
+  } finally {
+    resvg.free();
+  }
+}
+
+// Rendered cards, newest last. Dated cards never change, so a small
+// LRU in front of the CDN cache saves re-rendering on a cold edge.
+const MAX_CACHED_IMAGES = 100;
+const imageCache = new Map<string, Uint8Array>();
+
+/**
+ * PNG card for a reading, from the in-process cache when we can.
+ * Stand-in readings pass `cacheable: false`: their card would otherwise
+ * be served under the real reading's key.
+ */
+export async function getOgImage(
+  reading: HoroscopeReading,
+  effect: string,
+  cacheable = true,
+): Promise<Uint8Array> {
+  if (!cacheable) return await renderOgPng(buildOgSvg(reading, effect));
+
+  const id = [reading.sign, reading.period, reading.date, effect].join(":");
+  const cached = imageCache.get(id);
+  if (cached) {
+    // Map keeps insertion order, so re-inserting moves the key to the end
+    imageCache.delete(id);
+    imageCache.set(id, cached);
+    return cached;
+  }
+
+  const png = await renderOgPng(buildOgSvg(reading, effect));
+  imageCache.set(id, png);
+  while (imageCache.size > MAX_CACHED_IMAGES) {
+    const oldest = imageCache.keys().next().value;
+    if (oldest === undefined) break;
+    imageCache.delete(oldest);
+  }
+  return png;
+}
@@ -0,0 +1,354 @@
+// ===================================================================
+// RATE LIMIT - Per-IP token buckets for the API routes
+// ===================================================================
+// Each client IP gets a bucket per route. A bucket holds up to
+// `capacity` tokens and refills at `refillPerMinute`; every request
+// takes one. Empty bucket → 429 until a token drips back in.
+//
+// Rules are matched by longest path prefix and can be overridden with
+// RATE_LIMITS (JSON), e.g.
+//   RATE_LIMITS='{"/api/horoscope/all":{"capacity":3,"refillPerMinute":3}}'
+// Buckets live in Deno KV so limits hold across isolates, in memory
+// otherwise.
+
+import { getKv } from "./kv.ts";
+import { errorResponse, HoroscopeApiError } from "./horoscope/errors.ts";
+import { log } from "./log.ts";
+import { escapeXml } from "./xml.ts";
+import { getConfig } from "./config.ts";
+
+export interface RateLimitRule {
+  /** Burst size: requests allowed back to back */
+  capacity: number;
+  /** Sustained rate: tokens added back per minute */
+  refillPerMinute: number;
+}
+
+export interface RateLimitMatch {
+  /** Rule name, also the bucket namespace */
+  route: string;
+  rule: RateLimitRule;
+  /** Who the bucket belongs to; the client IP by default */
+  bucket?: string;
+}
+
+// Rule name for CORS preflights, the only OPTIONS requests that count
+export const PREFLIGHT_RULE = "preflight";
+
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimitRule> = {
+  "/api/horoscope": { capacity: 30, refillPerMinute: 20 },
+  // Twelve upstream fetches per call, so it gets a much smaller bucket
+  "/api/horoscope/all": { capacity: 6, refillPerMinute: 6 },
+  "/api/horoscope/archive": { capacity: 30, refillPerMinute: 30 },
+  // Sign pages and their curl output (routes/[sign]), matched by name
+  "/:sign": { capacity: 30, refillPerMinute: 20 },
+  // Share cards (routes/og) rasterize a PNG on a cache miss
+  "/og": { capacity: 20, refillPerMinute: 20 },
+  // Feed readers poll every few minutes at most
+  "/feeds": { capacity: 20, refillPerMinute: 10 },
+  "/calendar": { capacity: 20, refillPerMinute: 10 },
+  // Embeds load with every view of the host page
+  "/embed": { capacity: 60, refillPerMinute: 60 },
+  // Keyless /api/horoscope calls from other sites (the embed element),
+  // one bucket per calling origin on top of the per-IP one
+  // (routes/api/_middleware.ts), matched by name. About 1,500 a day,
+  // well below a key's default 10,000; more than this takes a key.
+  "cross-origin": { capacity: 60, refillPerMinute: 1 },
+  // CORS preflights for /api, per IP, matched by name
+  [PREFLIGHT_RULE]: { capacity: 30, refillPerMinute: 30 },
+};
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Until the next token, when the request was refused */
+  retryAfterMs: number;
+  /** Until the bucket is full again */
+  resetMs: number;
+}
+
+/**
+ * Refill the bucket for the time that has passed, then try to take a token
+ */
+export function takeToken(
+  rule: RateLimitRule,
+  state: BucketState | null,
+  now: number,
+): { state: BucketState; result: RateLimitResult } {
+  const perMs = rule.refillPerMinute / 60_000;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state
+    ? Math.min(rule.capacity, state.tokens + elapsed * perMs)
+    : rule.capacity;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / perMs),
+      resetMs: Math.ceil((rule.capacity - tokens) / perMs),
+    },
+  };
+}
+
+export interface RateLimitStore {
+  take(
+    key: string[],
+    rule: RateLimitRule,
+    now: number,
+  ): Promise<RateLimitResult>;
+}
+
+export class KvRateLimitStore implements RateLimitStore {
+  constructor(private kv: Deno.Kv, private maxAttempts = 3) {}
+
+  async take(key: string[], rule: RateLimitRule, now: number) {
+    const kvKey = ["rate-limit", ...key];
+    let last: RateLimitResult | null = null;
+
+    // Optimistic concurrency: retry if another request touched the bucket
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const entry = await this.kv.get<BucketState>(kvKey);
+      const { state, result } = takeToken(rule, entry.value, now);
+      last = result;
+      const commit = await this.kv.atomic()
+        .check(entry)
+        .set(kvKey, state, { expireIn: result.resetMs + 60_000 })
+        .commit();
+      if (commit.ok) return result;
+    }
+
+    // Heavy contention on one bucket: go with what we last computed
+    return last!;
+  }
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState>();
+
+  constructor(private maxEntries = 10_000) {}
+
+  take(key: string[], rule: RateLimitRule, now: number) {
+    const id = key.join(":");
+    const { state, result } = takeToken(
+      rule,
+      this.buckets.get(id) ?? null,
+      now,
+    );
+    // Map keeps insertion order, so re-inserting moves the key to the end
+    this.buckets.delete(id);
+    this.buckets.set(id, state);
+    while (this.buckets.size > this.maxEntries) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest === undefined) break;
+      this.buckets.delete(oldest);
+    }
+    return Promise.resolve(result);
+  }
+}
+
+let storePromise: Promise<RateLimitStore> | null = null;
+
+/**
+ * Get the process-wide bucket store (KV if it opens, memory otherwise)
+ */
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  if (!storePromise) {
+    storePromise = getKv().then((kv) =>
+      kv ? new KvRateLimitStore(kv) : new MemoryRateLimitStore()
+    );
+  }
+  return storePromise;
+}
+
+let rules: Record<string, RateLimitRule> | null = null;
+
+/**
+ * Default rules with RATE_LIMITS overrides applied (validated in
+ * utils/config.ts)
+ */
+export function getRateLimitRules(): Record<string, RateLimitRule> {
+  if (!rules) {
+    rules = { ...DEFAULT_RATE_LIMITS, ...getConfig().rateLimits.overrides };
+  }
+  return rules;
+}
+
+/**
+ * The rule for a path: the longest matching route prefix, if any
+ */
+export function matchRateLimitRule(
+  pathname: string,
+  ruleSet: Record<string, RateLimitRule> = getRateLimitRules(),
+): RateLimitMatch | null {
+  let match: RateLimitMatch | null = null;
+  for (const [route, rule] of Object.entries(ruleSet)) {
+    const matches = pathname === route || pathname.startsWith(`${route}/`);
+    if (matches && (!match || route.length > match.route.length)) {
+      match = { route, rule };
+    }
+  }
+  return match;
+}
+
+/**
+ * Our own prewarming jobs skip the limiter: either their IP is in
+ * RATE_LIMIT_ALLOWLIST (comma separated) or they send PREWARM_TOKEN
+ * in the X-Prewarm-Token header
+ */
+export function isAllowlisted(req: Request, clientIp: string): boolean {
+  const { rateLimits, secrets } = getConfig();
+  if (rateLimits.allowlist.includes(clientIp)) return true;
+
+  const token = secrets.prewarmToken;
+  return Boolean(token) && req.headers.get("x-prewarm-token") === token;
+}
+
+/**
+ * Client IP for bucketing. X-Forwarded-For is only trusted when
+ * RATE_LIMIT_TRUST_PROXY=true, since anyone can send it
+ */
+export function getClientIp(req: Request, remoteAddr: Deno.Addr): string {
+  if (getConfig().rateLimits.trustProxy) {
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]
+      ?.trim();
+    if (forwarded) return forwarded;
+  }
+  return "hostname" in remoteAddr ? remoteAddr.hostname : "unknown";
+}
+
+/**
+ * X-RateLimit-* headers describing the bucket after this request
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+  };
+}
+
+function retryHeader(error: HoroscopeApiError): Record<string, string> {
+  return error.retryAfter !== undefined
+    ? { "Retry-After": String(error.retryAfter) }
+    : {};
+}
+
+/**
+ * 429 for pages people open in a browser (sign pages, embeds)
+ */
+export function rateLimitedPage(
+  error: HoroscopeApiError,
+  headers: Record<string, string>,
+): Response {
+  const wait = error.retryAfter !== undefined
+    ? `<p>Try again in ${error.retryAfter}s.</p>`
+    : "";
+  return new Response(
+    `<!DOCTYPE html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Slow down - Stargram</title></head>
+<body style="margin:0;padding:2rem;background:#000;color:#00FF41;font-family:monospace"><p>✖ ${
+      escapeXml(error.message)
+    }</p>${wait}</body></html>
+`,
+    {
+      status: error.status,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+        ...retryHeader(error),
+        ...headers,
+      },
+    },
+  );
+}
+
+/**
+ * 429 for feeds and calendars, whose readers show text better than JSON
+ */
+export function rateLimitedText(
+  error: HoroscopeApiError,
+  headers: Record<string, string>,
+): Response {
+  return new Response(`${error.message}\n`, {
+    status: error.status,
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": "no-store",
+      ...retryHeader(error),
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Take a token for the caller, then run `next` or refuse with a 429.
+ * `limited` builds the refusal (JSON API error by default).
+ *
+ * If the bucket store fails we let the request through: better an
+ * unthrottled minute than a site-wide outage.
+ */
+export async function withRateLimit(
+  req: Request,
+  remoteAddr: Deno.Addr,
+  match: RateLimitMatch,
+  next: () => Promise<Response>,
+  limited: (
+    error: HoroscopeApiError,
+    headers: Record<string, string>,
+  ) => Response = errorResponse,
+): Promise<Response> {
+  const clientIp = getClientIp(req, remoteAddr);
+  if (
+    (req.method === "OPTIONS" && match.route !== PREFLIGHT_RULE) ||
+    isAllowlisted(req, clientIp)
+  ) {
+    return next();
+  }
+
+  let result: RateLimitResult;
+  try {
+    const store = await getRateLimitStore();
+    result = await store.take(
+      [match.route, match.bucket ?? clientIp],
+      match.rule,
+      Date.now(),
+    );
+  } catch (error) {
+    log.error("Rate limiter unavailable, letting request through", {
+      error,
+    });
+    return next();
+  }
+
+  if (!result.allowed) {
+    const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+    return limited(
+      new HoroscopeApiError(
+        "rate_limited",
+        "Too many requests, slow down and try again shortly",
+        { retryAfter },
+      ),
+      rateLimitHeaders(result),
+    );
+  }
+
+  const response = await next();
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
@@ -0,0 +1,196 @@
+// ===================================================================
+// SECURITY HEADERS - CSP with per-request nonces, HSTS and friends
+// ===================================================================
+// routes/_middleware.ts puts a fresh nonce in ctx.state.nonce for every
+// request. Our inline scripts (window.ENV, JSON-LD, the service worker
+// registration, the embed's resize script) carry it, so the policy can
+// leave out 'unsafe-inline' for scripts: anything that sneaks into the
+// page through upstream text or a dangerouslySetInnerHTML can't run.
+//
+// Fresh nonces its own island bootstrap only on routes with
+// `config.csp = true`, and announces that nonce in its own CSP header.
+// We pick it up from there and replace Fresh's header with ours.
+//
+// Third parties get in through CSP_ALLOWANCES below, PostHog only when
+// analytics is configured. Anything else: security.cspExtraSources in
+// utils/config.ts.
+
+import type { AppConfig } from "./config.ts";
+
+type Directives = Record<string, string[]>;
+
+// Named so it's clear why each outside origin is there
+const CSP_ALLOWANCES: Record<string, Directives> = {
+  // JetBrains Mono; html-to-image also fetches the CSS and font files to
+  // inline them into PNG exports
+  googleFonts: {
+    "style-src": ["https://fonts.googleapis.com"],
+    "font-src": ["https://fonts.gstatic.com"],
+    "connect-src": [
+      "https://fonts.googleapis.com",
+      "https://fonts.gstatic.com",
+    ],
+  },
+  // Donation widget (islands/KofiModal.tsx)
+  kofi: {
+    "frame-src": ["https://ko-fi.com"],
+  },
+};
+
+// Styles stay inline-friendly: islands set style attributes everywhere
+const PAGE_DIRECTIVES: Directives = {
+  "default-src": ["'self'"],
+  "script-src": ["'self'"],
+  "style-src": ["'self'", "'unsafe-inline'"],
+  "font-src": ["'self'"],
+  "img-src": ["'self'", "data:", "blob:"],
+  "connect-src": ["'self'"],
+  "frame-src": [],
+  "worker-src": ["'self'"],
+  "manifest-src": ["'self'"],
+  "object-src": ["'none'"],
+  "base-uri": ["'none'"],
+  "form-action": ["'self'"],
+  "frame-ancestors": ["'self'"],
+};
+
+// /embed pages: no islands, no _app, no third parties
+const EMBED_DIRECTIVES: Directives = {
+  "default-src": ["'none'"],
+  "script-src": ["'self'"],
+  "style-src": ["'unsafe-inline'"],
+  "img-src": ["'self'", "data:"],
+  "base-uri": ["'none'"],
+  "form-action": ["'none'"],
+};
+
+const PERMISSIONS_POLICY = [
+  "camera=()",
+  "microphone=()",
+  "geolocation=()",
+  "usb=()",
+  // Ko-fi's checkout runs inside its iframe
+  'payment=(self "https://ko-fi.com")',
+].join(", ");
+
+/**
+ * A random nonce for one response
+ */
+export function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Nonces Fresh put in its own CSP header's script-src (only there when
+ * the route sets `config.csp = true`)
+ */
+export function getFrameworkNonces(header: string | null): string[] {
+  const scriptSrc = header?.split(";")
+    .map((directive) => directive.trim())
+    .find((directive) => directive.startsWith("script-src "));
+  return [...(scriptSrc ?? "").matchAll(/'nonce-([\w+/=-]+)'/g)]
+    .map((match) => match[1]);
+}
+
+function mergeDirectives(base: Directives, ...extras: Directives[]) {
+  const merged: Directives = structuredClone(base);
+  for (const extra of extras) {
+    for (const [directive, sources] of Object.entries(extra)) {
+      merged[directive] = [
+        ...new Set([...merged[directive] ?? [], ...sources]),
+      ];
+    }
+  }
+  return merged;
+}
+
+/**
+ * PostHog's API host (it may be a reverse proxy of ours) plus its
+ * asset CDN, which serves the lazily loaded parts of posthog-js
+ */
+function getAnalyticsAllowance(config: AppConfig): Directives {
+  if (!config.analytics.posthogKey) return {};
+  const host =
+    new URL(config.analytics.posthogHost ?? "https://app.posthog.com")
+      .origin;
+  const sources = [host, "https://*.posthog.com"];
+  return { "script-src": sources, "connect-src": sources };
+}
+
+/**
+ * The Content-Security-Policy for an HTML response
+ */
+export function buildContentSecurityPolicy(
+  config: AppConfig,
+  { nonces, embed }: { nonces: string[]; embed: boolean },
+): string {
+  const { security } = config;
+  const directives = embed
+    ? mergeDirectives(EMBED_DIRECTIVES, {
+      "frame-ancestors": security.embedFrameAncestors,
+    })
+    : mergeDirectives(
+      PAGE_DIRECTIVES,
+      ...Object.values(CSP_ALLOWANCES),
+      getAnalyticsAllowance(config),
+    );
+  const policy = mergeDirectives(
+    directives,
+    { "script-src": nonces.map((nonce) => `'nonce-${nonce}'`) },
+    security.cspExtraSources,
+    security.cspReportUri ? { "report-uri": [security.cspReportUri] } : {},
+  );
+
+  return Object.entries(policy)
+    // Directives nothing was added to fall back to default-src
+    .filter(([, sources]) => sources.length)
+    .map(([directive, sources]) => `${directive} ${sources.join(" ")}`)
+    .join("; ");
+}
+
+/**
+ * Set the security headers on a response. CSP only goes on HTML (it
+ * means nothing for JSON, feeds or images); the rest goes everywhere.
+ */
+export function applySecurityHeaders(
+  req: Request,
+  response: Response,
+  config: AppConfig,
+  nonce: string,
+): void {
+  const { headers } = response;
+  headers.set("X-Content-Type-Options", "nosniff");
+  headers.set("Referrer-Policy", "strict-origin-when-cross-origin");
+  headers.set("Permissions-Policy", PERMISSIONS_POLICY);
+
+  const proto = req.headers.get("x-forwarded-proto") ??
+    new URL(req.url).protocol.replace(":", "");
+  if (proto === "https") {
+    headers.set(
+      "Strict-Transport-Security",
+      `max-age=${config.security.hstsMaxAge}; includeSubDomains`,
+    );
+  }
+
+  if (!headers.get("content-type")?.startsWith("text/html")) return;
+
+  const nonces = [
+    nonce,
+    ...getFrameworkNonces(
+      headers.get("content-security-policy") ??
+        headers.get("content-security-policy-report-only"),
+    ),
+  ];
+  headers.delete("content-security-policy");
+  headers.delete("content-security-policy-report-only");
+  headers.set(
+    config.security.cspReportOnly
+      ? "Content-Security-Policy-Report-Only"
+      : "Content-Security-Policy",
+    buildContentSecurityPolicy(config, {
+      nonces,
+      embed: new URL(req.url).pathname.startsWith("/embed/"),
+    }),
+  );
+}
@@ -0,0 +1,138 @@
+// ===================================================================
+// SEO - Page titles, descriptions and canonical URLs
+// ===================================================================
+// Routes put a PageSeo on ctx.state.seo; _app.tsx renders it into the
+// <head>. Pages that don't set one get the site defaults.
+
+import { getZodiacSign } from "./zodiac.ts";
+import type { HoroscopePeriod } from "./horoscope/types.ts";
+import type { HoroscopeReading } from "./horoscope/reading.ts";
+import { DEFAULT_TERMINAL_EFFECT } from "./horoscope/terminal.ts";
+
+export const SITE_URL = "https://stargram.app";
+
+/** A <link rel="alternate"> to a feed of the page */
+export interface FeedLink {
+  title: string;
+  type: string;
+  href: string;
+}
+
+export interface PageSeo {
+  title: string;
+  description: string;
+  canonical: string;
+  /** Absolute og:image URL; the static card when unset */
+  image?: string;
+  /** Feed autodiscovery links */
+  feeds?: FeedLink[];
+  /** Feeds StructuredData's Article schema */
+  horoscope?: {
+    sign: string;
+    period: string;
+    text: string;
+    date: string;
+  };
+}
+
+/** ctx.state shared by routes and _app.tsx */
+export interface AppState {
+  seo?: PageSeo;
+  /** CSP nonce for inline scripts, set by routes/_middleware.ts */
+  nonce?: string;
+}
+
+export const DEFAULT_SEO: PageSeo = {
+  title: "Stargram • Horoscopes That Look As Good As They Read",
+  description:
+    "Get your daily, weekly, or monthly horoscope styled as shareable cosmic art. Pick your sign, apply gradients, export as beautiful images.",
+  canonical: SITE_URL,
+};
+
+// Search snippets get cut off around here
+const DESCRIPTION_LENGTH = 155;
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Trim to a search-snippet length on a word boundary
+ */
+export function excerpt(text: string, length = DESCRIPTION_LENGTH): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${cut.slice(0, lastSpace > 0 ? lastSpace : cut.length)}…`;
+}
+
+/**
+ * Path for a sign reading: /leo, /leo/weekly, /leo/2026-10-19,
+ * /leo/weekly/2026-10-12. Leave date out for the current reading.
+ */
+export function getSignPath(
+  sign: string,
+  period: HoroscopePeriod,
+  date?: string,
+): string {
+  const parts = [sign];
+  if (period !== "daily") parts.push(period);
+  if (date) parts.push(date);
+  return `/${parts.join("/")}`;
+}
+
+/**
+ * Share card for a reading (routes/og), pinned to the reading's date so
+ * scrapers that cache by URL get a new card with each new reading
+ */
+export function getOgImageUrl(
+  reading: HoroscopeReading,
+  effect?: string,
+): string {
+  const params = new URLSearchParams({
+    period: reading.period,
+    date: reading.date,
+  });
+  if (effect && effect !== DEFAULT_TERMINAL_EFFECT) {
+    params.set("effect", effect);
+  }
+  return `${SITE_URL}/og/${reading.sign}?${params}`;
+}
+
+/**
+ * Title, description, canonical URL and share card for a sign page
+ * Pass the date only for pages pinned to a past (or future) reading
+ */
+export function buildSignSeo(
+  sign: string,
+  period: HoroscopePeriod,
+  reading: HoroscopeReading | null,
+  date?: string,
+  effect?: string,
+): PageSeo {
+  const name = capitalize(sign);
+  const zodiac = getZodiacSign(sign);
+  const heading = `${name} ${capitalize(period)} Horoscope`;
+  const title = date && reading
+    ? `${heading} • ${reading.label} • Stargram`
+    : `${heading} • Stargram`;
+
+  return {
+    title,
+    description: reading
+      ? excerpt(reading.text)
+      : `Your ${period} ${name} horoscope${
+        zodiac ? ` (${zodiac.dates})` : ""
+      }, styled as shareable cosmic art.`,
+    canonical: `${SITE_URL}${getSignPath(sign, period, date)}`,
+    ...(reading && {
+      image: getOgImageUrl(reading, effect),
+      horoscope: {
+        sign,
+        period,
+        text: reading.text,
+        date: reading.date,
+      },
+    }),
+  };
+}
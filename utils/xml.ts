@@ -0,0 +1,15 @@
+// ===================================================================
+// XML - Escaping for generated XML and SVG
+// ===================================================================
+
+/**
+ * Escape text for XML/SVG content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}